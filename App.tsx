@@ -1,24 +1,91 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { LiveInterface } from './components/LiveInterface';
-import { SpeakerWaveIcon, WrenchScrewdriverIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { RingOutWizard } from './components/RingOutWizard';
+import { SessionHistory } from './components/SessionHistory';
+import { MixerProfiles } from './components/MixerProfiles';
+import { OfflineTroubleshooter } from './components/OfflineTroubleshooter';
+import { loadProfiles, loadSelectedProfileId, saveSelectedProfileId } from './utils/mixerProfiles';
+import { createDiagnosticReplay, DiagnosticReplay, parseDiagnosticBundle } from './utils/diagnosticReplay';
+import { applyDocumentLanguage, Language, LANGUAGES, loadLanguage, saveLanguage, uiStrings } from './utils/i18n';
+import { SpeakerWaveIcon, WrenchScrewdriverIcon, ShieldCheckIcon, SignalIcon, ClockIcon, BuildingOffice2Icon, WifiIcon } from '@heroicons/react/24/outline';
+
+type Screen = 'home' | 'call' | 'ring_out' | 'history' | 'profiles' | 'offline';
 
 const App = () => {
-  const [inCall, setInCall] = useState(false);
+  const [screen, setScreen] = useState<Screen>('home');
   const [hasStarted, setHasStarted] = useState(false);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(loadSelectedProfileId);
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const [replay, setReplay] = useState<DiagnosticReplay | null>(null);
+  const [replayError, setReplayError] = useState('');
+  const t = uiStrings(language).app;
+
+  useEffect(() => {
+    applyDocumentLanguage(language);
+  }, [language]);
+
+  // Re-read on every render so edits made on the profiles screen show up
+  const selectedProfile = loadProfiles().find(p => p.id === selectedProfileId) ?? null;
+
+  const selectProfile = (id: string | null) => {
+    saveSelectedProfileId(id);
+    setSelectedProfileId(id);
+  };
+
+  const selectLanguage = (id: Language) => {
+    saveLanguage(id);
+    setLanguage(id);
+  };
 
   const startSession = () => {
     setHasStarted(true);
-    setInCall(true);
+    setScreen('call');
+  };
+
+  // Opens a downloaded diagnostic recording and plays it as a call
+  const startReplay = async (file: File | undefined) => {
+    if (!file) return;
+    const bundle = parseDiagnosticBundle(await file.text());
+    if (!bundle) {
+      setReplayError(t.invalidDiagnostic);
+      return;
+    }
+    setReplayError('');
+    setReplay(createDiagnosticReplay(bundle));
+    setScreen('call');
+  };
+
+  // Leaving a call for any screen ends the replay it was playing
+  const leaveCall = (next: Screen) => {
+    replay?.stop();
+    setReplay(null);
+    setScreen(next);
   };
 
   const endSession = () => {
-    setInCall(false);
+    leaveCall('home');
     // Optionally reset hasStarted if you want to show the splash screen again
     // setHasStarted(false); 
   };
 
-  if (inCall) {
-    return <LiveInterface onDisconnect={endSession} />;
+  if (screen === 'call') {
+    return <LiveInterface profile={selectedProfile} language={language} onDisconnect={endSession} onOfflineMode={() => leaveCall('offline')} replay={replay} />;
+  }
+
+  if (screen === 'ring_out') {
+    return <RingOutWizard profile={selectedProfile} language={language} onExit={() => setScreen('home')} />;
+  }
+
+  if (screen === 'history') {
+    return <SessionHistory language={language} onExit={() => setScreen('home')} />;
+  }
+
+  if (screen === 'offline') {
+    return <OfflineTroubleshooter language={language} onExit={() => setScreen('home')} />;
+  }
+
+  if (screen === 'profiles') {
+    return <MixerProfiles selectedId={selectedProfileId} language={language} onSelect={selectProfile} onExit={() => setScreen('home')} />;
   }
 
   return (
@@ -30,6 +97,25 @@ const App = () => {
       </div>
 
       <main className="flex-1 flex flex-col items-center justify-center p-6 z-10 text-center max-w-md mx-auto w-full">
+
+        {/* Language Picker */}
+        <div className="mb-6 flex flex-wrap justify-center gap-2" role="group" aria-label={t.language}>
+          {LANGUAGES.map(l => (
+            <button
+              key={l.id}
+              lang={l.id}
+              dir={l.dir}
+              onClick={() => selectLanguage(l.id)}
+              className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                l.id === language
+                  ? 'bg-emerald-600 border-emerald-500 text-white'
+                  : 'bg-slate-800/70 border-slate-700 text-slate-300 hover:bg-slate-700'
+              }`}
+            >
+              {l.nativeName}
+            </button>
+          ))}
+        </div>
         
         <div className="mb-8 relative">
           <div className="absolute inset-0 bg-emerald-500 blur-2xl opacity-20 rounded-full"></div>
@@ -37,16 +123,30 @@ const App = () => {
         </div>
 
         <h1 className="text-4xl font-bold mb-2 text-white drop-shadow-lg">
-          مهندس الصوت
-          <span className="block text-xl text-emerald-400 mt-1 font-normal">للمساجد</span>
+          {t.title}
+          <span className="block text-xl text-emerald-400 mt-1 font-normal">{t.subtitle}</span>
         </h1>
 
         <p className="text-slate-300 mb-10 text-lg leading-relaxed">
-          هل تواجه مشكلة "صدى" أو "زنة" في سماعات المسجد؟
+          {t.problemQuestion}
           <br />
-          افتح الكاميرا وسيقوم الذكاء الاصطناعي بمساعدتك في ضبط الجهاز فوراً.
+          {t.cameraPitch}
         </p>
 
+        <button
+          onClick={() => setScreen('profiles')}
+          className="mb-4 w-full max-w-xs flex items-center gap-3 bg-slate-800/70 hover:bg-slate-700 border border-slate-700 rounded-2xl px-4 py-3 text-start transition-colors"
+        >
+          <BuildingOffice2Icon className="w-6 h-6 text-emerald-400 shrink-0" />
+          <span className="flex-1">
+            <span className="block text-xs text-slate-400">{t.mosqueEquipment}</span>
+            <span className="block text-slate-100 font-bold">
+              {selectedProfile ? selectedProfile.mosqueName : t.noEquipment}
+            </span>
+          </span>
+          <span className="text-xs text-emerald-300">{selectedProfile ? t.change : t.add}</span>
+        </button>
+
         <button
           onClick={startSession}
           className="group relative w-full max-w-xs bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-4 px-8 rounded-2xl shadow-xl shadow-emerald-900/50 transition-all duration-300 transform hover:-translate-y-1"
@@ -54,23 +154,62 @@ const App = () => {
           <div className="absolute inset-0 bg-white/20 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity"></div>
           <span className="flex items-center justify-center gap-3 text-xl">
              <WrenchScrewdriverIcon className="w-6 h-6" />
-             ابـدأ الفحص الآن
+             {t.startCheck}
           </span>
         </button>
 
+        <button
+          onClick={() => setScreen('ring_out')}
+          className="mt-4 w-full max-w-xs flex items-center justify-center gap-2 bg-slate-800/70 hover:bg-slate-700 border border-slate-700 text-slate-200 py-3 px-6 rounded-2xl transition-colors"
+        >
+          <SignalIcon className="w-5 h-5 text-orange-400" />
+          {t.ringOut}
+        </button>
+
+        <button
+          onClick={() => setScreen('history')}
+          className="mt-3 w-full max-w-xs flex items-center justify-center gap-2 bg-slate-800/70 hover:bg-slate-700 border border-slate-700 text-slate-200 py-3 px-6 rounded-2xl transition-colors"
+        >
+          <ClockIcon className="w-5 h-5 text-blue-400" />
+          {t.history}
+        </button>
+
+        <button
+          onClick={() => setScreen('offline')}
+          className="mt-3 w-full max-w-xs flex items-center justify-center gap-2 bg-slate-800/70 hover:bg-slate-700 border border-slate-700 text-slate-200 py-3 px-6 rounded-2xl transition-colors"
+        >
+          <WifiIcon className="w-5 h-5 text-slate-400" />
+          {t.offline}
+        </button>
+
+        {/* For support: play back a recording a volunteer sent in */}
+        <label className="mt-4 text-xs text-slate-500 hover:text-slate-300 underline cursor-pointer">
+          {t.replayDiagnostic}
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              startReplay(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {replayError && <p className="mt-1 text-xs text-red-300">{replayError}</p>}
+
         <div className="mt-12 grid grid-cols-2 gap-4 text-xs text-slate-400">
           <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700">
             <ShieldCheckIcon className="w-6 h-6 mx-auto mb-2 text-blue-400" />
-            تحليل بصري للإعدادات
+            {t.visualAnalysis}
           </div>
           <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700">
             <SpeakerWaveIcon className="w-6 h-6 mx-auto mb-2 text-orange-400" />
-            استماع وتحليل للصوت
+            {t.audioAnalysis}
           </div>
         </div>
 
         <footer className="absolute bottom-6 text-xs text-slate-600">
-           مدعوم بواسطة Gemini 2.5
+           {t.poweredBy}
         </footer>
 
       </main>
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatBubbleLeftRightIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
+import { Caption } from '../types';
+import { Language, uiStrings } from '../utils/i18n';
+
+interface CaptionPanelProps {
+  captions: Caption[];
+  language: Language;
+  // False while the session is connecting or reconnecting
+  canSend: boolean;
+  onSend: (text: string) => void;
+}
+
+// Lines shown while the panel is collapsed
+const ROLLING_CAPTIONS = 2;
+
+const CaptionLine: React.FC<{ caption: Caption; you: string; engineer: string }> = ({ caption, you, engineer }) => (
+  <p className={`text-sm leading-snug ${caption.speaker === 'user' ? 'text-slate-300' : 'text-white'}`}>
+    <span className={`font-bold ${caption.speaker === 'user' ? 'text-sky-300' : 'text-emerald-300'}`}>
+      {caption.speaker === 'user' ? you : engineer}:{' '}
+    </span>
+    {caption.text}
+    {caption.typed && <span className="text-white/40"> ⌨</span>}
+  </p>
+);
+
+/** Live captions of both sides, with a box to type instead of speaking. */
+export const CaptionPanel: React.FC<CaptionPanelProps> = ({ captions, language, canSend, onSend }) => {
+  const t = uiStrings(language).live;
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest line in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [captions, expanded]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || !canSend) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  const visible = expanded ? captions : captions.slice(-ROLLING_CAPTIONS);
+
+  return (
+    <div className="w-full max-w-sm bg-black/50 backdrop-blur-md border border-white/10 rounded-2xl p-3 space-y-2">
+      <div
+        ref={listRef}
+        className={`space-y-1 overflow-y-auto ${expanded ? 'max-h-64' : 'max-h-16'}`}
+        aria-live="polite"
+      >
+        {visible.length === 0
+          ? <p className="text-xs text-white/40 text-center">{t.noCaptions}</p>
+          : visible.map(caption => <CaptionLine key={caption.id} caption={caption} you={t.you} engineer={t.engineer} />)}
+      </div>
+
+      <form onSubmit={submit} className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setExpanded(prev => !prev)}
+          title={expanded ? t.hideCaptions : t.reviewCaptions}
+          aria-pressed={expanded}
+          className={`p-2 rounded-full shrink-0 ${expanded ? 'bg-white/30' : 'bg-white/10 hover:bg-white/20'}`}
+        >
+          <span className="sr-only">{expanded ? t.hideCaptions : t.reviewCaptions}</span>
+          <ChatBubbleLeftRightIcon className="w-4 h-4 text-white" />
+        </button>
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={t.typeQuestion}
+          className="flex-1 min-w-0 bg-white/10 border border-white/10 rounded-full px-3 py-1.5 text-sm text-white placeholder-white/40 focus:outline-none focus:border-emerald-400"
+        />
+        <button
+          type="submit"
+          disabled={!canSend || !draft.trim()}
+          title={t.send}
+          className="p-2 rounded-full shrink-0 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40"
+        >
+          <span className="sr-only">{t.send}</span>
+          {/* The arrow points along the reading direction */}
+          <PaperAirplaneIcon className="w-4 h-4 text-white rtl:-scale-x-100" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { AudioSnapshot, ComparisonVerdict, SnapshotComparison } from '../types';
+import { Language, UiStrings, uiStrings } from '../utils/i18n';
+
+export type ComparisonPhase = 'idle' | 'measuring' | 'result';
+
+interface ComparisonCardProps {
+  phase: ComparisonPhase;
+  comparison: SnapshotComparison | null;
+  language: Language;
+  onClose: () => void;
+}
+
+const VERDICT_STYLES: Record<ComparisonVerdict, string> = {
+  better: 'bg-emerald-500/20 text-emerald-300',
+  worse: 'bg-red-500/20 text-red-300',
+  unchanged: 'bg-yellow-500/20 text-yellow-300',
+  unknown: 'bg-white/10 text-white/70'
+};
+
+const ROWS: { label: keyof UiStrings['panels']; format: (s: AudioSnapshot) => string }[] = [
+  { label: 'level', format: s => `${s.rmsDb} dB` },
+  { label: 'peak', format: s => `${s.peakDb} dB` },
+  { label: 'feedbackTone', format: s => (s.tonalPeakHz !== null ? `${s.tonalPeakHz} Hz / ${s.tonalPeakDb} dB` : '—') },
+  { label: 'hum', format: s => `${s.humLevelDb} dB` },
+  { label: 'tilt', format: s => `${s.tiltDbPerOctave} dB/oct` }
+];
+
+/** Before/after table for the last adjustment. */
+export const ComparisonCard: React.FC<ComparisonCardProps> = ({ phase, comparison, language, onClose }) => {
+  if (phase === 'idle') return null;
+  const strings = uiStrings(language);
+  const t = strings.panels;
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-xl border border-emerald-500/30 rounded-2xl p-4 w-full max-w-sm text-center">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-white font-bold">{t.comparisonTitle}</h3>
+        <button onClick={onClose} className="text-white/60 hover:text-white">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {phase === 'measuring' && (
+        <p className="text-emerald-300 font-bold animate-pulse">{t.comparisonMeasuring}</p>
+      )}
+
+      {phase === 'result' && comparison && (
+        <>
+          <div className={`rounded-lg py-1 mb-3 font-bold ${VERDICT_STYLES[comparison.verdict]}`}>
+            {strings.analysis.verdicts[comparison.verdict]}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-white/60 text-xs">
+                <th className="text-start font-normal pb-1"></th>
+                <th className="font-normal pb-1">{t.before}</th>
+                <th className="font-normal pb-1">{t.after}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map(row => (
+                <tr key={row.label} className="border-t border-white/5">
+                  <td className="text-start text-slate-400 py-1">{t[row.label]}</td>
+                  <td className="text-white/80" dir="ltr">{row.format(comparison.before)}</td>
+                  <td className="text-white font-bold" dir="ltr">{row.format(comparison.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
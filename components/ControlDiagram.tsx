@@ -0,0 +1,102 @@
+import React from 'react';
+import { ControlDirection, ControlTarget, ControlType } from '../types';
+import { clockToFraction } from '../utils/instructionArgs';
+
+interface ControlDiagramProps {
+  target: ControlTarget;
+  controlType?: ControlType;
+  direction?: ControlDirection;
+}
+
+// dB travel drawn for each control type
+const KNOB_DB_RANGE: [number, number] = [-15, 15];
+const FADER_DB_RANGE: [number, number] = [-40, 10];
+// Knob travel from 7 o'clock to 5 o'clock, in degrees from 12 o'clock
+const KNOB_SWEEP_DEGREES = 300;
+
+const toFraction = (value: number, unit: ControlTarget['unit'], [min, max]: [number, number]) =>
+  unit === 'clock' ? clockToFraction(value) : Math.max(0, Math.min(1, (value - min) / (max - min)));
+
+const formatValue = (value: number, unit: ControlTarget['unit']) =>
+  unit === 'clock' ? `${value}:00` : `${value > 0 ? '+' : ''}${value} dB`;
+
+const polar = (cx: number, cy: number, r: number, degrees: number) => {
+  const rad = (degrees * Math.PI) / 180;
+  return { x: cx + r * Math.sin(rad), y: cy - r * Math.cos(rad) };
+};
+
+const arcPath = (cx: number, cy: number, r: number, fromDeg: number, toDeg: number) => {
+  const start = polar(cx, cy, r, Math.min(fromDeg, toDeg));
+  const end = polar(cx, cy, r, Math.max(fromDeg, toDeg));
+  const large = Math.abs(toDeg - fromDeg) > 180 ? 1 : 0;
+  return `M ${start.x} ${start.y} A ${r} ${r} 0 ${large} 1 ${end.x} ${end.y}`;
+};
+
+const Knob: React.FC<{ from?: number; to: number }> = ({ from, to }) => {
+  const angle = (f: number) => -KNOB_SWEEP_DEGREES / 2 + f * KNOB_SWEEP_DEGREES;
+  const cx = 50;
+  const cy = 50;
+  const targetTip = polar(cx, cy, 30, angle(to));
+
+  return (
+    <svg viewBox="0 0 100 100" className="w-24 h-24">
+      <path d={arcPath(cx, cy, 42, angle(0), angle(1))} className="stroke-white/20" strokeWidth={4} fill="none" />
+      {from !== undefined && (
+        <path d={arcPath(cx, cy, 42, angle(from), angle(to))} className="stroke-emerald-400" strokeWidth={4} fill="none" />
+      )}
+      {Array.from({ length: 11 }, (_, i) => {
+        const inner = polar(cx, cy, 35, angle(i / 10));
+        const outer = polar(cx, cy, 38, angle(i / 10));
+        return <line key={i} x1={inner.x} y1={inner.y} x2={outer.x} y2={outer.y} className="stroke-white/40" strokeWidth={1} />;
+      })}
+      <circle cx={cx} cy={cy} r={26} className="fill-slate-700 stroke-slate-500" strokeWidth={2} />
+      {from !== undefined && (() => {
+        const tip = polar(cx, cy, 24, angle(from));
+        return <line x1={cx} y1={cy} x2={tip.x} y2={tip.y} className="stroke-white/40" strokeWidth={3} strokeLinecap="round" />;
+      })()}
+      <line x1={cx} y1={cy} x2={targetTip.x} y2={targetTip.y} className="stroke-emerald-400" strokeWidth={4} strokeLinecap="round" />
+      <circle cx={targetTip.x} cy={targetTip.y} r={3} className="fill-emerald-400 animate-pulse" />
+    </svg>
+  );
+};
+
+const Fader: React.FC<{ from?: number; to: number }> = ({ from, to }) => {
+  const top = 8;
+  const height = 84;
+  const y = (f: number) => top + (1 - f) * height;
+
+  return (
+    <svg viewBox="0 0 60 100" className="w-16 h-24">
+      <rect x={27} y={top} width={6} height={height} rx={3} className="fill-white/20" />
+      {from !== undefined && (
+        <>
+          <line x1={30} y1={y(from)} x2={30} y2={y(to)} className="stroke-emerald-400" strokeWidth={2} strokeDasharray="3 3" />
+          <rect x={16} y={y(from) - 4} width={28} height={8} rx={2} className="fill-white/30" />
+        </>
+      )}
+      <rect x={16} y={y(to) - 5} width={28} height={10} rx={2} className="fill-emerald-400 animate-pulse" />
+    </svg>
+  );
+};
+
+/** Draws the control with its current and target positions. */
+export const ControlDiagram: React.FC<ControlDiagramProps> = ({ target, controlType = 'knob', direction }) => {
+  const range = controlType === 'fader' ? FADER_DB_RANGE : KNOB_DB_RANGE;
+  const from = target.from !== undefined ? toFraction(target.from, target.unit, range) : undefined;
+  const to = toFraction(target.to, target.unit, range);
+  const goingUp = from !== undefined ? to > from : direction === 'up';
+
+  return (
+    <div className="flex items-center gap-3 mt-3">
+      {controlType === 'fader' ? <Fader from={from} to={to} /> : <Knob from={from} to={to} />}
+      <div className="text-sm text-slate-300 space-y-1" dir="ltr">
+        {target.from !== undefined && (
+          <div className="text-white/50">{formatValue(target.from, target.unit)}</div>
+        )}
+        <div className={`font-bold text-lg ${goingUp ? 'text-green-400' : 'text-yellow-400'}`}>
+          {goingUp ? '↑' : '↓'} {formatValue(target.to, target.unit)}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { NormalizedBox } from '../types';
+import { mapBoxToElement } from '../utils/videoGeometry';
+
+interface DriftOverlayProps {
+  // Reference photo shown faintly over the video while lining up the camera
+  ghostImage: string | null;
+  // Regions that differ from the reference, as fractions of the frame
+  changed: NormalizedBox[];
+  video: HTMLVideoElement | null;
+}
+
+export const DriftOverlay: React.FC<DriftOverlayProps> = ({ ghostImage, changed, video }) => {
+  // Re-render on resize/rotation so the boxes follow the element size
+  const [, setViewport] = useState(0);
+  useEffect(() => {
+    const onResize = () => setViewport(v => v + 1);
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, []);
+
+  if (!video || (!ghostImage && changed.length === 0)) return null;
+
+  return (
+    <div className="absolute inset-0 z-[4] pointer-events-none">
+      {ghostImage && (
+        <img
+          src={`data:image/jpeg;base64,${ghostImage}`}
+          alt=""
+          className="absolute inset-0 w-full h-full object-cover opacity-40"
+        />
+      )}
+      {video.clientWidth > 0 && changed.map((box, i) => {
+        const rect = mapBoxToElement(box, video.videoWidth, video.videoHeight, video.clientWidth, video.clientHeight);
+        return (
+          <div
+            key={i}
+            className="absolute border-4 border-amber-400 rounded-lg animate-pulse"
+            style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+          />
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { FrequencyResponsePoint } from '../types';
+
+interface FrequencyResponseChartProps {
+  points: FrequencyResponsePoint[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 140;
+const MIN_HZ = 50;
+const MAX_HZ = 8000;
+const RANGE_DB = 15;
+const GRID_HZ = [100, 250, 500, 1000, 2000, 4000];
+
+const xFor = (hz: number) => (Math.log(hz / MIN_HZ) / Math.log(MAX_HZ / MIN_HZ)) * WIDTH;
+const yFor = (db: number) => HEIGHT / 2 - (Math.max(-RANGE_DB, Math.min(RANGE_DB, db)) / RANGE_DB) * (HEIGHT / 2);
+const labelFor = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : `${hz}`);
+
+export const FrequencyResponseChart: React.FC<FrequencyResponseChartProps> = ({ points }) => {
+  const path = points.map(p => `${xFor(p.frequency).toFixed(1)},${yFor(p.db).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + 14}`} className="w-full">
+      {/* Treble/Bass zones */}
+      <rect x={0} y={0} width={xFor(250)} height={HEIGHT} className="fill-orange-500/10" />
+      <rect x={xFor(2000)} y={0} width={WIDTH - xFor(2000)} height={HEIGHT} className="fill-sky-500/10" />
+
+      {GRID_HZ.map(hz => (
+        <g key={hz}>
+          <line x1={xFor(hz)} x2={xFor(hz)} y1={0} y2={HEIGHT} className="stroke-white/10" />
+          <text x={xFor(hz)} y={HEIGHT + 11} textAnchor="middle" className="fill-white/50 text-[9px]">
+            {labelFor(hz)}
+          </text>
+        </g>
+      ))}
+      {[-10, 0, 10].map(db => (
+        <g key={db}>
+          <line x1={0} x2={WIDTH} y1={yFor(db)} y2={yFor(db)} className={db === 0 ? 'stroke-white/40' : 'stroke-white/10'} />
+          <text x={2} y={yFor(db) - 2} className="fill-white/40 text-[8px]">{db > 0 ? `+${db}` : db} dB</text>
+        </g>
+      ))}
+
+      <polyline points={path} fill="none" className="stroke-emerald-400" strokeWidth={2} strokeLinejoin="round" />
+    </svg>
+  );
+};
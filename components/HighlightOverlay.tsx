@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { CheckIcon } from '@heroicons/react/24/solid';
+import { ControlHighlight } from '../types';
+import { mapBoxToElement } from '../utils/videoGeometry';
+import { Language, uiStrings } from '../utils/i18n';
+
+interface HighlightOverlayProps {
+  highlight: ControlHighlight | null;
+  video: HTMLVideoElement | null;
+  language: Language;
+  onConfirm: () => void;
+}
+
+export const HighlightOverlay: React.FC<HighlightOverlayProps> = ({ highlight, video, language, onConfirm }) => {
+  // Re-render on resize/rotation so the box follows the element size
+  const [, setViewport] = useState(0);
+  useEffect(() => {
+    const onResize = () => setViewport(v => v + 1);
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, []);
+
+  if (!highlight || !video || !video.clientWidth) return null;
+
+  const rect = mapBoxToElement(
+    highlight.box,
+    highlight.frameWidth,
+    highlight.frameHeight,
+    video.clientWidth,
+    video.clientHeight
+  );
+
+  return (
+    <div className="absolute inset-0 z-[5] pointer-events-none">
+      <div
+        className="absolute border-4 border-emerald-400 rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] transition-all duration-200 animate-pulse"
+        style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+      />
+      <div
+        className="absolute flex items-center gap-2 transition-all duration-200"
+        style={{ left: rect.left, top: Math.max(0, rect.top - 40) }}
+      >
+        <span className="bg-emerald-500 text-white text-sm font-bold px-3 py-1 rounded-full" dir="ltr">
+          {highlight.label}
+        </span>
+        <button
+          onClick={onConfirm}
+          className="pointer-events-auto flex items-center gap-1 bg-white text-emerald-700 text-sm font-bold px-3 py-1 rounded-full shadow-lg"
+        >
+          <CheckIcon className="w-4 h-4" />
+          {uiStrings(language).panels.foundIt}
+        </button>
+      </div>
+    </div>
+  );
+};
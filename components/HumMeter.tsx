@@ -0,0 +1,41 @@
+import React from 'react';
+import { BoltIcon } from '@heroicons/react/24/outline';
+import { HumReading } from '../types';
+import { Language, uiStrings } from '../utils/i18n';
+
+interface HumMeterProps {
+  reading: HumReading | null;
+  language: Language;
+}
+
+// Display range of the hum level bar, in dBFS
+const METER_FLOOR_DB = -100;
+const METER_CEIL_DB = -30;
+
+export const HumMeter: React.FC<HumMeterProps> = ({ reading, language }) => {
+  if (!reading) return null;
+  const t = uiStrings(language).analysis;
+
+  const percent = Math.max(0, Math.min(100,
+    ((reading.humLevelDb - METER_FLOOR_DB) / (METER_CEIL_DB - METER_FLOOR_DB)) * 100
+  ));
+  const color = reading.diagnosis === 'none' ? 'bg-emerald-400' : 'bg-red-400';
+
+  return (
+    <div className="bg-black/40 backdrop-blur-md px-3 py-2 rounded-xl border border-white/10 w-44">
+      <div className="flex items-center justify-between text-xs text-white/80 mb-1">
+        <span className="flex items-center gap-1">
+          <BoltIcon className="w-3 h-3" />
+          {t.humLabel(reading.mainsFrequency)}
+        </span>
+        <span dir="ltr">{reading.humLevelDb} dB</span>
+      </div>
+      <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+        <div className={`h-full ${color} transition-all duration-300`} style={{ width: `${percent}%` }} />
+      </div>
+      <p className={`text-[10px] mt-1 ${reading.diagnosis === 'none' ? 'text-white/50' : 'text-red-300'}`}>
+        {t.humDiagnosis[reading.diagnosis]}
+      </p>
+    </div>
+  );
+};
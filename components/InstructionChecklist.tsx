@@ -0,0 +1,59 @@
+import React from 'react';
+import { CheckCircleIcon, XCircleIcon, QuestionMarkCircleIcon } from '@heroicons/react/24/solid';
+import { InstructionStep } from '../types';
+import { Language, uiStrings } from '../utils/i18n';
+
+interface InstructionChecklistProps {
+  steps: InstructionStep[];
+  language?: Language;
+}
+
+// Older answered steps drop off the list
+const MAX_VISIBLE_STEPS = 6;
+
+const StatusIcon: React.FC<{ status: InstructionStep['status']; number: number }> = ({ status, number }) => {
+  switch (status) {
+    case 'done':
+      return <CheckCircleIcon className="w-5 h-5 text-emerald-400 shrink-0" />;
+    case 'not_helped':
+      return <XCircleIcon className="w-5 h-5 text-orange-400 shrink-0" />;
+    case 'not_found':
+      return <QuestionMarkCircleIcon className="w-5 h-5 text-slate-400 shrink-0" />;
+    default:
+      return (
+        <span className={`w-5 h-5 rounded-full text-[11px] font-bold flex items-center justify-center shrink-0 ${
+          status === 'active' ? 'bg-blue-500 text-white' : 'bg-white/10 text-white/60'
+        }`}>
+          {number}
+        </span>
+      );
+  }
+};
+
+/** The instruction cards of this session as a numbered checklist. */
+export const InstructionChecklist: React.FC<InstructionChecklistProps> = ({ steps, language = 'ar' }) => {
+  // A single card needs no list
+  if (steps.length < 2) return null;
+  const t = uiStrings(language).instruction;
+  const first = Math.max(0, steps.length - MAX_VISIBLE_STEPS);
+
+  return (
+    <div className="mt-2 bg-slate-900/90 backdrop-blur-xl border border-white/10 rounded-2xl px-4 py-3 shadow-2xl">
+      <h4 className="text-xs text-slate-400 mb-2">{t.steps}</h4>
+      <ol className="space-y-1.5">
+        {steps.slice(first).map((step, i) => (
+          <li key={step.id} className="flex items-center gap-2 text-sm">
+            <StatusIcon status={step.status} number={first + i + 1} />
+            <span className={`truncate ${
+              step.status === 'active' ? 'text-white font-bold'
+                : step.status === 'pending' ? 'text-slate-300'
+                : 'text-slate-500 line-through'
+            }`}>
+              {step.instruction.message}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -6,25 +6,39 @@ import {
   SpeakerWaveIcon, 
   BoltIcon,
   AdjustmentsHorizontalIcon,
-  CheckCircleIcon
+  CheckCircleIcon,
+  BuildingLibraryIcon
 } from '@heroicons/react/24/outline';
-import { InstructionState } from '../types';
+import { InstructionState, StepOutcome } from '../types';
+import { ControlDiagram } from './ControlDiagram';
+import { Language, uiStrings } from '../utils/i18n';
 
 interface InstructionOverlayProps {
   instruction: InstructionState | null;
+  // Renders in the page flow instead of floating over the video
+  inline?: boolean;
+  // Shows the answer buttons: done, didn't help, can't find it
+  onOutcome?: (outcome: StepOutcome) => void;
+  language?: Language;
+  // Rendered under the card, e.g. the checklist
+  children?: React.ReactNode;
 }
 
-export const InstructionOverlay: React.FC<InstructionOverlayProps> = ({ instruction }) => {
+export const InstructionOverlay: React.FC<InstructionOverlayProps> = ({ instruction, inline = false, onOutcome, language = 'ar', children }) => {
   if (!instruction) return null;
+  const t = uiStrings(language).instruction;
 
   const getIcon = (action: string) => {
     switch (action) {
       case 'reduce_echo':
       case 'reduce_treble':
       case 'reduce_gain':
+      case 'reduce_bass':
         return <ArrowTrendingDownIcon className="w-16 h-16 text-yellow-400" />;
       case 'increase_echo':
       case 'increase_volume':
+      case 'increase_treble':
+      case 'increase_bass':
         return <ArrowTrendingUpIcon className="w-16 h-16 text-green-400" />;
       case 'fix_buzz':
         return <BoltIcon className="w-16 h-16 text-red-400 animate-pulse" />;
@@ -32,6 +46,8 @@ export const InstructionOverlay: React.FC<InstructionOverlayProps> = ({ instruct
         return <SpeakerXMarkIcon className="w-16 h-16 text-red-500" />;
       case 'check_cables':
         return <AdjustmentsHorizontalIcon className="w-16 h-16 text-blue-400" />;
+      case 'room_acoustics':
+        return <BuildingLibraryIcon className="w-16 h-16 text-purple-400" />;
       case 'success':
         return <CheckCircleIcon className="w-16 h-16 text-emerald-500" />;
       default:
@@ -60,7 +76,7 @@ export const InstructionOverlay: React.FC<InstructionOverlayProps> = ({ instruct
   };
 
   return (
-    <div className="absolute top-20 left-1/2 transform -translate-x-1/2 w-[90%] max-w-sm z-50 pointer-events-none">
+    <div className={inline ? 'w-full' : 'absolute top-20 left-1/2 transform -translate-x-1/2 w-[90%] max-w-sm z-50 pointer-events-none'}>
       <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-2xl flex items-center gap-5 relative overflow-hidden animate-slide-down">
         
         {/* Animated Background Glow */}
@@ -74,15 +90,67 @@ export const InstructionOverlay: React.FC<InstructionOverlayProps> = ({ instruct
         
         <div className="flex-1">
           <h3 className="text-white font-bold text-lg leading-tight mb-1">
-            توجيه المهندس
+            {t.title}
           </h3>
+          {(instruction.channel !== undefined || instruction.control) && (
+            <div className="flex gap-2 mb-1 text-xs">
+              {instruction.channel !== undefined && (
+                <span className="bg-blue-500/20 text-blue-200 px-2 py-0.5 rounded-full">{t.channel(instruction.channel)}</span>
+              )}
+              {instruction.control && (
+                <span className="bg-white/10 text-white px-2 py-0.5 rounded-full" dir="ltr">{instruction.control}</span>
+              )}
+            </div>
+          )}
           <p className="text-slate-200 text-lg font-medium leading-relaxed">
             {instruction.message}
           </p>
+          {instruction.target && (
+            <ControlDiagram
+              target={instruction.target}
+              controlType={instruction.controlType}
+              direction={instruction.direction}
+            />
+          )}
+          {instruction.details && instruction.details.length > 0 && (
+            <dl className="mt-3 grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+              {instruction.details.map(detail => (
+                <React.Fragment key={detail.label}>
+                  <dt className="text-slate-400">{detail.label}</dt>
+                  <dd className="text-white font-bold">{detail.value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+          {onOutcome && (
+            <div className="mt-3 flex flex-col gap-2 pointer-events-auto">
+              <button
+                onClick={() => onOutcome('done')}
+                className="w-full bg-emerald-600 hover:bg-emerald-500 text-white py-2 rounded-xl font-bold"
+              >
+                {t.done}
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onOutcome('not_helped')}
+                  className="flex-1 bg-white/10 hover:bg-white/20 text-white py-2 rounded-xl text-sm"
+                >
+                  {t.notHelped}
+                </button>
+                <button
+                  onClick={() => onOutcome('not_found')}
+                  className="flex-1 bg-white/10 hover:bg-white/20 text-white py-2 rounded-xl text-sm"
+                >
+                  {t.notFound}
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
-        {getVisualHint(instruction.action)}
+        {!instruction.target && getVisualHint(instruction.action)}
       </div>
+      {children}
     </div>
   );
 };
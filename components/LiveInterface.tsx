@@ -1,98 +1,282 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from '@google/genai';
-import { ConnectionStatus, InstructionState } from '../types';
-import { createPcmBlob, decodeAudioData, base64ToUint8Array, blobToBase64 } from '../utils/audioUtils';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { FunctionResponseScheduling, LiveServerMessage } from '@google/genai';
+import { ConnectionStatus, InstructionState, AudioSnapshot, SnapshotComparison, MixerReference, ReferenceSetting, InstructionSource, InstructionStep, StepOutcome, FeedbackDetection, HumDiagnosis, HumReading, FrequencyResponse, TestSignalType, SessionEvent, SessionRecord, MixerProfile, ConversationMode, Caption, ControlHighlight, NormalizedBox } from '../types';
+import { createPcmBlob, base64ToUint8Array, blobToBase64, channelsToAudioBuffer, createPcmStreamDecoder, parsePcmMimeType, PcmStreamDecoder } from '../utils/audioUtils';
+import { createFeedbackDetector, FEEDBACK_FFT_SIZE, feedbackToInstruction } from '../utils/feedbackDetector';
+import { createHumAnalyzer, humToInstruction } from '../utils/humAnalyzer';
+import { measureReverb, reverbToInstruction } from '../utils/reverbAnalyzer';
+import { createLogSweep, createPinkNoise } from '../utils/testSignals';
+import { measureFrequencyResponse, responseToInstruction } from '../utils/frequencyResponse';
+import { appendSessionEvent, createSessionRecord, createSessionWriter, recentContextSummary } from '../utils/sessionHistory';
+import { buildInstructionTool, buildSystemInstruction, highlightControlTool } from '../utils/liveConfig';
+import { createLiveConnector, LiveSession, LiveSessionConnector } from '../utils/liveSession';
+import { parseInstructionArgs } from '../utils/instructionArgs';
+import { activeStep, createStep, enqueueStep, isTransientInstruction, OUTCOME_TEXT, resolveStep, stepPosition } from '../utils/instructionQueue';
+import { parseModelBox } from '../utils/videoGeometry';
+import { AudioCapture, createAudioCapture } from '../utils/audioCapture';
+import { createResampler } from '../utils/resampler';
+import { fftSizeForRate } from '../utils/spectrum';
+import { compareSnapshots, comparisonToText, createSampleHistory, isVerifiableAction, measureSnapshot, SampleHistory } from '../utils/audioSnapshot';
+import { Language, languageInfo, uiStrings } from '../utils/i18n';
+import { compareWithReference, DriftComparison, imageToGrayFrame, loadReference, referenceToText, saveReference } from '../utils/mixerReference';
+import { profileControls } from '../utils/mixerProfiles';
+import { conversationModeNote, CONVERSATION_MODES, loadConversationMode, micAllowed, saveConversationMode } from '../utils/conversationMode';
+import { createVoiceGate } from '../utils/voiceGate';
+import { createRecordingQueue, RecordingOptions, RecordingOwner } from '../utils/recordingQueue';
+import { UNPROCESSED_AUDIO } from '../utils/localMeasurements';
+import { createDiagnosticRecorder, DiagnosticRecorder, downloadDiagnosticBundle } from '../utils/diagnosticRecorder';
+import type { DiagnosticReplay, ReplayLogEntry } from '../utils/diagnosticReplay';
+import { appendTranscript, appendTypedMessage, finishCaptions } from '../utils/captions';
+import { createFrameScheduler, FrameScheduler, FrameStats } from '../utils/frameScheduler';
+import { CameraCapabilities, cameraConstraints, clampZoom, currentZoom, FacingMode, openCamera, pinchDistance, readCameraCapabilities, setTorch, setZoom } from '../utils/cameraControls';
+import { createRegionTracker, GrayFrame, RegionTracker, toGrayFrame } from '../utils/regionTracker';
 import { Visualizer } from './Visualizer';
 import { InstructionOverlay } from './InstructionOverlay';
-import { ArrowLeftIcon, VideoCameraIcon, MicrophoneIcon } from '@heroicons/react/24/solid';
-
-// System Instruction optimized for Mosque Audio Engineering with Tool Use
-const SYSTEM_INSTRUCTION = `
-أنت مهندس صوت خبير متخصص في الأنظمة الصوتية للمساجد (Mosque Sound Systems).
-مهمتك هي مساعدة المستخدم في ضبط جهاز الصوت (Mixer/Amplifier) لحل مشاكل الصوت الشائعة.
-
-أنت في مكالمة فيديو وصوت مباشرة.
-لديك أداة تسمى "displayInstruction" (عرض تعليمات).
-**يجب عليك استخدام هذه الأداة فوراً** عندما يطلب المستخدم تعديلاً محدداً أو عندما تشرح له كيفية ضبط مفتاح معين.
-
-قائمة الأوامر الصوتية وكيفية التفاعل معها:
-1. إذا قال "قلل الصدى" (Reduce Echo): استخدم الأداة بـ action="reduce_echo" ورسالة "قلل مفتاح الصدى (Echo/Delay/Rev) لليسار".
-2. إذا قال "زود الصدى" (Increase Echo): استخدم الأداة بـ action="increase_echo" ورسالة "ارفع مفتاح الصدى قليلاً لليمين".
-3. إذا قال "في زنة" (Buzzing): استخدم الأداة بـ action="fix_buzz" ورسالة "تأكد من الأسلاك أو قلل الـ Gain".
-4. إذا قال "الصوت مكتوم" (Muffled): استخدم الأداة بـ action="increase_treble" ورسالة "ارفع مفتاح الـ High/Treble".
-5. إذا قال "الصوت بيصفر" (Feedback): استخدم الأداة بـ action="reduce_treble" ورسالة "قلل مفتاح الـ High فوراً".
-
-أسلوبك:
-1. تحدث باللهجة المصرية أو لغة عربية بيضاء بسيطة.
-2. وجه المستخدم بصرياً باستخدام الأداة، ولفظياً بصوتك.
-3. اطلب رؤية الجهاز لتحديد مكان المفاتيح.
-`;
-
-// Tool Definition for Visual Guidance
-const instructionTool: FunctionDeclaration = {
-  name: "displayInstruction",
-  description: "Displays a visual instruction card on the user's screen to guide them in fixing audio issues.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      action: {
-        type: Type.STRING,
-        description: "The type of action. Enum: ['reduce_echo', 'increase_echo', 'fix_buzz', 'reduce_treble', 'increase_treble', 'reduce_gain', 'increase_volume', 'check_cables', 'success', 'general']"
-      },
-      message: {
-        type: Type.STRING,
-        description: "Short Arabic text instruction to display on the screen."
-      }
-    },
-    required: ["action", "message"]
-  }
-};
+import { InstructionChecklist } from './InstructionChecklist';
+import { HumMeter } from './HumMeter';
+import { ReverbTestPanel, ReverbTestPhase } from './ReverbTestPanel';
+import { ResponseTestPanel, ResponseTestPhase } from './ResponseTestPanel';
+import { HighlightOverlay } from './HighlightOverlay';
+import { ComparisonCard, ComparisonPhase } from './ComparisonCard';
+import { ReferencePanel, ReferencePhase } from './ReferencePanel';
+import { DriftOverlay } from './DriftOverlay';
+import { CaptionPanel } from './CaptionPanel';
+import { ReplayLog } from './ReplayLog';
+import { ArrowLeftIcon, VideoCameraIcon, VideoCameraSlashIcon, MicrophoneIcon, ArrowPathIcon, BoltIcon, BoltSlashIcon } from '@heroicons/react/24/solid';
+
+// The Live API takes 16 kHz PCM whatever rate the device records at
+const MODEL_INPUT_RATE = 16000;
+// Microphone chunk length sent to the model
+const CAPTURE_CHUNK_MS = 40;
+// Local analysis settings (FFT sizes are for 16 kHz and scaled to the device rate)
+// Feedback above this is left to the ring-out wizard
+const FEEDBACK_MAX_FREQUENCY = 8000;
+const ANALYSIS_INTERVAL_MS = 100;
+// Minimum gap between two feedback alerts so the card is not spammed
+const FEEDBACK_ALERT_COOLDOWN_MS = 6000;
+// Hum needs finer frequency resolution to separate 50 Hz from 60 Hz
+const HUM_FFT_SIZE = 8192;
+// Hum is evaluated every N analysis ticks
+const HUM_ANALYSIS_EVERY = 5;
+const HUM_ALERT_COOLDOWN_MS = 30000;
+// Clap/burst test: long enough for the decay of a very live hall
+const REVERB_RECORD_MS = 4000;
+const TEST_BURST_MS = 30;
+// Frequency response test: signal length, plus lead-in and room tail
+const RESPONSE_SIGNAL_SECONDS = 3;
+const RESPONSE_LEAD_IN_MS = 300;
+const RESPONSE_RECORD_MS = 3800;
+// Highlight tracking runs on a small grayscale copy of the video
+const TRACKING_WIDTH = 160;
+// The frame scheduler looks at the camera this often; it sends far less
+const FRAME_CHECK_MS = 250;
+const FRAME_STATS_REFRESH_MS = 1000;
+// Reference photos are kept sharp enough to read knob markings
+const REFERENCE_WIDTH = 960;
+const REFERENCE_QUALITY = 0.85;
+const TRACKING_INTERVAL_MS = 200;
+// Reconnect backoff: 1 s, 2 s, 4 s... capped, with a limited number of tries
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// Told to the model when the user turns the camera or microphone off
+const VIDEO_PAUSED_NOTE = 'The user paused the camera. You will not receive new images until it is turned back on, so do not describe the picture meanwhile.';
+const MIC_MUTED_NOTE = 'The user muted the microphone. You will not hear them, and local audio analysis is paused, until they unmute.';
+// Before/after check of an adjustment: snapshot length, and the least audio worth measuring
+const SNAPSHOT_MS = 3000;
+const SNAPSHOT_MIN_MS = 1000;
+// Half-duplex keeps the microphone closed this long after the engineer's voice ends, for the hall's reverb
+const HALF_DUPLEX_TAIL_MS = 400;
+// Events recapped to the model when the old session cannot be resumed
+const RESUME_CONTEXT_EVENTS = 12;
 
 interface LiveInterfaceProps {
+  profile: MixerProfile | null;
+  language: Language;
   onDisconnect: () => void;
+  onOfflineMode: () => void;
+  // Plays a diagnostic recording instead of using the camera, microphone and network
+  replay?: DiagnosticReplay | null;
 }
 
-export const LiveInterface: React.FC<LiveInterfaceProps> = ({ onDisconnect }) => {
+export const LiveInterface: React.FC<LiveInterfaceProps> = ({ profile, language, onDisconnect, onOfflineMode, replay = null }) => {
+  const t = uiStrings(language).live;
   const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.CONNECTING);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [isAiSpeaking, setIsAiSpeaking] = useState(false);
-  const [currentInstruction, setCurrentInstruction] = useState<InstructionState | null>(null);
+  const [steps, setSteps] = useState<InstructionStep[]>([]);
+  // Informational cards shown for a few seconds over the checklist
+  const [notice, setNotice] = useState<InstructionState | null>(null);
+  const [humReading, setHumReading] = useState<HumReading | null>(null);
+  const [reverbTestPhase, setReverbTestPhase] = useState<ReverbTestPhase>('idle');
+  const [responseTestPhase, setResponseTestPhase] = useState<ResponseTestPhase>('idle');
+  const [frequencyResponse, setFrequencyResponse] = useState<FrequencyResponse | null>(null);
+  const [highlight, setHighlight] = useState<ControlHighlight | null>(null);
+  const [meterAnalysers, setMeterAnalysers] = useState<{ input: AnalyserNode; output: AnalyserNode } | null>(null);
+  const [showSpectrum, setShowSpectrum] = useState(false);
+  const [comparisonPhase, setComparisonPhase] = useState<ComparisonPhase>('idle');
+  const [comparison, setComparison] = useState<SnapshotComparison | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [cameraCapabilities, setCameraCapabilities] = useState<CameraCapabilities>({ torch: false, zoom: null });
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoomLevel] = useState<number | null>(null);
+  const [videoPaused, setVideoPaused] = useState(false);
+  const [micMuted, setMicMuted] = useState(false);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const [reference, setReference] = useState<MixerReference | null>(null);
+  const [referencePhase, setReferencePhase] = useState<ReferencePhase>('idle');
+  const [referenceDraft, setReferenceDraft] = useState<{ image: string; width: number; height: number } | null>(null);
+  const [drift, setDrift] = useState<DriftComparison | null>(null);
+  // Kept stable so the reference form only resets when the mixer changes
+  const referenceControls = useMemo(() => (profile ? profileControls(profile) : []), [profile]);
+  const [conversationMode, setConversationMode] = useState<ConversationMode>(loadConversationMode);
+  const [talkHeld, setTalkHeld] = useState(false);
+  // Whether microphone audio is reaching the model right now
+  const [micStreaming, setMicStreaming] = useState(false);
+  // Everything said or typed in this call, for reading along and reviewing later
+  const [captions, setCaptions] = useState<Caption[]>([]);
+  // What the app sent while replaying a diagnostic recording
+  const [replayLog, setReplayLog] = useState<ReplayLogEntry[]>([]);
+  const [diagnosticsRecording, setDiagnosticsRecording] = useState(false);
   const instructionTimeoutRef = useRef<number | null>(null);
   
   // Refs for WebRTC/Audio/Video management
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Unprocessed microphone for local analysis; the processed one goes to the model
+  const analysisStreamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputContextRef = useRef<AudioContext | null>(null);
-  const sessionRef = useRef<any>(null); // To hold the active session
+  const sessionRef = useRef<LiveSession | null>(null); // To hold the active session
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const frameIntervalRef = useRef<number | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const analysisCaptureRef = useRef<AudioCapture | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Model audio can split a sample across messages
+  const playbackDecoderRef = useRef<{ numChannels: number; decoder: PcmStreamDecoder } | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const analysisIntervalRef = useRef<number | null>(null);
+  const lastFeedbackAlertRef = useRef<number>(0);
+  const humAnalyserRef = useRef<AnalyserNode | null>(null);
+  const lastHumAlertRef = useRef<{ diagnosis: HumDiagnosis; at: number }>({ diagnosis: 'none', at: 0 });
+  // Test signals would otherwise trigger the feedback and hum alerts
+  const suppressAlertsRef = useRef<boolean>(false);
+  const recordingsRef = useRef(createRecordingQueue());
+  const sessionLogRef = useRef<SessionRecord | null>(null);
+  const sessionWriterRef = useRef(createSessionWriter());
+  const trackingCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // The last frame sent to the model, which highlight boxes refer to
+  const lastSentFrameRef = useRef<{ gray: GrayFrame; width: number; height: number } | null>(null);
+  const trackerRef = useRef<RegionTracker | null>(null);
+  const trackingIntervalRef = useRef<number | null>(null);
+  const connectorRef = useRef<LiveSessionConnector | null>(null);
+  // Set after the first successful connection; drops after that are retried
+  const hasConnectedRef = useRef<boolean>(false);
+  const reconnectAttemptsRef = useRef<number>(0);
+  const reconnectTimeoutRef = useRef<number | null>(null);
+  const resumptionHandleRef = useRef<string | null>(null);
+  // Bumped by stopSession, so a start still waiting on the microphone knows it was stopped
+  const sessionRunRef = useRef<number>(0);
+  // Bumped when a check starts or its card is closed; only the shown check updates the card
+  const comparisonRunRef = useRef<number>(0);
+  // Recent microphone audio while nothing was playing, and the "before" snapshot of the adjustment on screen
+  const sampleHistoryRef = useRef<SampleHistory | null>(null);
+  const pendingCheckRef = useRef<{ stepId: string; action: string; before: AudioSnapshot } | null>(null);
+  // The checklist, read by callbacks, and the model call each step answers
+  const stepsRef = useRef<InstructionStep[]>([]);
+  const stepCallsRef = useRef<Map<string, { id?: string; name?: string; session: LiveSession }>>(new Map());
+  // Read from the frame and audio callbacks, which outlive renders
+  const videoPausedRef = useRef<boolean>(false);
+  const micMutedRef = useRef<boolean>(false);
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null);
+  const diagnosticsRef = useRef<DiagnosticRecorder | null>(null);
+  const conversationModeRef = useRef<ConversationMode>(conversationMode);
+  const talkHeldRef = useRef<boolean>(false);
+
+  // Adds an event to the persistent history of this session
+  const logSessionEvent = useCallback((event: SessionEvent) => {
+    if (!sessionLogRef.current) return;
+    sessionLogRef.current = appendSessionEvent(sessionLogRef.current, event);
+    sessionWriterRef.current.save(sessionLogRef.current);
+  }, []);
 
   // Cleanup function
   const stopSession = useCallback(() => {
+    sessionRunRef.current++;
+
     // Stop video stream
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
     }
+    analysisStreamRef.current?.getTracks().forEach(track => track.stop());
+    analysisStreamRef.current = null;
     
     // Stop frame capturing
     if (frameIntervalRef.current) {
       clearInterval(frameIntervalRef.current);
     }
 
+    // Stop local audio analysis
+    if (analysisIntervalRef.current) {
+      clearInterval(analysisIntervalRef.current);
+    }
+
+    // Stop highlight tracking
+    if (trackingIntervalRef.current) {
+      clearInterval(trackingIntervalRef.current);
+    }
+    trackerRef.current = null;
+
     if (instructionTimeoutRef.current) {
       clearTimeout(instructionTimeoutRef.current);
     }
 
-    // Close Audio Contexts
-    if (audioContextRef.current) audioContextRef.current.close();
-    if (inputContextRef.current) inputContextRef.current.close();
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+    }
+    // The next start is a new session, not a reconnect of this one
+    hasConnectedRef.current = false;
+    reconnectAttemptsRef.current = 0;
+    resumptionHandleRef.current = null;
+
+    // Stop microphone capture
+    captureRef.current?.close();
+    captureRef.current = null;
+    analysisCaptureRef.current?.close();
+    analysisCaptureRef.current = null;
+
+    // Close Audio Contexts (once: stopping again after an error must not close them twice)
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    inputContextRef.current?.close();
+    inputContextRef.current = null;
 
-    // Close session if supported
+    // Close the live session
+    sessionRef.current?.close();
     sessionRef.current = null;
+    sessionPromiseRef.current = null;
+    recordingsRef.current.cancel();
+    sampleHistoryRef.current = null;
+    pendingCheckRef.current = null;
+    stepCallsRef.current.clear();
+
+    // A recording in progress is not thrown away with the call
+    const diagnostics = diagnosticsRef.current?.stop();
+    if (diagnostics) downloadDiagnosticBundle(diagnostics);
+    diagnosticsRef.current = null;
+
+    // Finalise the history record (sessions where nothing happened are not kept)
+    if (sessionLogRef.current) {
+      const record = { ...sessionLogRef.current, endedAt: Date.now() };
+      if (record.events.length > 0) sessionWriterRef.current.save(record);
+      sessionWriterRef.current.flush();
+      sessionLogRef.current = null;
+    }
     
     // Stop any playing audio sources
     sourcesRef.current.forEach(source => {
@@ -103,62 +287,112 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ onDisconnect }) =>
     setStatus(ConnectionStatus.DISCONNECTED);
   }, []);
 
-  const handleInstruction = (instruction: InstructionState) => {
-    setCurrentInstruction(instruction);
-    
-    // Clear previous timeout
+  // Shows the error screen with the microphone, camera and analysis stopped
+  const failSession = (message: string) => {
+    stopSession();
+    setErrorMessage(message);
+    setStatus(ConnectionStatus.ERROR);
+  };
+
+  const updateSteps = (update: (steps: InstructionStep[]) => InstructionStep[]) => {
+    stepsRef.current = update(stepsRef.current);
+    setSteps(stepsRef.current);
+  };
+
+  const showNotice = (instruction: InstructionState) => {
+    setNotice(instruction);
     if (instructionTimeoutRef.current) {
       clearTimeout(instructionTimeoutRef.current);
     }
-
-    // Auto hide instruction after 8 seconds
+    // Auto hide after 8 seconds
     instructionTimeoutRef.current = window.setTimeout(() => {
-      setCurrentInstruction(null);
+      setNotice(null);
     }, 8000);
   };
 
+  // Shows a card; returns the checklist step when the card waits for the user's answer
+  const handleInstruction = (instruction: InstructionState, source: InstructionSource = 'local'): InstructionStep | null => {
+    clearHighlight();
+    logSessionEvent({
+      type: 'instruction',
+      at: Date.now(),
+      action: instruction.action,
+      message: instruction.message,
+      source
+    });
+
+    if (isTransientInstruction(instruction)) {
+      showNotice(instruction);
+      return null;
+    }
+    const step = createStep(instruction, source);
+    updateSteps(current => enqueueStep(current, step));
+    return step;
+  };
+
+  // Takes the "before" snapshot when an adjustment we can measure comes on screen
+  const currentStep = activeStep(steps);
+  useEffect(() => {
+    pendingCheckRef.current = null;
+    const step = activeStep(stepsRef.current);
+    const history = sampleHistoryRef.current;
+    const sampleRate = inputContextRef.current?.sampleRate ?? MODEL_INPUT_RATE;
+    if (!step || !isVerifiableAction(step.instruction.action) || !history) return;
+    const recent = history.latest(Math.round((sampleRate * SNAPSHOT_MS) / 1000));
+    if (recent.length >= (sampleRate * SNAPSHOT_MIN_MS) / 1000) {
+      pendingCheckRef.current = { stepId: step.id, action: step.instruction.action, before: measureSnapshot(recent, sampleRate) };
+    }
+  }, [currentStep?.id]);
+
   // Initialize Gemini Live Connection
   const connectToGemini = async () => {
+    const run = sessionRunRef.current;
+    const stopped = () => run !== sessionRunRef.current;
+    // What this start has opened so far, released if it was stopped while waiting
+    const opened: { streams: MediaStream[]; context?: AudioContext; captures: AudioCapture[] } = { streams: [], captures: [] };
+    const release = () => {
+      opened.captures.forEach(capture => capture.close());
+      // stopSession may have closed it already, which makes this close fail harmlessly
+      opened.context?.close().catch(() => {});
+      opened.streams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    };
+
     try {
       setStatus(ConnectionStatus.CONNECTING);
       setErrorMessage('');
-      
-      // Robust API Key Retrieval:
-      // 1. Try process.env.API_KEY (Node/Standard)
-      // 2. Try window.process.env.API_KEY (Polyfill from index.tsx)
-      // 3. Try import.meta.env.VITE_API_KEY (Vite Direct)
-      let apiKey = process.env.API_KEY;
-      if (!apiKey) {
-        // @ts-ignore
-        apiKey = typeof window !== 'undefined' && window.process?.env?.API_KEY;
-      }
-      if (!apiKey) {
-        // @ts-ignore
-        apiKey = import.meta?.env?.VITE_API_KEY;
-      }
-      
-      if (!apiKey) {
-        throw new Error("MISSING_API_KEY");
-      }
+      // Replays are not the user's sessions, so they stay out of the history
+      sessionLogRef.current = replay ? null : createSessionRecord();
 
-      const ai = new GoogleGenAI({ apiKey });
+      // Gemini by default, or the local mock server (VITE_LIVE_BACKEND=mock); a replay needs neither
+      const recorder = createDiagnosticRecorder({ language, profileId: profile?.id ?? null });
+      diagnosticsRef.current = recorder;
+      const connect = replay ? replay.connector : recorder.wrap(createLiveConnector());
 
       // Setup Audio Input (Microphone)
-      const stream = await navigator.mediaDevices.getUserMedia({ 
+      const stream = replay ? replay.openStream() : await navigator.mediaDevices.getUserMedia({ 
         audio: {
-          sampleRate: 16000,
           channelCount: 1,
           echoCancellation: true,
           noiseSuppression: true
         }, 
-        video: {
-          facingMode: 'environment', // Use back camera by default
-          width: { ideal: 640 },
-          height: { ideal: 480 }
-        } 
+        video: cameraConstraints('environment') // Use back camera by default
       });
-      
+      opened.streams.push(stream);
+      if (stopped()) return release();
+
       streamRef.current = stream;
+      updateCameraCapabilities(stream.getVideoTracks()[0]);
+
+      // Echo cancellation, noise suppression and AGC suit the voice sent to the model,
+      // but strip the hum, ringing and test signals the local analysers measure
+      const analysisStream = replay ? null : await navigator.mediaDevices.getUserMedia({ audio: UNPROCESSED_AUDIO })
+        .catch(e => {
+          console.warn('No unprocessed microphone; analysing the processed one', e);
+          return null;
+        });
+      if (analysisStream) opened.streams.push(analysisStream);
+      if (stopped()) return release();
+      analysisStreamRef.current = analysisStream;
       
       // Setup Video Preview
       if (videoRef.current) {
@@ -166,193 +400,951 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ onDisconnect }) =>
         videoRef.current.play();
       }
 
-      // Setup Audio Input Processing
-      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const source = inputContextRef.current.createMediaStreamSource(stream);
-      const processor = inputContextRef.current.createScriptProcessor(4096, 1, 1);
-      scriptProcessorRef.current = processor;
-      
-      source.connect(processor);
-      processor.connect(inputContextRef.current.destination);
+      // Setup Audio Input Processing at the device's own rate
+      const inputContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      opened.context = inputContext;
+      inputContextRef.current = inputContext;
+      const source = inputContext.createMediaStreamSource(stream);
+      const analysisSource = analysisStream ? inputContext.createMediaStreamSource(analysisStream) : source;
+      const resampler = createResampler({ inputRate: inputContext.sampleRate, outputRate: MODEL_INPUT_RATE });
+      const sampleHistory = createSampleHistory(Math.round((inputContext.sampleRate * SNAPSHOT_MS) / 1000));
+      sampleHistoryRef.current = sampleHistory;
+      const voiceGate = createVoiceGate({ sampleRate: inputContext.sampleRate });
+
+      // START AUDIO STREAMING (only while a session is open, and only what the mode and voice gate let through)
+      const capture = await createAudioCapture(inputContext, {
+        chunkMs: CAPTURE_CHUNK_MS,
+        onChunk: samples => {
+          const session = sessionRef.current;
+          // A test signal is deliberate sound, so it passes in every mode; a
+          // before/after snapshot is only measured locally and gets no such pass
+          const owner = recordingsRef.current.activeOwner();
+          const testing = owner === 'reverb' || owner === 'response';
+          const mode = conversationModeRef.current;
+          const allowed = testing || micAllowed(mode, talkHeldRef.current, isPlaybackActive());
+          const wasOpen = voiceGate.isOpen();
+          if (!allowed) voiceGate.close();
+          const chunks = allowed ? voiceGate.process(samples, testing || mode === 'push_to_talk') : [];
+
+          if (session && !micMutedRef.current) {
+            for (const chunk of chunks) {
+              const pcm = createPcmBlob(resampler.process(chunk), MODEL_INPUT_RATE);
+              session.sendAudio(pcm);
+              frameSchedulerRef.current?.recordUpload(pcm.data?.length ?? 0);
+            }
+            // Lets the model answer without waiting for silence that is never sent
+            if (wasOpen && !voiceGate.isOpen()) session.endAudioStream();
+          }
+          if (wasOpen !== voiceGate.isOpen()) {
+            if (!voiceGate.isOpen()) resampler.reset();
+            setMicStreaming(voiceGate.isOpen());
+          }
+        }
+      });
+      opened.captures.push(capture);
+      if (stopped()) return release();
+      captureRef.current = capture;
+      source.connect(capture.input);
+
+      // Tests and before/after snapshots record the unprocessed microphone
+      const analysisCapture = await createAudioCapture(inputContext, {
+        chunkMs: CAPTURE_CHUNK_MS,
+        onChunk: samples => {
+          const playback = isPlaybackActive();
+          recordingsRef.current.push(samples, playback);
+          // The "before" snapshot is of the room, not of the engineer's voice or a test signal
+          if (!playback && !suppressAlertsRef.current) sampleHistory.push(samples);
+        }
+      });
+      opened.captures.push(analysisCapture);
+      if (stopped()) return release();
+      analysisCaptureRef.current = analysisCapture;
+      analysisSource.connect(analysisCapture.input);
+
+      // Local spectral analysis listens to the unprocessed microphone
+      const analyser = inputContext.createAnalyser();
+      analyser.fftSize = fftSizeForRate(inputContext.sampleRate, FEEDBACK_FFT_SIZE);
+      analyser.smoothingTimeConstant = 0.3;
+      analysisSource.connect(analyser);
+      analyserRef.current = analyser;
+
+      const humAnalyser = inputContext.createAnalyser();
+      humAnalyser.fftSize = fftSizeForRate(inputContext.sampleRate, HUM_FFT_SIZE);
+      humAnalyser.smoothingTimeConstant = 0.8;
+      analysisSource.connect(humAnalyser);
+      humAnalyserRef.current = humAnalyser;
 
       // Setup Audio Output
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      // Connect to Gemini
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: SYSTEM_INSTRUCTION,
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } 
-          },
-          tools: [{ functionDeclarations: [instructionTool] }]
+      // Model voice passes through this on its way to the speakers, for the output meter
+      const outputAnalyser = audioContextRef.current.createAnalyser();
+      outputAnalyser.fftSize = 2048;
+      outputAnalyser.connect(audioContextRef.current.destination);
+      outputAnalyserRef.current = outputAnalyser;
+      setMeterAnalysers({ input: analyser, output: outputAnalyser });
+
+      connectorRef.current = connect;
+      openLiveSession();
+
+    } catch (error: any) {
+      if (stopped()) return release();
+      console.error("Setup Error:", error);
+      logSessionEvent({ type: 'error', at: Date.now(), message: error.message || String(error) });
+      failSession(t.mediaUnavailable);
+    }
+  };
+
+  // Opens the live session, or a new one after the connection dropped.
+  // Microphone, camera and local analysis keep running in between.
+  const openLiveSession = () => {
+    const connect = connectorRef.current;
+    if (!connect) return;
+    const isReconnect = hasConnectedRef.current;
+    const resumptionHandle = resumptionHandleRef.current ?? undefined;
+    let opened = false;
+
+    const sessionPromise = connect(
+      {
+        systemInstruction: `${buildSystemInstruction(profile, language)}\n${conversationModeNote(conversationModeRef.current)}\n`,
+        tools: [buildInstructionTool(profile, language), highlightControlTool],
+        voiceName: languageInfo(language).voice,
+        resumptionHandle
+      },
+      {
+        onOpen: () => {
+          console.log(isReconnect ? "Live session reconnected" : "Live session opened");
+          opened = true;
+          reconnectAttemptsRef.current = 0;
+          setStatus(ConnectionStatus.CONNECTED);
+
+          if (!isReconnect) {
+            hasConnectedRef.current = true;
+
+            // START VIDEO STREAMING
+            startVideoStreaming();
+
+            // START LOCAL AUDIO ANALYSIS
+            startAudioAnalysis();
+          }
         },
-        callbacks: {
-          onopen: () => {
-            console.log("Gemini Connection Opened");
-            setStatus(ConnectionStatus.CONNECTED);
+        onMessage: (message: LiveServerMessage) => {
+          // Keep the latest resumable state for a reconnect
+          const resumption = message.sessionResumptionUpdate;
+          if (resumption?.resumable && resumption.newHandle) {
+            resumptionHandleRef.current = resumption.newHandle;
+          }
+
+          // Handle Tool Calls (Instructions)
+          if (message.toolCall) {
+            console.log("Tool call received:", message.toolCall);
+            const functionCalls = message.toolCall.functionCalls;
             
-            // START AUDIO STREAMING
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              
-              sessionPromise.then(session => {
-                sessionRef.current = session;
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
+            // Instructions first, so a highlight sent in the same batch is not cleared by them
+            const orderedCalls = [...(functionCalls ?? [])].sort((a, b) =>
+              Number(b.name === 'displayInstruction') - Number(a.name === 'displayInstruction')
+            );
 
-            // START VIDEO STREAMING
-            startVideoStreaming(sessionPromise);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle Tool Calls (Instructions)
-            if (message.toolCall) {
-              console.log("Tool call received:", message.toolCall);
-              const functionCalls = message.toolCall.functionCalls;
-              
-              if (functionCalls && functionCalls.length > 0) {
-                const call = functionCalls[0];
-                if (call.name === 'displayInstruction') {
-                  const args = call.args as any;
-                  handleInstruction({
-                    action: args.action,
-                    message: args.message
-                  });
-
-                  // Send confirmation back to model
-                  sessionPromise.then(session => {
-                    session.sendToolResponse({
-                      functionResponses: [{
-                        id: call.id,
-                        name: call.name,
-                        response: { result: "Instruction displayed to user" }
-                      }]
-                    });
-                  });
+            for (const call of orderedCalls) {
+              if (call.name === 'displayInstruction') {
+                const { instruction, warnings } = parseInstructionArgs(call.args ?? {}, profile);
+                if (warnings.length > 0) {
+                  console.warn("displayInstruction warnings:", warnings);
                 }
-              }
-            }
+                const step = handleInstruction(instruction, 'ai');
 
-            // Handle Audio Output
-            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData) {
-              setIsAiSpeaking(true);
-              if (audioContextRef.current) {
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContextRef.current.currentTime);
-                
-                const audioBuffer = await decodeAudioData(
-                  base64ToUint8Array(audioData),
-                  audioContextRef.current
-                );
-                
-                const source = audioContextRef.current.createBufferSource();
-                source.buffer = audioBuffer;
-                const gainNode = audioContextRef.current.createGain();
-                gainNode.gain.value = 1.0; 
-
-                source.connect(gainNode);
-                gainNode.connect(audioContextRef.current.destination);
-                
-                source.addEventListener('ended', () => {
-                   sourcesRef.current.delete(source);
-                   if (sourcesRef.current.size === 0) setIsAiSpeaking(false);
+                // Steps are answered for real once the user taps a button on the card
+                sessionPromise.then(session => {
+                  if (step) stepCallsRef.current.set(step.id, { id: call.id, name: call.name, session });
+                  session.sendToolResponse([{
+                    id: call.id,
+                    name: call.name,
+                    response: {
+                      result: step
+                        ? `Instruction queued as step ${stepPosition(stepsRef.current, step.id)} of the user's checklist; the user's answer will follow`
+                        : "Instruction displayed to user",
+                      ...(warnings.length > 0 ? { warnings } : {})
+                    },
+                    ...(step ? { willContinue: true, scheduling: FunctionResponseScheduling.SILENT } : {})
+                  }]);
                 });
+              } else if (call.name === 'highlightControl') {
+                const args = call.args ?? {};
+                const box = parseModelBox(args);
+                if (box) {
+                  showHighlight(box, typeof args.label === 'string' ? args.label : '');
+                }
 
-                source.start(nextStartTimeRef.current);
-                sourcesRef.current.add(source);
-                
-                nextStartTimeRef.current += audioBuffer.duration;
+                sessionPromise.then(session => {
+                  session.sendToolResponse([{
+                    id: call.id,
+                    name: call.name,
+                    response: box
+                      ? { result: "Highlight shown on the user's screen" }
+                      : { error: "Invalid box: ymin, xmin, ymax, xmax must be numbers in 0-1000 describing a non-empty area" }
+                  }]);
+                });
               }
             }
+          }
 
-            if (message.serverContent?.interrupted) {
-              console.log("Interrupted by user");
-              sourcesRef.current.forEach(s => s.stop());
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsAiSpeaking(false);
-              // Optionally clear instruction on interruption if desired
-              // setCurrentInstruction(null);
+          // Keep transcriptions for the captions and the session history
+          const inputText = message.serverContent?.inputTranscription?.text;
+          if (inputText) {
+            logSessionEvent({ type: 'transcript', at: Date.now(), speaker: 'user', text: inputText });
+            setCaptions(prev => appendTranscript(prev, 'user', inputText, Date.now()));
+          }
+          const outputText = message.serverContent?.outputTranscription?.text;
+          if (outputText) {
+            logSessionEvent({ type: 'transcript', at: Date.now(), speaker: 'ai', text: outputText });
+            setCaptions(prev => appendTranscript(prev, 'ai', outputText, Date.now()));
+          }
+          if (message.serverContent?.turnComplete || message.serverContent?.interrupted) {
+            setCaptions(finishCaptions);
+          }
+
+          // Handle Audio Output
+          const inlineData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData;
+          const audioData = inlineData?.data;
+          if (audioData) {
+            setIsAiSpeaking(true);
+            const { sampleRate, numChannels } = parsePcmMimeType(inlineData?.mimeType);
+            if (playbackDecoderRef.current?.numChannels !== numChannels) {
+              playbackDecoderRef.current = { numChannels, decoder: createPcmStreamDecoder(numChannels) };
+            }
+            const channels = playbackDecoderRef.current.decoder.decode(base64ToUint8Array(audioData));
+
+            if (audioContextRef.current && channels[0].length > 0) {
+              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContextRef.current.currentTime);
+              
+              const audioBuffer = channelsToAudioBuffer(channels, audioContextRef.current, sampleRate);
+              
+              const source = audioContextRef.current.createBufferSource();
+              source.buffer = audioBuffer;
+              const gainNode = audioContextRef.current.createGain();
+              gainNode.gain.value = 1.0; 
+
+              source.connect(gainNode);
+              gainNode.connect(outputAnalyserRef.current ?? audioContextRef.current.destination);
+              
+              source.addEventListener('ended', () => {
+                 sourcesRef.current.delete(source);
+                 if (sourcesRef.current.size === 0) setIsAiSpeaking(false);
+              });
+
+              source.start(nextStartTimeRef.current);
+              sourcesRef.current.add(source);
+              
+              nextStartTimeRef.current += audioBuffer.duration;
             }
-          },
-          onclose: () => {
-            console.log("Connection Closed");
-            stopSession();
-          },
-          onerror: (e) => {
-            console.error("Gemini Error", e);
-            setErrorMessage("حدث خطأ في الاتصال. حاول مرة أخرى.");
-            setStatus(ConnectionStatus.ERROR);
           }
+
+          if (message.serverContent?.interrupted) {
+            console.log("Interrupted by user");
+            sourcesRef.current.forEach(s => s.stop());
+            sourcesRef.current.clear();
+            playbackDecoderRef.current?.decoder.reset();
+            nextStartTimeRef.current = 0;
+            setIsAiSpeaking(false);
+            // Optionally clear instruction on interruption if desired
+            // setCurrentInstruction(null);
+          }
+        },
+        onClose: (reason) => {
+          console.log("Connection Closed", reason);
+          // Ignore the close event of a session we already stopped
+          if (sessionPromiseRef.current === sessionPromise) handleConnectionLost(reason || 'Connection closed', opened);
+        },
+        onError: (e) => {
+          console.error("Live session error", e);
+          if (sessionPromiseRef.current === sessionPromise) handleConnectionLost(e.message, opened);
         }
-      });
+      }
+    );
+    sessionPromiseRef.current = sessionPromise;
 
-    } catch (error: any) {
-      console.error("Setup Error:", error);
-      if (error.message === "MISSING_API_KEY") {
-        setErrorMessage("مفتاح API غير موجود. يرجى إضافة VITE_API_KEY في إعدادات Netlify.");
-      } else {
-        setErrorMessage("تعذر الوصول إلى الكاميرا أو الميكروفون.");
+    sessionPromise.then(session => {
+      if (sessionPromiseRef.current !== sessionPromise) {
+        session.close();
+        return;
+      }
+      sessionRef.current = session;
+
+      // Without a resumption handle the new session starts blank, so recap the conversation
+      if (isReconnect && !resumptionHandle && sessionLogRef.current) {
+        const recap = recentContextSummary(sessionLogRef.current, RESUME_CONTEXT_EVENTS);
+        sendContextMessage('SESSION_RESUMED', `The connection dropped and was restored. Recent conversation:\n${recap}`);
       }
-      setStatus(ConnectionStatus.ERROR);
+      // A fresh session does not know the camera or microphone is off
+      if (isReconnect && !resumptionHandle) {
+        if (videoPausedRef.current) sendContextMessage('USER_ACTION', VIDEO_PAUSED_NOTE);
+        if (micMutedRef.current) sendContextMessage('USER_ACTION', MIC_MUTED_NOTE);
+      }
+    }, (error: Error) => {
+      console.error("Live session error", error);
+      if (sessionPromiseRef.current === sessionPromise) handleConnectionLost(error.message, false);
+    });
+  };
+
+  // Retries with backoff once the session has worked; gives up to the error screen otherwise
+  const handleConnectionLost = (reason: string, opened: boolean) => {
+    logSessionEvent({ type: 'error', at: Date.now(), message: reason });
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    sessionPromiseRef.current = null;
+    playbackDecoderRef.current?.decoder.reset();
+    // A handle that could not be resumed will not work next time either
+    if (!opened) resumptionHandleRef.current = null;
+    // Keep the card the volunteer is working on until the engineer is back
+    if (instructionTimeoutRef.current) {
+      clearTimeout(instructionTimeoutRef.current);
+      instructionTimeoutRef.current = null;
     }
+
+    // Retrying will not help when the token server refuses this phone
+    const refused = reason === 'TOKEN_RATE_LIMITED' || reason === 'TOKEN_REJECTED';
+    if (!hasConnectedRef.current || refused || reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      failSession(
+        reason === 'TOKEN_RATE_LIMITED' ? t.rateLimited
+          : reason === 'TOKEN_REJECTED' ? t.accessDenied
+          : reason === 'TOKEN_SERVER_UNREACHABLE' ? t.tokenServerError
+          : t.connectionError
+      );
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current, RECONNECT_MAX_DELAY_MS);
+    reconnectAttemptsRef.current++;
+    setStatus(ConnectionStatus.RECONNECTING);
+    reconnectTimeoutRef.current = window.setTimeout(openLiveSession, delay);
   };
 
-  const startVideoStreaming = (sessionPromise: Promise<any>) => {
-    // Send frames at 1.5 FPS
-    const FPS = 1.5; 
-    
+  // Checks the camera a few times a second; the scheduler decides what is worth sending
+  const startVideoStreaming = () => {
+    const scheduler = createFrameScheduler();
+    frameSchedulerRef.current = scheduler;
+    let lastStatsAt = 0;
+
     frameIntervalRef.current = window.setInterval(() => {
-      if (!canvasRef.current || !videoRef.current) return;
-      
-      const ctx = canvasRef.current.getContext('2d');
-      if (!ctx) return;
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const session = sessionRef.current;
+      if (!canvas || !video || !session || videoPausedRef.current) return;
+
+      const now = performance.now();
+      const backlog = session.bufferedBytes();
+      if (backlog !== undefined) scheduler.updateBacklog(backlog, now);
+
+      if (now - lastStatsAt >= FRAME_STATS_REFRESH_MS) {
+        lastStatsAt = now;
+        setFrameStats(scheduler.stats(now));
+      }
 
-      canvasRef.current.width = videoRef.current.videoWidth / 2;
-      canvasRef.current.height = videoRef.current.videoHeight / 2;
-      ctx.drawImage(videoRef.current, 0, 0, canvasRef.current.width, canvasRef.current.height);
+      const gray = grabGrayFrame(video);
+      if (!gray) return;
+      const decision = scheduler.decide(gray, now);
+      if (!decision.send) return;
 
-      canvasRef.current.toBlob(async (blob) => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      lastSentFrameRef.current = {
+        gray,
+        width: video.videoWidth,
+        height: video.videoHeight
+      };
+      canvas.width = Math.min(decision.width, video.videoWidth);
+      canvas.height = Math.round((canvas.width * video.videoHeight) / video.videoWidth);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      canvas.toBlob(async (blob) => {
         if (blob) {
           const base64Data = await blobToBase64(blob);
-          sessionPromise.then(session => {
-             session.sendRealtimeInput({
-               media: {
-                 mimeType: 'image/jpeg',
-                 data: base64Data
-               }
-             });
-          });
+          sessionRef.current?.sendImage(base64Data);
+          scheduler.recordFrame(base64Data.length, performance.now(), decision.settled);
         }
-      }, 'image/jpeg', 0.6);
+      }, 'image/jpeg', decision.quality);
+
+    }, FRAME_CHECK_MS);
+  };
+
+  // Full-size JPEG of the current camera picture
+  const captureStill = (): Promise<{ image: string; width: number; height: number } | null> => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return Promise.resolve(null);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.min(REFERENCE_WIDTH, video.videoWidth);
+    canvas.height = Math.round((canvas.width * video.videoHeight) / video.videoWidth);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return new Promise(resolve => canvas.toBlob(async blob => {
+      resolve(blob ? { image: await blobToBase64(blob), width: canvas.width, height: canvas.height } : null);
+    }, 'image/jpeg', REFERENCE_QUALITY));
+  };
+
+  const startReferenceCapture = async () => {
+    const still = await captureStill();
+    if (!still) return;
+    setReferenceDraft(still);
+    setDrift(null);
+    setReferencePhase('capture');
+  };
+
+  const saveReferenceSettings = (settings: ReferenceSetting[]) => {
+    if (!profile || !referenceDraft) return;
+    const saved: MixerReference = { profileId: profile.id, capturedAt: Date.now(), ...referenceDraft, settings };
+    saveReference(saved)
+      .then(() => {
+        setReference(saved);
+        sendContextMessage('USER_ACTION', 'The user saved the current mixer state as the known-good reference for this mosque.');
+      })
+      .catch(e => console.warn('Could not save the reference photo', e));
+    setReferenceDraft(null);
+    setReferencePhase('idle');
+  };
+
+  const runReferenceComparison = async () => {
+    const video = videoRef.current;
+    if (!reference || !video) return;
+    const current = grabGrayFrame(video);
+    if (!current) return;
+
+    try {
+      const referenceGray = await imageToGrayFrame(reference.image, current.width);
+      const comparison = compareWithReference(referenceGray, current);
+      setDrift(comparison);
+      setReferencePhase('result');
+      sessionRef.current?.sendTextWithImage(`[REFERENCE] ${referenceToText(reference, comparison)}`, reference.image);
+    } catch (e) {
+      console.warn('Could not compare with the reference photo', e);
+      setReferencePhase('idle');
+    }
+  };
+
+  const closeReference = () => {
+    setReferencePhase('idle');
+    setReferenceDraft(null);
+    setDrift(null);
+  };
+
+  const updateCameraCapabilities = (track: MediaStreamTrack | undefined) => {
+    const capabilities = track ? readCameraCapabilities(track) : { torch: false, zoom: null };
+    setCameraCapabilities(capabilities);
+    setZoomLevel(track && capabilities.zoom ? currentZoom(track, capabilities.zoom) : null);
+  };
+
+  const switchCamera = async () => {
+    const stream = streamRef.current;
+    if (!stream) return;
+    const next: FacingMode = facingMode === 'environment' ? 'user' : 'environment';
 
-    }, 1000 / FPS);
+    // Many phones cannot open both cameras at once, so release the current one first
+    stream.getVideoTracks().forEach(track => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+    let track: MediaStreamTrack;
+    let opened = next;
+    try {
+      track = await openCamera(next);
+    } catch (e) {
+      console.warn('Could not switch camera', e);
+      opened = facingMode;
+      try {
+        track = await openCamera(facingMode);
+      } catch (err) {
+        console.warn('Could not reopen the camera', err);
+        updateCameraCapabilities(undefined);
+        return;
+      }
+    }
+    stream.addTrack(track);
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play();
+    }
+
+    setFacingMode(opened);
+    setTorchOn(false);
+    updateCameraCapabilities(track);
+    clearHighlight();
+    if (opened !== facingMode) {
+      sendContextMessage('USER_ACTION', `The user switched to the ${opened === 'user' ? 'front' : 'back'} camera.`);
+    }
+  };
+
+  const toggleTorch = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await setTorch(track, !torchOn);
+      setTorchOn(!torchOn);
+    } catch (e) {
+      console.warn('Could not switch the torch', e);
+    }
+  };
+
+  const handlePinchStart = (e: React.TouchEvent) => {
+    if (e.touches.length !== 2 || zoom === null) return;
+    pinchRef.current = { distance: pinchDistance(e.touches), zoom };
+  };
+
+  const handlePinchMove = (e: React.TouchEvent) => {
+    const pinch = pinchRef.current;
+    const range = cameraCapabilities.zoom;
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!pinch || !range || !track || e.touches.length !== 2 || pinch.distance === 0) return;
+
+    const next = clampZoom(pinch.zoom * (pinchDistance(e.touches) / pinch.distance), range);
+    if (next === zoom) return;
+    setZoomLevel(next);
+    setZoom(track, next).catch(err => console.warn('Could not zoom', err));
+  };
+
+  const handlePinchEnd = (e: React.TouchEvent) => {
+    if (e.touches.length < 2) pinchRef.current = null;
   };
 
+  // Opt-in, as the recording holds the user's voice and camera images
+  const toggleDiagnostics = () => {
+    const recorder = diagnosticsRef.current;
+    if (!recorder) return;
+    if (recorder.isRecording()) {
+      const bundle = recorder.stop();
+      if (bundle) downloadDiagnosticBundle(bundle);
+      setDiagnosticsRecording(false);
+      return;
+    }
+    if (!window.confirm(t.diagnosticsConsent)) return;
+    recorder.start();
+    setDiagnosticsRecording(true);
+  };
+
+  // The engineer's voice is still playing, or its tail is still ringing in the hall
+  const isPlaybackActive = () => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return false;
+    return sourcesRef.current.size > 0 || ctx.currentTime < nextStartTimeRef.current + HALF_DUPLEX_TAIL_MS / 1000;
+  };
+
+  const changeConversationMode = (mode: ConversationMode) => {
+    if (mode === conversationModeRef.current) return;
+    conversationModeRef.current = mode;
+    saveConversationMode(mode);
+    setConversationMode(mode);
+    sendContextMessage('USER_ACTION', `The user changed the conversation mode. ${conversationModeNote(mode)}`);
+  };
+
+  const setTalking = (held: boolean) => {
+    talkHeldRef.current = held;
+    setTalkHeld(held);
+  };
+
+  // Sending stops; the preview and highlight tracking keep running
+  const toggleVideoPaused = () => {
+    const paused = !videoPausedRef.current;
+    videoPausedRef.current = paused;
+    setVideoPaused(paused);
+    sendContextMessage('USER_ACTION', paused ? VIDEO_PAUSED_NOTE : 'The user turned the camera back on; new images follow.');
+  };
+
+  // Disabling the track silences local analysis too, so nothing is measured while muted
+  const toggleMicMuted = () => {
+    const muted = !micMutedRef.current;
+    micMutedRef.current = muted;
+    [streamRef.current, analysisStreamRef.current].forEach(stream => {
+      stream?.getAudioTracks().forEach(track => { track.enabled = !muted; });
+    });
+    setMicMuted(muted);
+    sendContextMessage('USER_ACTION', muted ? MIC_MUTED_NOTE : 'The user unmuted the microphone; you can hear them again.');
+  };
+
+  // Small grayscale copy of a frame, used to track highlighted controls
+  const grabGrayFrame = (source: HTMLVideoElement): GrayFrame | null => {
+    const sourceWidth = source.videoWidth;
+    const sourceHeight = source.videoHeight;
+    if (!sourceWidth || !sourceHeight) return null;
+
+    if (!trackingCanvasRef.current) {
+      trackingCanvasRef.current = document.createElement('canvas');
+    }
+    const canvas = trackingCanvasRef.current;
+    canvas.width = TRACKING_WIDTH;
+    canvas.height = Math.round((TRACKING_WIDTH * sourceHeight) / sourceWidth);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return toGrayFrame(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  };
+
+  const clearHighlight = () => {
+    if (trackingIntervalRef.current) {
+      clearInterval(trackingIntervalRef.current);
+      trackingIntervalRef.current = null;
+    }
+    trackerRef.current = null;
+    setHighlight(null);
+  };
+
+  const showHighlight = (box: NormalizedBox, label: string) => {
+    clearHighlight();
+    const frame = lastSentFrameRef.current;
+    const video = videoRef.current;
+    if (!frame || !video) return;
+
+    setHighlight({ box, label, frameWidth: frame.width, frameHeight: frame.height });
+
+    // Follow the control as the phone moves, starting from the frame the model saw
+    trackerRef.current = createRegionTracker(frame.gray, box);
+    trackingIntervalRef.current = window.setInterval(() => {
+      const gray = grabGrayFrame(video);
+      if (!gray || !trackerRef.current) return;
+      const tracked = trackerRef.current.update(gray);
+      setHighlight(prev => (prev ? {
+        ...prev,
+        box: tracked,
+        frameWidth: video.videoWidth,
+        frameHeight: video.videoHeight
+      } : prev));
+    }, TRACKING_INTERVAL_MS);
+  };
+
+  const confirmHighlight = () => {
+    const label = highlight?.label ?? '';
+    clearHighlight();
+    sendContextMessage('USER_ACTION', `The user found the highlighted control "${label}".`);
+  };
+
+  // Records the room again after the user made the adjustment and compares it with before
+  // Null when the recording was cancelled, e.g. because the call ended
+  // The model still gets the result when the user closed the card while it was measuring
+  const verifyAdjustment = async (pending: { action: string; before: AudioSnapshot }): Promise<SnapshotComparison | null> => {
+    const run = ++comparisonRunRef.current;
+    const shown = () => run === comparisonRunRef.current;
+    setComparison(null);
+    setComparisonPhase('measuring');
+    let samples: Float32Array;
+    try {
+      samples = await recordInput('verification', SNAPSHOT_MS, { skipPlayback: true });
+    } catch {
+      if (shown()) setComparisonPhase('idle');
+      return null;
+    }
+    const sampleRate = inputContextRef.current?.sampleRate ?? MODEL_INPUT_RATE;
+    const result = compareSnapshots(pending.action, pending.before, measureSnapshot(samples, sampleRate));
+    if (shown()) {
+      setComparison(result);
+      setComparisonPhase('result');
+    }
+
+    logSessionEvent({
+      type: 'verification',
+      at: Date.now(),
+      action: result.action,
+      verdict: result.verdict,
+      before: result.before,
+      after: result.after
+    });
+    return result;
+  };
+
+  // Sends the user's answer as the final response to the model's call. Steps from
+  // local analysis, or from before a reconnect, are reported as a message instead.
+  const reportStepOutcome = (step: InstructionStep, outcome: StepOutcome, check: SnapshotComparison | null) => {
+    const call = stepCallsRef.current.get(step.id);
+    stepCallsRef.current.delete(step.id);
+    const checkText = check ? comparisonToText(check) : null;
+
+    if (call && call.session === sessionRef.current) {
+      call.session.sendToolResponse([{
+        id: call.id,
+        name: call.name,
+        response: { outcome, result: OUTCOME_TEXT[outcome], ...(checkText ? { check: checkText } : {}) },
+        scheduling: FunctionResponseScheduling.WHEN_IDLE
+      }]);
+      return;
+    }
+    sendContextMessage(
+      'USER_ACTION',
+      `Answer to the "${step.instruction.action}" card ("${step.instruction.message}"): ${OUTCOME_TEXT[outcome]}` +
+      (checkText ? ` ${checkText}` : '')
+    );
+  };
+
+  const answerStep = async (outcome: StepOutcome) => {
+    const step = activeStep(stepsRef.current);
+    if (!step) return;
+    const pending = pendingCheckRef.current?.stepId === step.id ? pendingCheckRef.current : null;
+    pendingCheckRef.current = null;
+    updateSteps(current => resolveStep(current, step.id, outcome));
+    logSessionEvent({ type: 'step_outcome', at: Date.now(), action: step.instruction.action, outcome });
+
+    // Nothing changed on the mixer if the control was not found
+    const check = pending && outcome !== 'not_found' ? await verifyAdjustment(pending) : null;
+    reportStepOutcome(step, outcome, check);
+  };
+
+  const closeComparison = () => {
+    comparisonRunRef.current++;
+    setComparisonPhase('idle');
+    setComparison(null);
+  };
+
+  // Dropped while reconnecting; the recap after a reconnect covers the gap
+  const sendContextMessage = (tag: string, text: string) => {
+    sessionRef.current?.sendText(`[${tag}] ${text}`);
+  };
+
+  // A typed question goes into the same conversation as speech
+  const sendTypedMessage = (text: string) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.sendText(text);
+    logSessionEvent({ type: 'transcript', at: Date.now(), speaker: 'user', text, typed: true });
+    setCaptions(prev => appendTypedMessage(prev, text, Date.now()));
+  };
+
+  // Sends measured facts to the model so its spoken advice can reference them
+  const sendAnalysisContext = (text: string) => {
+    sendContextMessage('LOCAL_ANALYSIS', text);
+  };
+
+  const handleFeedbackDetected = (detection: FeedbackDetection) => {
+    if (suppressAlertsRef.current) return;
+    if (detection.detectedAt - lastFeedbackAlertRef.current < FEEDBACK_ALERT_COOLDOWN_MS) return;
+    lastFeedbackAlertRef.current = detection.detectedAt;
+
+    const instruction = feedbackToInstruction(detection, language);
+    handleInstruction(instruction);
+
+    sendAnalysisContext(
+      `Acoustic feedback (howl) detected at ${detection.frequency} Hz, level ${detection.levelDb} dBFS, ` +
+      `${detection.prominenceDb} dB above the surrounding spectrum, grew ${detection.growthDb} dB. ` +
+      `The "${instruction.action}" card is already displayed.`
+    );
+  };
+
+  const handleHumReading = (reading: HumReading) => {
+    setHumReading(reading);
+
+    const instruction = humToInstruction(reading, language);
+    if (!instruction || suppressAlertsRef.current) return;
+
+    const now = Date.now();
+    const last = lastHumAlertRef.current;
+    if (last.diagnosis === reading.diagnosis && now - last.at < HUM_ALERT_COOLDOWN_MS) return;
+    lastHumAlertRef.current = { diagnosis: reading.diagnosis, at: now };
+
+    handleInstruction(instruction);
+
+    sendAnalysisContext(
+      `Noise diagnosis: ${reading.diagnosis}. Mains hum at ${reading.mainsFrequency} Hz: level ${reading.humLevelDb} dBFS, ` +
+      `${reading.harmonicsFound} harmonics found, ${reading.humProminenceDb} dB above neighbours. ` +
+      `Broadband hiss floor (2-7 kHz): ${reading.hissLevelDb} dBFS. The "${instruction.action}" card is already displayed.`
+    );
+  };
+
+  const startAudioAnalysis = () => {
+    const analyser = analyserRef.current;
+    const humAnalyser = humAnalyserRef.current;
+    if (!analyser || !humAnalyser) return;
+
+    const detector = createFeedbackDetector({
+      sampleRate: analyser.context.sampleRate,
+      fftSize: analyser.fftSize,
+      maxFrequency: FEEDBACK_MAX_FREQUENCY
+    });
+    const humDetector = createHumAnalyzer({
+      sampleRate: humAnalyser.context.sampleRate,
+      fftSize: humAnalyser.fftSize
+    });
+    const spectrum = new Float32Array(analyser.frequencyBinCount);
+    const humSpectrum = new Float32Array(humAnalyser.frequencyBinCount);
+    let tick = 0;
+
+    analysisIntervalRef.current = window.setInterval(() => {
+      analyser.getFloatFrequencyData(spectrum);
+      const detection = detector.analyze(spectrum);
+      if (detection) {
+        handleFeedbackDetected(detection);
+      }
+
+      tick++;
+      if (tick % HUM_ANALYSIS_EVERY === 0) {
+        humAnalyser.getFloatFrequencyData(humSpectrum);
+        handleHumReading(humDetector.analyze(humSpectrum));
+      }
+    }, ANALYSIS_INTERVAL_MS);
+  };
+
+  // Waits its turn behind other recordings; rejects with RECORDING_CANCELLED when cancelled
+  const recordInput = (owner: RecordingOwner, durationMs: number, options?: RecordingOptions): Promise<Float32Array> => {
+    const sampleRate = inputContextRef.current?.sampleRate ?? 16000;
+    return recordingsRef.current.record(owner, Math.round((sampleRate * durationMs) / 1000), options);
+  };
+
+  // Short burst of white noise used as an impulse for the reverb test
+  const playTestBurst = () => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    const length = Math.round((ctx.sampleRate * TEST_BURST_MS) / 1000);
+    const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * 0.9;
+    }
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start();
+  };
+
+  const playSignal = (samples: Float32Array) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    const buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start();
+  };
+
+  const runReverbTest = async (mode: 'clap' | 'burst') => {
+    setReverbTestPhase('listening');
+    suppressAlertsRef.current = true;
+    let samples: Float32Array;
+    try {
+      samples = await recordInput('reverb', REVERB_RECORD_MS, {
+        // Give the recording a moment of background noise before the impulse
+        onStart: () => { if (mode === 'burst') window.setTimeout(playTestBurst, 300); }
+      });
+    } catch {
+      // Cancelled; the panel is already closed
+      return;
+    }
+    suppressAlertsRef.current = false;
+
+    const sampleRate = inputContextRef.current?.sampleRate ?? 16000;
+    const measurement = measureReverb(samples, sampleRate);
+    setReverbTestPhase('idle');
+
+    if (!measurement) {
+      showNotice({
+        action: 'general',
+        message: t.noClapHeard
+      });
+      return;
+    }
+
+    const instruction = reverbToInstruction(measurement, language);
+    handleInstruction(instruction);
+
+    sendAnalysisContext(
+      `Reverb test (${mode}) result: RT60 ${measurement.rt60} s, EDT ${measurement.edt} s, ` +
+      (measurement.echoDelayMs !== null
+        ? `discrete repeat every ${measurement.echoDelayMs} ms (mixer echo/delay effect). `
+        : 'no discrete repeats. ') +
+      `Echo source: ${measurement.source}. The "${instruction.action}" card is already displayed.`
+    );
+  };
+
+  const cancelReverbTest = () => {
+    recordingsRef.current.cancel('reverb');
+    suppressAlertsRef.current = false;
+    setReverbTestPhase('idle');
+  };
+
+  const runResponseTest = async (signal: TestSignalType) => {
+    const outputRate = audioContextRef.current?.sampleRate ?? 24000;
+    const inputRate = inputContextRef.current?.sampleRate ?? 16000;
+    const reference = signal === 'sweep'
+      ? createLogSweep(RESPONSE_SIGNAL_SECONDS, outputRate)
+      : createPinkNoise(RESPONSE_SIGNAL_SECONDS, outputRate);
+
+    setResponseTestPhase('measuring');
+    suppressAlertsRef.current = true;
+    let samples: Float32Array;
+    try {
+      samples = await recordInput('response', RESPONSE_RECORD_MS, {
+        onStart: () => window.setTimeout(() => playSignal(reference), RESPONSE_LEAD_IN_MS)
+      });
+    } catch {
+      return;
+    }
+    suppressAlertsRef.current = false;
+
+    const response = measureFrequencyResponse(samples, inputRate, reference, outputRate, signal);
+    setFrequencyResponse(response);
+    setResponseTestPhase('result');
+
+    const instruction = responseToInstruction(response, language);
+    handleInstruction(instruction);
+
+    sendAnalysisContext(
+      `Frequency response test (${signal}) relative to the overall average: ` +
+      `bass (63-250 Hz) ${response.bassDb} dB, mid (250-2000 Hz) ${response.midDb} dB, ` +
+      `treble (2-8 kHz) ${response.trebleDb} dB. The "${instruction.action}" card is already displayed.`
+    );
+  };
+
+  const closeResponseTest = () => {
+    recordingsRef.current.cancel('response');
+    suppressAlertsRef.current = false;
+    setResponseTestPhase('idle');
+  };
+
+  // The session reads the latest props and state through this, so it only
+  // restarts when what it was set up for changes, not on every render
+  const connectRef = useRef(connectToGemini);
+  useEffect(() => {
+    connectRef.current = connectToGemini;
+  });
+
+  useEffect(() => replay?.subscribe(setReplayLog), [replay]);
+
+  // A phone may close the tab once it is in the background, so save the history first
   useEffect(() => {
-    connectToGemini();
+    const saveWhenHidden = () => {
+      if (document.visibilityState === 'hidden') sessionWriterRef.current.flush();
+    };
+    document.addEventListener('visibilitychange', saveWhenHidden);
+    return () => document.removeEventListener('visibilitychange', saveWhenHidden);
+  }, []);
+
+  // App hands over a freshly loaded profile object on each render, so follow its id
+  const profileId = profile?.id ?? null;
+  useEffect(() => {
+    connectRef.current();
+    if (profileId) {
+      loadReference(profileId)
+        .then(setReference)
+        .catch(e => console.warn('Could not load the reference photo', e));
+    }
+
     return () => {
       stopSession();
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [profileId, language, replay, stopSession]);
 
   if (status === ConnectionStatus.ERROR) {
     return (
       <div className="flex flex-col items-center justify-center h-screen bg-slate-900 text-white p-6">
         <div className="bg-red-500/10 border border-red-500 rounded-lg p-6 max-w-sm w-full text-center">
-          <p className="text-red-400 mb-4 font-bold">حدث خطأ</p>
+          <p className="text-red-400 mb-4 font-bold">{t.errorTitle}</p>
           <p className="text-red-200 mb-6 text-sm">{errorMessage}</p>
-          <button 
-            onClick={onDisconnect}
-            className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-full font-bold transition-colors"
-          >
-            العودة للقائمة
-          </button>
+          <p className="text-slate-300 mb-4 text-sm">{t.offlineHint}</p>
+          <div className="flex flex-col gap-3">
+            <button
+              onClick={onOfflineMode}
+              className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded-full font-bold transition-colors"
+            >
+              {t.offline}
+            </button>
+            <button 
+              onClick={onDisconnect}
+              className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-full font-bold transition-colors"
+            >
+              {t.backToMenu}
+            </button>
+          </div>
         </div>
       </div>
     );
@@ -363,15 +1355,34 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ onDisconnect }) =>
       {/* Video Viewfinder */}
       <video 
         ref={videoRef} 
-        className="absolute inset-0 w-full h-full object-cover z-0" 
+        className="absolute inset-0 w-full h-full object-cover z-0 touch-none" 
         autoPlay 
         playsInline 
         muted 
+        onTouchStart={handlePinchStart}
+        onTouchMove={handlePinchMove}
+        onTouchEnd={handlePinchEnd}
       />
       <canvas ref={canvasRef} className="hidden" />
 
+      {/* Reference Photo and Changed Regions */}
+      <DriftOverlay
+        ghostImage={referencePhase === 'compare' ? reference?.image ?? null : null}
+        changed={referencePhase === 'result' ? drift?.changed ?? [] : []}
+        video={videoRef.current}
+      />
+
+      {/* Control Highlight on the video */}
+      <HighlightOverlay highlight={highlight} video={videoRef.current} language={language} onConfirm={confirmHighlight} />
+
       {/* Visual Instruction Overlay */}
-      <InstructionOverlay instruction={currentInstruction} />
+      <InstructionOverlay
+        instruction={notice ?? currentStep?.instruction ?? null}
+        language={language}
+        onOutcome={!notice && reverbTestPhase === 'idle' && responseTestPhase === 'idle' && comparisonPhase !== 'measuring' ? answerStep : undefined}
+      >
+        <InstructionChecklist steps={steps} language={language} />
+      </InstructionOverlay>
 
       {/* Overlay UI */}
       <div className="absolute inset-0 z-10 flex flex-col justify-between p-4 bg-gradient-to-b from-black/60 via-transparent to-black/80 pointer-events-none">
@@ -384,20 +1395,47 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ onDisconnect }) =>
           >
             <ArrowLeftIcon className="w-6 h-6" />
           </button>
-          
+
+          {/* Diagnostic Recording, or the Replay Being Played */}
+          {replay ? (
+            <span className="text-xs font-bold text-sky-200 bg-sky-500/30 border border-sky-400/40 px-3 py-1 rounded-full">
+              {t.replaying}
+            </span>
+          ) : (
+            <button
+              onClick={toggleDiagnostics}
+              aria-pressed={diagnosticsRecording}
+              className={`flex items-center gap-1.5 text-xs px-3 py-1 rounded-full backdrop-blur-md border ${
+                diagnosticsRecording ? 'bg-red-600/40 border-red-500/60 text-white' : 'bg-black/40 border-white/10 text-white/60 hover:text-white'
+              }`}
+            >
+              <span className={`w-2 h-2 rounded-full ${diagnosticsRecording ? 'bg-red-400 animate-pulse' : 'bg-white/40'}`} />
+              {diagnosticsRecording ? t.stopDiagnostics : t.recordDiagnostics}
+            </button>
+          )}
+
           <div className="flex items-center gap-2 bg-black/40 backdrop-blur-md px-3 py-1 rounded-full border border-white/10">
-            <div className={`w-2 h-2 rounded-full ${status === ConnectionStatus.CONNECTED ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`} />
+            <div className={`w-2 h-2 rounded-full ${
+              status === ConnectionStatus.CONNECTED ? 'bg-green-500 animate-pulse'
+                : status === ConnectionStatus.RECONNECTING ? 'bg-orange-500 animate-ping' : 'bg-yellow-500'
+            }`} />
             <span className="text-xs font-medium text-white/90">
-              {status === ConnectionStatus.CONNECTED ? 'متصل بالمهندس' : 'جاري الاتصال...'}
+              {status === ConnectionStatus.CONNECTED ? t.connected
+                : status === ConnectionStatus.RECONNECTING ? t.reconnecting : t.connecting}
             </span>
           </div>
         </div>
 
+        {/* Live Hum Level */}
+        <div className="flex justify-end mt-2 pointer-events-auto">
+          <HumMeter reading={humReading} language={language} />
+        </div>
+
         {/* Center Guide (Optional Overlay) */}
-        {!currentInstruction && (
+        {!notice && !currentStep && (
           <div className="flex-1 flex items-center justify-center opacity-30 pointer-events-none transition-opacity duration-500">
              <div className="w-64 h-64 border-2 border-white/50 rounded-lg border-dashed flex items-center justify-center">
-                <span className="text-white text-sm">وجّه الكاميرا للجهاز</span>
+                <span className="text-white text-sm">{t.pointCamera}</span>
              </div>
           </div>
         )}
@@ -405,38 +1443,227 @@ export const LiveInterface: React.FC<LiveInterfaceProps> = ({ onDisconnect }) =>
         {/* Footer Controls & Visualizers */}
         <div className="flex flex-col gap-6 items-center pointer-events-auto pb-8 mt-auto">
           
+          {/* Guided Reverb Test */}
+          <ReverbTestPanel
+            phase={reverbTestPhase}
+            language={language}
+            onClap={() => runReverbTest('clap')}
+            onBurst={() => runReverbTest('burst')}
+            onCancel={cancelReverbTest}
+          />
+
+          {/* Frequency Response Measurement */}
+          <ResponseTestPanel
+            phase={responseTestPhase}
+            response={frequencyResponse}
+            language={language}
+            onStart={runResponseTest}
+            onClose={closeResponseTest}
+          />
+
+          {/* Known-Good Reference of the Mixer */}
+          <ReferencePanel
+            phase={referencePhase}
+            draftImage={referenceDraft?.image ?? null}
+            reference={reference}
+            controls={referenceControls}
+            comparison={drift}
+            onSave={saveReferenceSettings}
+            onCompare={runReferenceComparison}
+            onClose={closeReference}
+            language={language}
+          />
+
+          {/* Traffic of a Diagnostic Replay */}
+          {replay && <ReplayLog log={replayLog} language={language} />}
+
+          {/* Live Captions and Text Chat */}
+          <CaptionPanel
+            captions={captions}
+            language={language}
+            canSend={status === ConnectionStatus.CONNECTED}
+            onSend={sendTypedMessage}
+          />
+
+          {/* Before/After Check of the Last Adjustment */}
+          <ComparisonCard phase={comparisonPhase} comparison={comparison} language={language} onClose={closeComparison} />
+
           {/* Status Text / AI Listening Indicator */}
           <div className="text-center space-y-2">
-            {isAiSpeaking ? (
-               <div className="bg-emerald-500/20 backdrop-blur-md px-6 py-2 rounded-2xl border border-emerald-500/30">
-                  <Visualizer active={true} label="المهندس يتحدث..." />
-               </div>
-            ) : (
+            {/* Live levels, so the volunteer can watch the gain while turning a knob */}
+            <div className={`backdrop-blur-md px-4 py-2 rounded-2xl border flex flex-col items-center ${
+              isAiSpeaking ? 'bg-emerald-500/20 border-emerald-500/30' : 'bg-black/40 border-white/10'
+            }`}>
+              <Visualizer
+                input={meterAnalysers?.input ?? null}
+                output={meterAnalysers?.output ?? null}
+                language={language}
+                showSpectrum={showSpectrum}
+                label={isAiSpeaking ? t.aiSpeaking : undefined}
+              />
+              <button
+                onClick={() => setShowSpectrum(prev => !prev)}
+                className="mt-1 text-[10px] text-white/60 hover:text-white"
+              >
+                {showSpectrum ? t.hideSpectrum : t.showSpectrum}
+              </button>
+            </div>
+            {!isAiSpeaking && (
               <div className="bg-white/10 backdrop-blur-md px-4 py-2 rounded-xl">
                  <p className="text-sm text-white/80">
-                    جرب قل: "قلل الصدى" أو "في زنة"
+                    {t.tryPhrases}
                  </p>
               </div>
             )}
+            {reverbTestPhase === 'idle' && responseTestPhase === 'idle' && comparisonPhase !== 'measuring' && referencePhase === 'idle' && (
+              <div className="flex flex-wrap justify-center gap-2">
+                <button
+                  onClick={() => setReverbTestPhase('ready')}
+                  className="text-xs text-purple-200 bg-purple-500/20 border border-purple-500/30 px-3 py-1 rounded-full"
+                >
+                  {t.reverbTest}
+                </button>
+                <button
+                  onClick={() => setResponseTestPhase('ready')}
+                  className="text-xs text-sky-200 bg-sky-500/20 border border-sky-500/30 px-3 py-1 rounded-full"
+                >
+                  {t.speakerTest}
+                </button>
+                {profile && (
+                  <button
+                    onClick={startReferenceCapture}
+                    className="text-xs text-amber-200 bg-amber-500/20 border border-amber-500/30 px-3 py-1 rounded-full"
+                  >
+                    {t.saveReference}
+                  </button>
+                )}
+                {reference && (
+                  <button
+                    onClick={() => setReferencePhase('compare')}
+                    className="text-xs text-amber-200 bg-amber-500/20 border border-amber-500/30 px-3 py-1 rounded-full"
+                  >
+                    {t.compareReference}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Camera Tools */}
+          <div className="flex items-center gap-3">
+            {!replay && (
+              <button
+                onClick={switchCamera}
+                title={t.switchCamera}
+                className="p-2 rounded-full bg-white/10 backdrop-blur-sm border border-white/10 hover:bg-white/20"
+              >
+                <span className="sr-only">{t.switchCamera}</span>
+                <ArrowPathIcon className="w-5 h-5 text-white" />
+              </button>
+            )}
+            {cameraCapabilities.torch && (
+              <button
+                onClick={toggleTorch}
+                title={t.torch}
+                aria-pressed={torchOn}
+                className={`p-2 rounded-full backdrop-blur-sm border ${
+                  torchOn ? 'bg-yellow-400/30 border-yellow-400/50' : 'bg-white/10 border-white/10 hover:bg-white/20'
+                }`}
+              >
+                <span className="sr-only">{t.torch}</span>
+                {torchOn ? <BoltIcon className="w-5 h-5 text-yellow-300" /> : <BoltSlashIcon className="w-5 h-5 text-white" />}
+              </button>
+            )}
+            {zoom !== null && cameraCapabilities.zoom && zoom > cameraCapabilities.zoom.min && (
+              <span className="text-xs text-white bg-black/40 px-2 py-1 rounded-full" dir="ltr">
+                {zoom.toFixed(1)}×
+              </span>
+            )}
+          </div>
+
+          {/* What the camera feed costs on this connection */}
+          {frameStats && (
+            <div className="-mt-4 text-[10px] text-white/60 bg-black/40 px-3 py-1 rounded-full">
+              {t.framesSent} {frameStats.sent} · {t.framesSkipped} {frameStats.skipped} ·{' '}
+              <span dir="ltr">
+                {Math.round(frameStats.bytesPerMinute / 1024)} kB/min
+                {frameStats.uploadBytesPerSecond !== null && ` · ↑ ${Math.round((frameStats.uploadBytesPerSecond * 8) / 1000)} kbps`}
+              </span>
+            </div>
+          )}
+
+          {/* Conversation Mode */}
+          <div className="flex bg-black/40 backdrop-blur-sm border border-white/10 rounded-full p-1 text-xs">
+            {CONVERSATION_MODES.map(mode => (
+              <button
+                key={mode}
+                onClick={() => changeConversationMode(mode)}
+                aria-pressed={conversationMode === mode}
+                className={`px-3 py-1 rounded-full ${
+                  conversationMode === mode ? 'bg-white text-slate-900 font-bold' : 'text-white/70 hover:text-white'
+                }`}
+              >
+                {mode === 'push_to_talk' ? t.pushToTalk : mode === 'half_duplex' ? t.halfDuplex : t.fullDuplex}
+              </button>
+            ))}
           </div>
 
+          {conversationMode === 'push_to_talk' && (
+            <button
+              onPointerDown={e => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setTalking(true);
+              }}
+              onPointerUp={() => setTalking(false)}
+              onPointerCancel={() => setTalking(false)}
+              onContextMenu={e => e.preventDefault()}
+              className={`-mt-2 w-64 py-3 rounded-2xl font-bold select-none touch-none transition-colors ${
+                talkHeld ? 'bg-emerald-500 text-white scale-105' : 'bg-white/10 border border-white/20 text-white'
+              }`}
+            >
+              {talkHeld ? t.listening : t.holdToTalk}
+            </button>
+          )}
+
           {/* Controls */}
           <div className="flex items-center gap-6">
-            <div className="p-4 rounded-full bg-white/5 backdrop-blur-sm border border-white/10">
-               <VideoCameraIcon className="w-6 h-6 text-white" />
-            </div>
+            <button
+              onClick={toggleVideoPaused}
+              title={videoPaused ? t.resumeCamera : t.pauseCamera}
+              aria-pressed={videoPaused}
+              className={`p-4 rounded-full backdrop-blur-sm border ${
+                videoPaused ? 'bg-red-500/30 border-red-500/50' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <span className="sr-only">{videoPaused ? t.resumeCamera : t.pauseCamera}</span>
+              {videoPaused
+                ? <VideoCameraSlashIcon className="w-6 h-6 text-red-300" />
+                : <VideoCameraIcon className="w-6 h-6 text-white" />}
+            </button>
             
             <button 
               onClick={onDisconnect}
               className="w-16 h-16 bg-red-600 rounded-full flex items-center justify-center shadow-lg shadow-red-600/30 hover:scale-105 transition-transform"
             >
-              <span className="sr-only">إنهاء المكالمة</span>
+              <span className="sr-only">{t.endCall}</span>
               <div className="w-6 h-6 bg-white rounded-sm" /> 
             </button>
 
-            <div className="p-4 rounded-full bg-white/5 backdrop-blur-sm border border-white/10">
-               <MicrophoneIcon className="w-6 h-6 text-white" />
-            </div>
+            <button
+              onClick={toggleMicMuted}
+              title={micMuted ? t.unmuteMic : t.muteMic}
+              aria-pressed={micMuted}
+              className={`relative p-4 rounded-full backdrop-blur-sm border ${
+                micMuted ? 'bg-red-500/30 border-red-500/50'
+                  : micStreaming ? 'bg-emerald-500/20 border-emerald-400/60'
+                  : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <span className="sr-only">{micMuted ? t.unmuteMic : t.muteMic}</span>
+              <MicrophoneIcon className={`w-6 h-6 ${micMuted ? 'text-red-300' : 'text-white'}`} />
+              {/* No slashed microphone icon in the set, so draw the slash */}
+              {micMuted && <span className="absolute left-1/2 top-1/2 w-8 h-0.5 bg-red-300 -translate-x-1/2 -translate-y-1/2 rotate-45" />}
+            </button>
           </div>
 
         </div>
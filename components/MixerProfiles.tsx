@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { ArrowLeftIcon, CheckCircleIcon, PencilSquareIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { EqLayoutId, MixerProfile } from '../types';
+import { createEmptyProfile, defaultEqBands, deleteProfile, loadProfiles, saveProfile } from '../utils/mixerProfiles';
+import { EQ_LAYOUTS } from '../utils/eqLayouts';
+import { Language, uiStrings } from '../utils/i18n';
+
+interface MixerProfilesProps {
+  selectedId: string | null;
+  language: Language;
+  onSelect: (id: string | null) => void;
+  onExit: () => void;
+}
+
+const splitList = (value: string) => value.split(/[,،]/).map(v => v.trim()).filter(Boolean);
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:border-emerald-500 outline-none';
+
+export const MixerProfiles: React.FC<MixerProfilesProps> = ({ selectedId, language, onSelect, onExit }) => {
+  const strings = uiStrings(language);
+  const t = strings.profiles;
+  const [profiles, setProfiles] = useState<MixerProfile[]>(loadProfiles);
+  const [editing, setEditing] = useState<MixerProfile | null>(null);
+  // Kept as text while typing so commas are not swallowed
+  const [eqBandsText, setEqBandsText] = useState('');
+  const [effectsText, setEffectsText] = useState('');
+
+  const startEditing = (profile: MixerProfile) => {
+    setEditing(profile);
+    setEqBandsText(profile.eqBands.join(', '));
+    setEffectsText(profile.effects.join(', '));
+  };
+
+  const update = (changes: Partial<MixerProfile>) => {
+    setEditing(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const changeLayout = (eqLayout: EqLayoutId) => {
+    update({ eqLayout });
+    setEqBandsText(defaultEqBands(eqLayout).join(', '));
+  };
+
+  const save = () => {
+    if (!editing) return;
+    const channelCount = Math.max(1, editing.channelCount);
+    const profile: MixerProfile = {
+      ...editing,
+      mosqueName: editing.mosqueName.trim() || t.unnamedMosque,
+      channelCount,
+      imamChannel: Math.min(Math.max(1, editing.imamChannel), channelCount),
+      eqBands: splitList(eqBandsText),
+      effects: splitList(effectsText)
+    };
+    setProfiles(saveProfile(profile));
+    if (!selectedId) onSelect(profile.id);
+    setEditing(null);
+  };
+
+  const remove = (profile: MixerProfile) => {
+    setProfiles(deleteProfile(profile.id));
+    if (selectedId === profile.id) onSelect(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-50 flex flex-col font-sans">
+      <header className="flex items-center gap-3 p-4">
+        <button
+          onClick={editing ? () => setEditing(null) : onExit}
+          className="bg-white/10 p-2 rounded-full text-white hover:bg-white/20"
+        >
+          <ArrowLeftIcon className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-bold">{editing ? t.editTitle : t.listTitle}</h1>
+      </header>
+
+      <main className="flex-1 p-4 max-w-md mx-auto w-full">
+        {!editing && (
+          <>
+            {profiles.length === 0 && (
+              <p className="text-slate-400 text-center py-8">{t.empty}</p>
+            )}
+
+            <ul className="space-y-3 mb-6">
+              {profiles.map(profile => (
+                <li
+                  key={profile.id}
+                  className={`rounded-xl border p-4 ${
+                    profile.id === selectedId ? 'border-emerald-500 bg-emerald-500/10' : 'border-slate-700 bg-slate-800/50'
+                  }`}
+                >
+                  <button onClick={() => onSelect(profile.id)} className="w-full text-start">
+                    <div className="font-bold flex items-center gap-2">
+                      {profile.id === selectedId && <CheckCircleIcon className="w-5 h-5 text-emerald-400" />}
+                      {profile.mosqueName}
+                    </div>
+                    <div className="text-xs text-slate-400 mt-1">
+                      {profile.mixerModel || t.unknownMixer} · {t.summary(profile.channelCount, profile.imamChannel)}
+                    </div>
+                  </button>
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={() => startEditing(profile)}
+                      className="flex items-center gap-1 text-xs bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full"
+                    >
+                      <PencilSquareIcon className="w-4 h-4" />
+                      {t.edit}
+                    </button>
+                    <button
+                      onClick={() => remove(profile)}
+                      className="flex items-center gap-1 text-xs bg-red-500/10 hover:bg-red-500/20 text-red-300 px-3 py-1 rounded-full"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                      {t.delete}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <button
+              onClick={() => startEditing(createEmptyProfile())}
+              className="w-full flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 rounded-2xl"
+            >
+              <PlusIcon className="w-5 h-5" />
+              {t.addMosque}
+            </button>
+          </>
+        )}
+
+        {editing && (
+          <form
+            className="space-y-4"
+            onSubmit={e => {
+              e.preventDefault();
+              save();
+            }}
+          >
+            <label className="block">
+              <span className="text-sm text-slate-400">{t.mosqueName}</span>
+              <input className={inputClass} value={editing.mosqueName} onChange={e => update({ mosqueName: e.target.value })} />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">{t.mixerModel}</span>
+              <input className={inputClass} dir="ltr" placeholder="Yamaha MG10XU" value={editing.mixerModel} onChange={e => update({ mixerModel: e.target.value })} />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">{t.amplifierModel}</span>
+              <input className={inputClass} dir="ltr" value={editing.amplifierModel} onChange={e => update({ amplifierModel: e.target.value })} />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-sm text-slate-400">{t.channelCount}</span>
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClass}
+                  value={editing.channelCount}
+                  onChange={e => update({ channelCount: parseInt(e.target.value, 10) || 1 })}
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm text-slate-400">{t.imamChannel}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={editing.channelCount}
+                  className={inputClass}
+                  value={editing.imamChannel}
+                  onChange={e => update({ imamChannel: parseInt(e.target.value, 10) || 1 })}
+                />
+              </label>
+            </div>
+            <label className="block">
+              <span className="text-sm text-slate-400">{t.eqType}</span>
+              <select className={inputClass} value={editing.eqLayout} onChange={e => changeLayout(e.target.value as EqLayoutId)}>
+                {EQ_LAYOUTS.map(layout => (
+                  <option key={layout} value={layout}>{strings.eq.layouts[layout].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">{t.eqBands}</span>
+              <input className={inputClass} dir="ltr" value={eqBandsText} onChange={e => setEqBandsText(e.target.value)} />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">{t.effects}</span>
+              <input className={inputClass} dir="ltr" placeholder="Echo, Reverb" value={effectsText} onChange={e => setEffectsText(e.target.value)} />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">{t.notes}</span>
+              <textarea className={inputClass} rows={3} value={editing.notes} onChange={e => update({ notes: e.target.value })} />
+            </label>
+
+            <button type="submit" className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 rounded-2xl">
+              {t.save}
+            </button>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+};
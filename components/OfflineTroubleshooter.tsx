@@ -0,0 +1,211 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeftIcon, ArrowPathIcon, MicrophoneIcon } from '@heroicons/react/24/outline';
+import {
+  MeasurementKind,
+  MeasurementOutcome,
+  PROBLEMS,
+  TROUBLESHOOTING_TREE,
+  TroubleNodeId,
+  fillNodeText
+} from '../utils/troubleshootingTree';
+import { MicAnalysis, listenForFeedback, listenForHum, openMicAnalysis, recordMic } from '../utils/localMeasurements';
+import { measureReverb } from '../utils/reverbAnalyzer';
+import { Language, uiStrings } from '../utils/i18n';
+import { InstructionOverlay } from './InstructionOverlay';
+
+interface OfflineTroubleshooterProps {
+  language: Language;
+  onExit: () => void;
+}
+
+const FEEDBACK_LISTEN_MS = 15000;
+const HUM_LISTEN_MS = 4000;
+const CLAP_RECORD_MS = 3000;
+// Feedback above this is usually tamed with the treble knob
+const HIGH_FEEDBACK_HZ = 2000;
+
+export const OfflineTroubleshooter: React.FC<OfflineTroubleshooterProps> = ({ language, onExit }) => {
+  const t = uiStrings(language).offline;
+  const [path, setPath] = useState<TroubleNodeId[]>([]);
+  const [values, setValues] = useState<Record<string, string | number>>({});
+  const [measuring, setMeasuring] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const micRef = useRef<MicAnalysis | null>(null);
+
+  const nodeId = path[path.length - 1];
+  const node = nodeId ? TROUBLESHOOTING_TREE[nodeId] : null;
+  const text = nodeId ? fillNodeText(t.nodes[nodeId], values) : '';
+
+  const closeMic = useCallback(() => {
+    micRef.current?.close();
+    micRef.current = null;
+  }, []);
+
+  useEffect(() => closeMic, [closeMic]);
+
+  const goTo = (next: TroubleNodeId) => {
+    setErrorMessage('');
+    setPath(prev => [...prev, next]);
+  };
+
+  const goBack = () => {
+    setErrorMessage('');
+    if (path.length === 0) {
+      closeMic();
+      onExit();
+      return;
+    }
+    setPath(prev => prev.slice(0, -1));
+  };
+
+  const measure = async (kind: MeasurementKind): Promise<MeasurementOutcome | null> => {
+    if (!micRef.current) micRef.current = await openMicAnalysis();
+    const mic = micRef.current;
+
+    if (kind === 'feedback') {
+      const detection = await listenForFeedback(mic, FEEDBACK_LISTEN_MS);
+      if (!detection) return 'feedback_none';
+      setValues(prev => ({ ...prev, frequency: detection.frequency }));
+      return detection.frequency >= HIGH_FEEDBACK_HZ ? 'feedback_high' : 'feedback_low';
+    }
+
+    if (kind === 'hum') {
+      const reading = await listenForHum(mic, HUM_LISTEN_MS);
+      return `hum_${reading?.diagnosis ?? 'none'}` as MeasurementOutcome;
+    }
+
+    const samples = await recordMic(mic, CLAP_RECORD_MS);
+    const measurement = measureReverb(samples, mic.context.sampleRate);
+    return measurement ? (`reverb_${measurement.source}` as MeasurementOutcome) : null;
+  };
+
+  const runMeasurement = async () => {
+    if (!node || node.kind !== 'measure') return;
+    setMeasuring(true);
+    setErrorMessage('');
+    try {
+      const outcome = await measure(node.measurement);
+      const next = outcome ? node.outcomes[outcome] : undefined;
+      if (next) {
+        goTo(next);
+      } else {
+        setErrorMessage(t.noClearSound);
+      }
+    } catch (error) {
+      console.error('Offline measurement error:', error);
+      setErrorMessage(t.micUnavailable);
+    } finally {
+      setMeasuring(false);
+    }
+  };
+
+  const restart = () => {
+    closeMic();
+    setPath([]);
+    setValues({});
+    setErrorMessage('');
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-50 flex flex-col font-sans">
+      <header className="flex items-center gap-3 p-4">
+        <button
+          onClick={goBack}
+          disabled={measuring}
+          className="bg-white/10 p-2 rounded-full text-white hover:bg-white/20 disabled:opacity-50"
+        >
+          <ArrowLeftIcon className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-bold">{t.title}</h1>
+      </header>
+
+      <main className="flex-1 flex flex-col p-6 max-w-md mx-auto w-full">
+        {!node && (
+          <>
+            <h2 className="text-xl font-bold mb-2">{t.whatProblem}</h2>
+            <p className="text-slate-400 text-sm mb-6">{t.intro}</p>
+            <div className="space-y-3">
+              {PROBLEMS.map(problem => (
+                <button
+                  key={problem.id}
+                  onClick={() => goTo(problem.start)}
+                  className="w-full text-start bg-slate-800/50 hover:bg-slate-800 border border-slate-700 rounded-xl p-4 font-bold"
+                >
+                  {t.problems[problem.id]}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {node?.kind === 'question' && (
+          <>
+            <p className="text-xl font-bold leading-relaxed mb-8">{text}</p>
+            <div className="mt-auto grid grid-cols-2 gap-3">
+              <button onClick={() => goTo(node.yes)} className="bg-emerald-600 hover:bg-emerald-500 py-4 rounded-2xl font-bold">
+                {t.yes}
+              </button>
+              <button onClick={() => goTo(node.no)} className="bg-white/10 hover:bg-white/20 py-4 rounded-2xl font-bold">
+                {t.no}
+              </button>
+            </div>
+          </>
+        )}
+
+        {node?.kind === 'step' && (
+          <>
+            <InstructionOverlay instruction={{ action: node.action, message: text }} language={language} inline />
+            <button
+              onClick={() => goTo(node.next)}
+              className="mt-auto w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-4 rounded-2xl"
+            >
+              {t.done}
+            </button>
+          </>
+        )}
+
+        {node?.kind === 'measure' && (
+          <>
+            <p className="text-lg leading-relaxed text-slate-200 mb-6">{text}</p>
+            {measuring && (
+              <div className="rounded-2xl p-6 text-center mb-6 border bg-slate-800/50 border-slate-700">
+                <MicrophoneIcon className="w-12 h-12 mx-auto text-emerald-400 mb-2 animate-pulse" />
+                <p className="text-slate-300">{t.listening}</p>
+              </div>
+            )}
+            {errorMessage && <p className="text-red-400 text-sm mb-4">{errorMessage}</p>}
+            <button
+              onClick={runMeasurement}
+              disabled={measuring}
+              className="mt-auto w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold py-4 rounded-2xl"
+            >
+              {t.startMeasurement}
+            </button>
+          </>
+        )}
+
+        {node?.kind === 'end' && (
+          <>
+            <InstructionOverlay instruction={{ action: node.action, message: text }} language={language} inline />
+            <div className="mt-auto grid grid-cols-2 gap-3">
+              <button
+                onClick={restart}
+                className="flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 py-3 rounded-xl"
+              >
+                <ArrowPathIcon className="w-5 h-5" />
+                {t.anotherProblem}
+              </button>
+              <button
+                onClick={() => { closeMic(); onExit(); }}
+                className="bg-emerald-600 hover:bg-emerald-500 py-3 rounded-xl font-bold"
+              >
+                {t.finish}
+              </button>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { MixerReference, ReferenceSetting } from '../types';
+import { DriftComparison } from '../utils/mixerReference';
+import { Language, uiStrings } from '../utils/i18n';
+
+export type ReferencePhase = 'idle' | 'capture' | 'compare' | 'result';
+
+interface ReferencePanelProps {
+  phase: ReferencePhase;
+  // Photo just taken, waiting for its settings
+  draftImage: string | null;
+  reference: MixerReference | null;
+  // Control names of the selected mixer, offered as rows to fill in
+  controls: string[];
+  comparison: DriftComparison | null;
+  onSave: (settings: ReferenceSetting[]) => void;
+  onCompare: () => void;
+  onClose: () => void;
+  language: Language;
+}
+
+export const ReferencePanel: React.FC<ReferencePanelProps> = ({
+  phase, draftImage, reference, controls, comparison, onSave, onCompare, onClose, language
+}) => {
+  const t = uiStrings(language).reference;
+  const [settings, setSettings] = useState<ReferenceSetting[]>([]);
+
+  // Start from the last saved values, so re-taking the photo keeps the notes
+  useEffect(() => {
+    if (phase !== 'capture') return;
+    setSettings(controls.map(control => ({
+      control,
+      value: reference?.settings.find(s => s.control === control)?.value ?? ''
+    })));
+  }, [phase, draftImage, controls, reference]);
+
+  if (phase === 'idle') return null;
+
+  const updateValue = (control: string, value: string) => {
+    setSettings(prev => prev.map(s => (s.control === control ? { ...s, value } : s)));
+  };
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-xl border border-amber-500/30 rounded-2xl p-4 w-full max-w-sm text-center">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-white font-bold">
+          {phase === 'capture' ? t.captureTitle : t.compareTitle}
+        </h3>
+        <button onClick={onClose} className="text-white/60 hover:text-white">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {phase === 'capture' && draftImage && (
+        <>
+          <img src={`data:image/jpeg;base64,${draftImage}`} alt="" className="w-full rounded-lg mb-3" />
+          <p className="text-slate-300 text-sm mb-2">{t.captureHint}</p>
+          <div className="max-h-40 overflow-y-auto space-y-1 mb-3">
+            {settings.map(setting => (
+              <label key={setting.control} className="flex items-center gap-2 text-sm">
+                <span className="w-24 shrink-0 text-slate-400 text-start" dir="ltr">{setting.control}</span>
+                <input
+                  value={setting.value}
+                  onChange={e => updateValue(setting.control, e.target.value)}
+                  className="flex-1 bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-white"
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={() => onSave(settings)}
+            className="w-full bg-amber-600 hover:bg-amber-500 text-white py-3 rounded-xl font-bold"
+          >
+            {t.saveReference}
+          </button>
+        </>
+      )}
+
+      {phase === 'compare' && (
+        <>
+          <p className="text-slate-300 text-sm mb-4">
+            {t.compareHint}
+          </p>
+          <button
+            onClick={onCompare}
+            className="w-full bg-amber-600 hover:bg-amber-500 text-white py-3 rounded-xl font-bold"
+          >
+            {t.compare}
+          </button>
+        </>
+      )}
+
+      {phase === 'result' && comparison && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-3 text-sm">
+            <div className="bg-white/5 rounded-lg py-1">
+              <div className="text-white/60 text-xs">{t.similarity}</div>
+              <div className="text-white font-bold" dir="ltr">{Math.round(comparison.similarity * 100)}%</div>
+            </div>
+            <div className="bg-amber-500/10 rounded-lg py-1">
+              <div className="text-white/60 text-xs">{t.changedAreas}</div>
+              <div className="text-white font-bold">{comparison.changed.length}</div>
+            </div>
+          </div>
+          <p className="text-slate-300 text-sm">
+            {comparison.changed.length > 0
+              ? t.changedHint
+              : t.noChange}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+import { ReplayLogEntry } from '../utils/diagnosticReplay';
+import { Language, uiStrings } from '../utils/i18n';
+
+interface ReplayLogProps {
+  log: ReplayLogEntry[];
+  language: Language;
+}
+
+const describeEntry = (entry: ReplayLogEntry, t: ReturnType<typeof uiStrings>['live']) => {
+  switch (entry.kind) {
+    case 'text':
+      return { label: t.replaySent, detail: entry.text };
+    case 'tool_response':
+      return { label: t.replayAnswered, detail: JSON.stringify(entry.responses) };
+    case 'closed':
+      return { label: t.replayDropped, detail: entry.reason ?? '' };
+  }
+};
+
+/** What the app sent while a diagnostic recording plays, which a replay otherwise drops. */
+export const ReplayLog: React.FC<ReplayLogProps> = ({ log, language }) => {
+  const t = uiStrings(language).live;
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest entry in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [log]);
+
+  if (log.length === 0) return null;
+
+  return (
+    <div
+      ref={listRef}
+      className="w-full max-w-sm max-h-32 overflow-y-auto bg-sky-950/60 backdrop-blur-md border border-sky-400/30 rounded-2xl p-3 space-y-1"
+    >
+      {log.map((entry, i) => {
+        const { label, detail } = describeEntry(entry, t);
+        return (
+          <p key={i} className="text-xs text-sky-100 break-words">
+            <span className="font-mono text-sky-300/70" dir="ltr">{(entry.t / 1000).toFixed(1)}s</span>{' '}
+            <span className={`font-bold ${entry.kind === 'closed' ? 'text-amber-300' : 'text-sky-300'}`}>{label}</span>
+            {detail && <span className="text-white/70" dir="auto">: {detail}</span>}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
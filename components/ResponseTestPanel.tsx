@@ -0,0 +1,75 @@
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { FrequencyResponse, TestSignalType } from '../types';
+import { Language, uiStrings } from '../utils/i18n';
+import { FrequencyResponseChart } from './FrequencyResponseChart';
+
+export type ResponseTestPhase = 'idle' | 'ready' | 'measuring' | 'result';
+
+interface ResponseTestPanelProps {
+  phase: ResponseTestPhase;
+  response: FrequencyResponse | null;
+  language: Language;
+  onStart: (signal: TestSignalType) => void;
+  onClose: () => void;
+}
+
+export const ResponseTestPanel: React.FC<ResponseTestPanelProps> = ({ phase, response, language, onStart, onClose }) => {
+  if (phase === 'idle') return null;
+  const t = uiStrings(language).panels;
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-xl border border-sky-500/30 rounded-2xl p-4 w-full max-w-sm text-center">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-white font-bold">{t.responseTitle}</h3>
+        <button onClick={onClose} className="text-white/60 hover:text-white">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {phase === 'ready' && (
+        <>
+          <p className="text-slate-300 text-sm mb-4">{t.responseIntro}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => onStart('sweep')}
+              className="bg-sky-600 hover:bg-sky-500 text-white py-3 rounded-xl font-bold"
+            >
+              {t.sweep}
+            </button>
+            <button
+              onClick={() => onStart('pink_noise')}
+              className="bg-white/10 hover:bg-white/20 text-white py-3 rounded-xl font-bold"
+            >
+              {t.pinkNoise}
+            </button>
+          </div>
+        </>
+      )}
+
+      {phase === 'measuring' && (
+        <p className="text-sky-300 font-bold animate-pulse">{t.responseMeasuring}</p>
+      )}
+
+      {phase === 'result' && response && (
+        <>
+          <FrequencyResponseChart points={response.points} />
+          <div className="grid grid-cols-3 gap-2 mt-3 text-sm">
+            <div className="bg-orange-500/10 rounded-lg py-1">
+              <div className="text-white/60 text-xs">Bass</div>
+              <div className="text-white font-bold" dir="ltr">{response.bassDb} dB</div>
+            </div>
+            <div className="bg-white/5 rounded-lg py-1">
+              <div className="text-white/60 text-xs">Mid</div>
+              <div className="text-white font-bold" dir="ltr">{response.midDb} dB</div>
+            </div>
+            <div className="bg-sky-500/10 rounded-lg py-1">
+              <div className="text-white/60 text-xs">Treble</div>
+              <div className="text-white font-bold" dir="ltr">{response.trebleDb} dB</div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { HandRaisedIcon, SpeakerWaveIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Language, uiStrings } from '../utils/i18n';
+
+export type ReverbTestPhase = 'idle' | 'ready' | 'listening';
+
+interface ReverbTestPanelProps {
+  phase: ReverbTestPhase;
+  language: Language;
+  onClap: () => void;
+  onBurst: () => void;
+  onCancel: () => void;
+}
+
+export const ReverbTestPanel: React.FC<ReverbTestPanelProps> = ({ phase, language, onClap, onBurst, onCancel }) => {
+  if (phase === 'idle') return null;
+  const t = uiStrings(language).panels;
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-xl border border-purple-500/30 rounded-2xl p-4 w-full max-w-sm text-center">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-white font-bold">{t.reverbTitle}</h3>
+        <button onClick={onCancel} className="text-white/60 hover:text-white">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {phase === 'ready' && (
+        <>
+          <p className="text-slate-300 text-sm mb-4">{t.reverbIntro}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={onClap}
+              className="flex flex-col items-center gap-1 bg-purple-600 hover:bg-purple-500 text-white py-3 rounded-xl font-bold"
+            >
+              <HandRaisedIcon className="w-6 h-6" />
+              {t.clapNow}
+            </button>
+            <button
+              onClick={onBurst}
+              className="flex flex-col items-center gap-1 bg-white/10 hover:bg-white/20 text-white py-3 rounded-xl font-bold"
+            >
+              <SpeakerWaveIcon className="w-6 h-6" />
+              {t.playBurst}
+            </button>
+          </div>
+        </>
+      )}
+
+      {phase === 'listening' && (
+        <p className="text-purple-300 font-bold animate-pulse">{t.reverbListening}</p>
+      )}
+    </div>
+  );
+};
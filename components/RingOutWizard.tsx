@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeftIcon, CheckCircleIcon, ExclamationTriangleIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { EqLayoutId, FeedbackDetection, MixerProfile, RingOutNotch } from '../types';
+import { createFeedbackDetector, FEEDBACK_FFT_SIZE } from '../utils/feedbackDetector';
+import { UNPROCESSED_AUDIO } from '../utils/localMeasurements';
+import { fftSizeForRate } from '../utils/spectrum';
+import { addRingDetection, clearRingOut, loadRingOut, saveRingOut } from '../utils/ringOut';
+import { EQ_LAYOUTS, notchesToInstructions } from '../utils/eqLayouts';
+import { Language, uiStrings } from '../utils/i18n';
+
+interface RingOutWizardProps {
+  profile: MixerProfile | null;
+  language: Language;
+  onExit: () => void;
+}
+
+type WizardStep = 'setup' | 'listening' | 'result';
+
+const STEPS: WizardStep[] = ['setup', 'listening', 'result'];
+
+const ANALYSIS_INTERVAL_MS = 100;
+// After a ring is captured the user needs time to pull the gain back
+const CAPTURE_COOLDOWN_MS = 3000;
+// Mixer EQs rarely reach above this
+const MAX_RING_FREQUENCY = 12000;
+
+export const RingOutWizard: React.FC<RingOutWizardProps> = ({ profile, language, onExit }) => {
+  const strings = uiStrings(language);
+  const t = strings.ringOut;
+  const [saved] = useState(loadRingOut);
+  const [step, setStep] = useState<WizardStep>('setup');
+  const [eqLayout, setEqLayout] = useState<EqLayoutId>(profile?.eqLayout ?? saved?.eqLayout ?? 'three_band');
+  const [notches, setNotches] = useState<RingOutNotch[]>(saved?.notches ?? []);
+  const [lastRing, setLastRing] = useState<FeedbackDetection | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const intervalRef = useRef<number | null>(null);
+  const lastCaptureRef = useRef<number>(0);
+
+  const stopListening = useCallback(() => {
+    if (intervalRef.current) clearInterval(intervalRef.current);
+    intervalRef.current = null;
+    if (streamRef.current) streamRef.current.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (audioContextRef.current) audioContextRef.current.close();
+    audioContextRef.current = null;
+  }, []);
+
+  const startListening = async () => {
+    try {
+      setErrorMessage('');
+      // Processing would hide the very ringing we are trying to find
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: UNPROCESSED_AUDIO });
+      streamRef.current = stream;
+
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      audioContextRef.current = ctx;
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = fftSizeForRate(ctx.sampleRate, FEEDBACK_FFT_SIZE);
+      analyser.smoothingTimeConstant = 0.3;
+      ctx.createMediaStreamSource(stream).connect(analyser);
+
+      const detector = createFeedbackDetector({
+        sampleRate: ctx.sampleRate,
+        fftSize: analyser.fftSize,
+        maxFrequency: MAX_RING_FREQUENCY,
+        minFrames: 3
+      });
+      const spectrum = new Float32Array(analyser.frequencyBinCount);
+
+      intervalRef.current = window.setInterval(() => {
+        analyser.getFloatFrequencyData(spectrum);
+        const detection = detector.analyze(spectrum);
+        if (!detection || detection.detectedAt - lastCaptureRef.current < CAPTURE_COOLDOWN_MS) return;
+
+        lastCaptureRef.current = detection.detectedAt;
+        detector.reset();
+        setNotches(prev => addRingDetection(prev, detection));
+        setLastRing(detection);
+        navigator.vibrate?.(200);
+      }, ANALYSIS_INTERVAL_MS);
+
+      setStep('listening');
+    } catch (error) {
+      console.error('Ring-out setup error:', error);
+      setErrorMessage(t.micUnavailable);
+    }
+  };
+
+  const finish = () => {
+    stopListening();
+    saveRingOut(eqLayout, notches);
+    setStep('result');
+  };
+
+  const clearList = () => {
+    clearRingOut();
+    setNotches([]);
+    setLastRing(null);
+  };
+
+  useEffect(() => stopListening, [stopListening]);
+
+  const instructions = notchesToInstructions(notches, eqLayout, language);
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-50 flex flex-col font-sans">
+      <header className="flex items-center justify-between p-4">
+        <button
+          onClick={() => { stopListening(); onExit(); }}
+          className="bg-white/10 p-2 rounded-full text-white hover:bg-white/20"
+        >
+          <ArrowLeftIcon className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-bold">{t.title}</h1>
+        <div className="flex gap-1">
+          {STEPS.map(s => (
+            <div key={s} className={`w-2 h-2 rounded-full ${s === step ? 'bg-emerald-400' : 'bg-white/20'}`} />
+          ))}
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col p-6 max-w-md mx-auto w-full">
+        {step === 'setup' && (
+          <>
+            <h2 className="text-xl font-bold mb-3">{t.setupTitle}</h2>
+            <ol className="list-decimal ps-5 space-y-2 text-slate-300 mb-6 leading-relaxed">
+              {t.setupSteps.map(text => <li key={text}>{text}</li>)}
+            </ol>
+
+            <p className="text-sm text-slate-400 mb-2">{t.eqType}</p>
+            <div className="space-y-2 mb-6">
+              {EQ_LAYOUTS.map(layout => (
+                <button
+                  key={layout}
+                  onClick={() => setEqLayout(layout)}
+                  className={`w-full text-start p-3 rounded-xl border transition-colors ${
+                    eqLayout === layout ? 'border-emerald-500 bg-emerald-500/10' : 'border-slate-700 bg-slate-800/50'
+                  }`}
+                >
+                  <div className="font-bold">{strings.eq.layouts[layout].label}</div>
+                  <div className="text-xs text-slate-400">{strings.eq.layouts[layout].description}</div>
+                </button>
+              ))}
+            </div>
+
+            {notches.length > 0 && (
+              <p className="text-xs text-slate-400 mb-4">{t.savedCount(notches.length)}</p>
+            )}
+
+            {errorMessage && <p className="text-red-400 text-sm mb-4">{errorMessage}</p>}
+
+            <button
+              onClick={startListening}
+              className="mt-auto w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-4 rounded-2xl"
+            >
+              {t.startListening}
+            </button>
+          </>
+        )}
+
+        {step === 'listening' && (
+          <>
+            <h2 className="text-xl font-bold mb-3">{t.raiseTitle}</h2>
+            <p className="text-slate-300 mb-6 leading-relaxed">{t.raiseHint}</p>
+
+            <div className={`rounded-2xl p-6 text-center mb-6 border ${
+              lastRing ? 'bg-red-500/10 border-red-500/40' : 'bg-slate-800/50 border-slate-700'
+            }`}>
+              {lastRing ? (
+                <>
+                  <ExclamationTriangleIcon className="w-12 h-12 mx-auto text-red-400 mb-2" />
+                  <p className="text-2xl font-bold text-red-300" dir="ltr">{lastRing.frequency} Hz</p>
+                  <p className="text-sm text-slate-300 mt-2">{t.captured}</p>
+                </>
+              ) : (
+                <p className="text-slate-400 animate-pulse">{t.listening}</p>
+              )}
+            </div>
+
+            <p className="text-sm text-slate-400 mb-2">{t.recordedCount(notches.length)}</p>
+            <div className="flex flex-wrap gap-2 mb-6" dir="ltr">
+              {notches.map(n => (
+                <span key={n.frequency} className="bg-white/10 px-2 py-1 rounded-lg text-xs">
+                  {n.frequency} Hz ×{n.hits}
+                </span>
+              ))}
+            </div>
+
+            <button
+              onClick={finish}
+              className="mt-auto w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-4 rounded-2xl"
+            >
+              {t.finish}
+            </button>
+          </>
+        )}
+
+        {step === 'result' && (
+          <>
+            <h2 className="text-xl font-bold mb-3">{t.resultTitle}</h2>
+            {notches.length === 0 ? (
+              <div className="text-center text-slate-300 py-8">
+                <CheckCircleIcon className="w-12 h-12 mx-auto text-emerald-400 mb-2" />
+                {t.noFeedback}
+              </div>
+            ) : (
+              <ul className="space-y-3 mb-6">
+                {notches.map((notch, i) => (
+                  <li key={notch.frequency} className="bg-slate-800/50 border border-slate-700 rounded-xl p-3">
+                    <div className="flex justify-between text-sm text-slate-400 mb-1">
+                      <span dir="ltr">{notch.frequency} Hz</span>
+                      <span dir="ltr">-{notch.cutDb} dB</span>
+                    </div>
+                    <p className="text-white">{instructions[i]}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mt-auto grid grid-cols-2 gap-3">
+              <button
+                onClick={clearList}
+                className="flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 py-3 rounded-xl"
+              >
+                <TrashIcon className="w-5 h-5" />
+                {t.clearList}
+              </button>
+              <button
+                onClick={() => setStep('setup')}
+                className="bg-emerald-600 hover:bg-emerald-500 py-3 rounded-xl font-bold"
+              >
+                {t.newRound}
+              </button>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
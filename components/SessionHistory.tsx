@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ArrowLeftIcon,
+  DocumentTextIcon,
+  CodeBracketIcon,
+  TrashIcon,
+  ExclamationCircleIcon
+} from '@heroicons/react/24/outline';
+import { SessionRecord } from '../types';
+import {
+  listSessions,
+  deleteSession,
+  eventsOfType,
+  sessionDurationMinutes,
+  sessionToJson,
+  sessionToSummary,
+  downloadTextFile
+} from '../utils/sessionHistory';
+import { Language, languageInfo, uiStrings } from '../utils/i18n';
+
+interface SessionHistoryProps {
+  language: Language;
+  onExit: () => void;
+}
+
+const fileStamp = (ts: number) => new Date(ts).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({ language, onExit }) => {
+  const strings = uiStrings(language);
+  const t = strings.history;
+  const { locale } = languageInfo(language);
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+  const [selected, setSelected] = useState<SessionRecord | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const formatDateTime = (ts: number) =>
+    new Date(ts).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+  const formatTime = (ts: number) =>
+    new Date(ts).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => {
+        console.error('Could not load session history', e);
+        setLoadFailed(true);
+        setSessions([]);
+      });
+  }, []);
+
+  const remove = async (record: SessionRecord) => {
+    await deleteSession(record.id);
+    setSessions(prev => prev?.filter(s => s.id !== record.id) ?? null);
+    setSelected(null);
+  };
+
+  const exportJson = (record: SessionRecord) =>
+    downloadTextFile(`session-${fileStamp(record.startedAt)}.json`, sessionToJson(record), 'application/json');
+  const exportText = (record: SessionRecord) =>
+    downloadTextFile(`session-${fileStamp(record.startedAt)}.txt`, sessionToSummary(record, language), 'text/plain');
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-50 flex flex-col font-sans">
+      <header className="flex items-center gap-3 p-4">
+        <button
+          onClick={selected ? () => setSelected(null) : onExit}
+          className="bg-white/10 p-2 rounded-full text-white hover:bg-white/20"
+        >
+          <ArrowLeftIcon className="w-6 h-6" />
+        </button>
+        <h1 className="text-lg font-bold">{selected ? formatDateTime(selected.startedAt) : t.title}</h1>
+      </header>
+
+      <main className="flex-1 p-4 max-w-md mx-auto w-full">
+        {loadFailed && <p className="text-red-400 text-sm mb-4">{t.loadError}</p>}
+
+        {!selected && sessions === null && <p className="text-slate-400 text-center">{t.loading}</p>}
+
+        {!selected && sessions?.length === 0 && (
+          <p className="text-slate-400 text-center py-12">{t.empty}</p>
+        )}
+
+        {!selected && sessions && sessions.length > 0 && (
+          <ul className="space-y-3">
+            {sessions.map(record => (
+              <li key={record.id}>
+                <button
+                  onClick={() => setSelected(record)}
+                  className="w-full text-start bg-slate-800/50 hover:bg-slate-800 border border-slate-700 rounded-xl p-4"
+                >
+                  <div className="font-bold">{formatDateTime(record.startedAt)}</div>
+                  <div className="text-xs text-slate-400 mt-1 flex gap-3">
+                    <span>{t.minutes(sessionDurationMinutes(record))}</span>
+                    <span>{t.adjustments(eventsOfType(record, 'instruction').length)}</span>
+                    {eventsOfType(record, 'error').length > 0 && (
+                      <span className="text-red-400">{t.errors(eventsOfType(record, 'error').length)}</span>
+                    )}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selected && (
+          <>
+            <div className="grid grid-cols-3 gap-2 mb-6">
+              <button
+                onClick={() => exportText(selected)}
+                className="flex flex-col items-center gap-1 bg-emerald-600 hover:bg-emerald-500 py-3 rounded-xl text-sm font-bold"
+              >
+                <DocumentTextIcon className="w-5 h-5" />
+                {t.textSummary}
+              </button>
+              <button
+                onClick={() => exportJson(selected)}
+                className="flex flex-col items-center gap-1 bg-white/10 hover:bg-white/20 py-3 rounded-xl text-sm"
+              >
+                <CodeBracketIcon className="w-5 h-5" />
+                JSON
+              </button>
+              <button
+                onClick={() => remove(selected)}
+                className="flex flex-col items-center gap-1 bg-red-500/10 hover:bg-red-500/20 text-red-300 py-3 rounded-xl text-sm"
+              >
+                <TrashIcon className="w-5 h-5" />
+                {t.delete}
+              </button>
+            </div>
+
+            <ol className="space-y-2">
+              {selected.events.map((event, i) => (
+                <li key={i} className="flex gap-3 text-sm">
+                  <span className="text-slate-500 shrink-0 w-16" dir="ltr">{formatTime(event.at)}</span>
+                  {event.type === 'instruction' && (
+                    <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg px-3 py-2 flex-1">
+                      <div className="text-xs text-blue-300 mb-1">
+                        {event.source === 'ai' ? t.byEngineer : t.byAnalysis} · {event.action}
+                      </div>
+                      {event.message}
+                    </div>
+                  )}
+                  {event.type === 'transcript' && (
+                    <p className={`flex-1 ${event.speaker === 'user' ? 'text-slate-300' : 'text-emerald-200'}`}>
+                      <span className="font-bold">{event.speaker === 'user' ? t.user : t.engineer}: </span>
+                      {event.text}
+                      {event.typed && <span className="text-white/40"> ⌨</span>}
+                    </p>
+                  )}
+                  {event.type === 'step_outcome' && (
+                    <p className="flex-1 text-slate-300">
+                      {t.stepAnswer(event.action)}: {strings.analysis.outcomes[event.outcome]}
+                    </p>
+                  )}
+                  {event.type === 'verification' && (
+                    <p className="flex-1 text-emerald-300">
+                      {t.beforeAfter(event.action)}: {strings.analysis.verdicts[event.verdict]}
+                    </p>
+                  )}
+                  {event.type === 'error' && (
+                    <p className="flex-1 text-red-300 flex items-center gap-1">
+                      <ExclamationCircleIcon className="w-4 h-4 shrink-0" />
+                      {event.message}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -1,28 +1,134 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { LevelReading } from '../types';
+import { createLevelMeter } from '../utils/levelMeter';
+import { binToFrequency } from '../utils/spectrum';
+import { Language, uiStrings } from '../utils/i18n';
 
 interface VisualizerProps {
-  active: boolean;
+  input: AnalyserNode | null;
+  output: AnalyserNode | null;
+  language: Language;
+  showSpectrum?: boolean;
   label?: string;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ active, label }) => {
+// Meter scale in dBFS
+const METER_FLOOR_DB = -60;
+const METER_WARN_DB = -18;
+const METER_HOT_DB = -6;
+// Readings refresh at about 20 fps; the spectrum redraws every animation frame
+const READING_INTERVAL_MS = 50;
+// Spectrum view: log frequency axis and dB range
+const SPECTRUM_MIN_HZ = 50;
+const SPECTRUM_FLOOR_DB = -100;
+const SPECTRUM_CEIL_DB = -20;
+
+const meterPercent = (db: number) =>
+  Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+const meterColor = (db: number) =>
+  db >= METER_HOT_DB ? 'bg-red-500' : db >= METER_WARN_DB ? 'bg-yellow-400' : 'bg-emerald-400';
+
+const Meter: React.FC<{ title: string; reading: LevelReading | null; showClip: boolean }> = ({ title, reading, showClip }) => {
+  const level = reading?.levelDb ?? METER_FLOOR_DB;
+  const peak = reading?.peakDb ?? METER_FLOOR_DB;
+
   return (
-    <div className="flex flex-col items-center justify-center space-y-2">
-      <div className="flex items-end justify-center h-12 space-x-1 space-x-reverse">
-        {[...Array(5)].map((_, i) => (
-          <div
-            key={i}
-            className={`w-2 bg-emerald-400 rounded-t-sm transition-all duration-150 ease-in-out ${
-              active ? 'animate-pulse' : 'h-1 opacity-30'
-            }`}
-            style={{
-              height: active ? `${Math.random() * 100}%` : '4px',
-              animationDelay: `${i * 0.1}s`
-            }}
-          />
-        ))}
+    <div className="w-full">
+      <div className="flex items-center justify-between text-[10px] text-white/70 mb-0.5">
+        <span>{title}</span>
+        <span className="flex items-center gap-2" dir="ltr">
+          {Math.max(METER_FLOOR_DB, Math.round(level))} dB
+          {showClip && (
+            <span className={`px-1 rounded font-bold ${reading?.clipping ? 'bg-red-600 text-white' : 'bg-white/10 text-white/30'}`}>
+              CLIP
+            </span>
+          )}
+        </span>
+      </div>
+      {/* Left to right regardless of page direction, like a hardware meter */}
+      <div className="relative h-2 bg-white/10 rounded-full overflow-hidden" dir="ltr">
+        <div className={`h-full ${meterColor(level)} transition-[width] duration-75`} style={{ width: `${meterPercent(level)}%` }} />
+        <div className="absolute top-0 h-full w-0.5 bg-white/80" style={{ left: `${meterPercent(peak)}%` }} />
       </div>
+    </div>
+  );
+};
+
+/** Live input and output meters, with an optional spectrum of the microphone. */
+export const Visualizer: React.FC<VisualizerProps> = ({ input, output, language, showSpectrum = false, label }) => {
+  const t = uiStrings(language).panels;
+  const [inputReading, setInputReading] = useState<LevelReading | null>(null);
+  const [outputReading, setOutputReading] = useState<LevelReading | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!input && !output) return;
+
+    const inputMeter = createLevelMeter();
+    const outputMeter = createLevelMeter();
+    const inputSamples = input ? new Float32Array(input.fftSize) : null;
+    const outputSamples = output ? new Float32Array(output.fftSize) : null;
+    const spectrum = input ? new Float32Array(input.frequencyBinCount) : null;
+    let lastReading = 0;
+    let frame = 0;
+
+    const drawSpectrum = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx || !input || !spectrum) return;
+
+      input.getFloatFrequencyData(spectrum);
+      const { width, height } = canvas;
+      const nyquist = input.context.sampleRate / 2;
+      const logMin = Math.log10(SPECTRUM_MIN_HZ);
+      const logSpan = Math.log10(nyquist) - logMin;
+
+      ctx.clearRect(0, 0, width, height);
+      ctx.beginPath();
+      ctx.moveTo(0, height);
+      for (let bin = 1; bin < spectrum.length; bin++) {
+        const frequency = binToFrequency(bin, input.context.sampleRate, input.fftSize);
+        if (frequency < SPECTRUM_MIN_HZ) continue;
+        const x = ((Math.log10(frequency) - logMin) / logSpan) * width;
+        const level = (spectrum[bin] - SPECTRUM_FLOOR_DB) / (SPECTRUM_CEIL_DB - SPECTRUM_FLOOR_DB);
+        ctx.lineTo(x, height - Math.max(0, Math.min(1, level)) * height);
+      }
+      ctx.lineTo(width, height);
+      ctx.closePath();
+      ctx.fillStyle = 'rgba(52, 211, 153, 0.35)';
+      ctx.strokeStyle = 'rgb(52, 211, 153)';
+      ctx.fill();
+      ctx.stroke();
+    };
+
+    const tick = (now: number) => {
+      if (input && inputSamples) input.getFloatTimeDomainData(inputSamples);
+      if (output && outputSamples) output.getFloatTimeDomainData(outputSamples);
+      const inputLevel = inputSamples ? inputMeter.update(inputSamples, now) : null;
+      const outputLevel = outputSamples ? outputMeter.update(outputSamples, now) : null;
+
+      if (now - lastReading >= READING_INTERVAL_MS) {
+        lastReading = now;
+        setInputReading(inputLevel);
+        setOutputReading(outputLevel);
+      }
+      if (showSpectrum) drawSpectrum();
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [input, output, showSpectrum]);
+
+  return (
+    <div className="flex flex-col items-center justify-center space-y-2 w-64">
+      <Meter title={t.microphone} reading={inputReading} showClip />
+      <Meter title={t.engineerVoice} reading={outputReading} showClip={false} />
+      {showSpectrum && (
+        <canvas ref={canvasRef} width={256} height={64} className="w-full h-16 bg-black/40 rounded-lg" />
+      )}
       {label && <span className="text-xs text-emerald-200 font-medium">{label}</span>}
     </div>
   );
-};
\ No newline at end of file
+};
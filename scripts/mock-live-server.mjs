@@ -0,0 +1,143 @@
+// Local stand-in for the Gemini Live API, for working on the app without
+// network or an API key. Plays a scripted scenario to every client.
+//
+//   npm run mock-server [-- scenario.json] [--port 8787]
+//
+// Then start the app with VITE_LIVE_BACKEND=mock.
+//
+// A scenario is JSON:
+//   {
+//     "onConnect": [step, ...],
+//     "onText": [{ "match": "USER_ACTION", "steps": [step, ...] }],
+//     "onToolResponse": [step, ...]
+//   }
+// and each step waits "delayMs" and then sends any of:
+//   "say":       { "text": "...", "durationMs": 800, "frequency": 440 }  spoken reply (a tone) with its transcript
+//   "toolCall":  { "name": "displayInstruction", "args": { ... } }
+//   "message":   any raw LiveServerMessage object
+//   "interrupt": true
+//   "disconnect": true                                           drops the connection, to test reconnecting
+
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { WebSocketServer } from 'ws';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const here = dirname(fileURLToPath(import.meta.url));
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const port = portIndex >= 0 ? Number(args[portIndex + 1]) : 8787;
+const scenarioPath = args.find((arg, i) => !arg.startsWith('--') && (portIndex < 0 || i !== portIndex + 1))
+  ?? resolve(here, 'mock-scenarios/default.json');
+const scenario = JSON.parse(readFileSync(scenarioPath, 'utf8'));
+
+// 16-bit PCM sine tone with short fades, base64 encoded like the real API
+function tone(frequency, durationMs) {
+  const length = Math.round((OUTPUT_SAMPLE_RATE * durationMs) / 1000);
+  const fade = Math.min(length / 2, OUTPUT_SAMPLE_RATE * 0.02);
+  const pcm = Buffer.alloc(length * 2);
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fade, (length - i) / fade);
+    const sample = 0.3 * envelope * Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE);
+    pcm.writeInt16LE(Math.round(sample * 32767), i * 2);
+  }
+  return pcm.toString('base64');
+}
+
+let callCounter = 0;
+
+function stepToMessages(step) {
+  const messages = [];
+  if (step.say) {
+    const { text, durationMs = 800, frequency = 440 } = step.say;
+    if (text) messages.push({ serverContent: { outputTranscription: { text } } });
+    messages.push({
+      serverContent: {
+        modelTurn: {
+          parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: tone(frequency, durationMs) } }]
+        }
+      }
+    });
+    messages.push({ serverContent: { turnComplete: true } });
+  }
+  if (step.toolCall) {
+    callCounter++;
+    messages.push({
+      toolCall: {
+        functionCalls: [{ id: `mock-call-${callCounter}`, name: step.toolCall.name, args: step.toolCall.args ?? {} }]
+      }
+    });
+  }
+  if (step.interrupt) {
+    messages.push({ serverContent: { interrupted: true } });
+  }
+  if (step.message) {
+    messages.push(step.message);
+  }
+  return messages;
+}
+
+async function play(socket, steps = []) {
+  for (const step of steps) {
+    await new Promise(done => setTimeout(done, step.delayMs ?? 0));
+    if (socket.readyState !== socket.OPEN) return;
+    for (const message of stepToMessages(step)) {
+      socket.send(JSON.stringify(message));
+    }
+    if (step.disconnect) {
+      socket.close(1001, 'Scripted disconnect');
+      return;
+    }
+  }
+}
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', socket => {
+  console.log('Client connected');
+
+  socket.on('message', raw => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      console.warn('Ignoring invalid message');
+      return;
+    }
+
+    switch (message.type) {
+      case 'setup':
+        console.log(`Setup: ${message.tools.length} tools (${message.tools.join(', ')})`);
+        play(socket, scenario.onConnect);
+        break;
+      case 'text': {
+        console.log(`Text: ${message.text}`);
+        const rule = (scenario.onText ?? []).find(r => message.text.includes(r.match));
+        if (rule) play(socket, rule.steps);
+        break;
+      }
+      case 'toolResponse':
+        console.log('Tool response:', JSON.stringify(message.functionResponses));
+        play(socket, scenario.onToolResponse);
+        break;
+      // Audio and frames arrive continuously; only count them
+      case 'audio':
+        socket.audioChunks = (socket.audioChunks ?? 0) + 1;
+        break;
+      case 'image':
+        socket.frames = (socket.frames ?? 0) + 1;
+        break;
+      case 'audioStreamEnd':
+        socket.audioPauses = (socket.audioPauses ?? 0) + 1;
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    console.log(`Client disconnected after ${socket.audioChunks ?? 0} audio chunks (${socket.audioPauses ?? 0} pauses) and ${socket.frames ?? 0} frames`);
+  });
+});
+
+console.log(`Mock live server on ws://localhost:${port} playing ${scenarioPath}`);
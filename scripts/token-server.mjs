@@ -0,0 +1,188 @@
+// Companion server that keeps the Gemini API key off the phone. The app asks
+// it for a short-lived, single-use token before each Live API connection.
+//
+//   npm run token-server [-- --port 8788]
+//
+// Settings come from the environment or from .env.local:
+//   GEMINI_API_KEY        the real key (required)
+//   ALLOWED_ORIGINS       comma-separated origins allowed to ask for tokens
+//                         (default http://localhost:3000)
+//   TOKEN_APP_KEY         if set, requests must send it in X-App-Key; the app
+//                         reads it from VITE_TOKEN_APP_KEY
+//   TOKENS_PER_DEVICE     tokens one device may get per hour (default 30)
+//   TOKENS_PER_IP         tokens one address may get per hour (default 120);
+//                         a mosque's phones often share one address
+//   TRUST_PROXY           set to 1 behind a reverse proxy, so the address
+//                         limit uses the client address the proxy appended to
+//                         X-Forwarded-For rather than the proxy's own address.
+//                         Leave it unset otherwise, or clients can pick their
+//                         own address
+//
+// The origin allow-list and the app key only keep out casual misuse: any
+// script can send an allowed Origin header, and the app key is public because
+// it is bundled into the app. The per-device and per-address limits are what
+// actually cap how many tokens anyone can get.
+//
+// POST /api/live-token  { "deviceId": "<uuid>" }
+//   -> { "token": "...", "model": "...", "expiresAt": "<ISO time>" }
+
+import { existsSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoogleGenAI } from '@google/genai';
+
+// The only model tokens are issued for; the app connects to whatever is returned
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+// A new session must start within a minute of the token; the session itself
+// may run for half an hour, after which the app reconnects with a new token
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const SESSION_WINDOW_MS = 30 * 60 * 1000;
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+const MAX_BODY_BYTES = 1024;
+const DEVICE_ID_PATTERN = /^[0-9a-f-]{16,64}$/i;
+
+const here = dirname(fileURLToPath(import.meta.url));
+const envFile = resolve(here, '../.env.local');
+if (existsSync(envFile)) process.loadEnvFile(envFile);
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const port = portIndex >= 0 ? Number(args[portIndex + 1]) : Number(process.env.TOKEN_SERVER_PORT ?? 8788);
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Put it in .env.local or the environment.');
+  process.exit(1);
+}
+const allowedOrigins = (process.env.ALLOWED_ORIGINS ?? 'http://localhost:3000').split(',').map(o => o.trim()).filter(Boolean);
+const appKey = process.env.TOKEN_APP_KEY || null;
+const tokensPerDevice = Number(process.env.TOKENS_PER_DEVICE ?? 30);
+const tokensPerIp = Number(process.env.TOKENS_PER_IP ?? 120);
+const trustProxy = process.env.TRUST_PROXY === '1';
+
+const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+// Sliding one-hour windows, kept in memory; a restart forgives everyone
+const issued = new Map();
+
+// Seconds until the key may have another token, or 0 if it may have one now
+function secondsUntilFree(key, limit, now) {
+  const recent = (issued.get(key) ?? []).filter(at => now - at < RATE_WINDOW_MS);
+  issued.set(key, recent);
+  return recent.length >= limit ? Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000) : 0;
+}
+
+// Checks every limit before counting against any, so a request refused by one
+// limit does not use up the others
+function takeFromLimits(limits, now) {
+  const retryAfter = Math.max(...limits.map(([key, limit]) => secondsUntilFree(key, limit, now)));
+  if (retryAfter === 0) limits.forEach(([key]) => issued.get(key).push(now));
+  return retryAfter;
+}
+
+function clientAddress(req) {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    // Only the last entry was added by our proxy; earlier ones come from the client
+    const last = forwarded.split(',').pop().trim();
+    if (last) return last;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+// Forget keys with nothing left in their window
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, times] of issued) {
+    if (times.every(at => now - at >= RATE_WINDOW_MS)) issued.delete(key);
+  }
+}, RATE_WINDOW_MS).unref();
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((done, fail) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        fail(new Error('Body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => done(body));
+    req.on('error', fail);
+  });
+}
+
+async function issueToken(req, res) {
+  let deviceId;
+  try {
+    deviceId = JSON.parse(await readBody(req)).deviceId;
+  } catch {
+    return send(res, 400, { error: 'Invalid request' });
+  }
+  if (typeof deviceId !== 'string' || !DEVICE_ID_PATTERN.test(deviceId)) {
+    return send(res, 400, { error: 'Invalid device id' });
+  }
+
+  const now = Date.now();
+  const ip = clientAddress(req);
+  const retryAfter = takeFromLimits([[`device:${deviceId}`, tokensPerDevice], [`ip:${ip}`, tokensPerIp]], now);
+  if (retryAfter > 0) {
+    console.warn(`Rate limited ${deviceId} from ${ip}`);
+    return send(res, 429, { error: 'Too many sessions', retryAfter }, { 'Retry-After': String(retryAfter) });
+  }
+
+  try {
+    const expiresAt = new Date(now + SESSION_WINDOW_MS).toISOString();
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expiresAt,
+        newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+        liveConnectConstraints: { model: LIVE_MODEL }
+      }
+    });
+    console.log(`Token for ${deviceId} from ${ip}`);
+    send(res, 200, { token: token.name, model: LIVE_MODEL, expiresAt });
+  } catch (e) {
+    console.error('Could not create a token', e);
+    send(res, 502, { error: 'Could not create a token' });
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  // Browsers always send Origin on these requests; anything else is not the app
+  if (!origin || !allowedOrigins.includes(origin)) {
+    return send(res, 403, { error: 'Origin not allowed' });
+  }
+  const cors = {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': 'Content-Type, X-App-Key',
+    'Access-Control-Allow-Methods': 'POST',
+    Vary: 'Origin'
+  };
+  for (const [name, value] of Object.entries(cors)) res.setHeader(name, value);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+  if (req.method !== 'POST' || req.url !== '/api/live-token') {
+    return send(res, 404, { error: 'Not found' });
+  }
+  if (appKey && req.headers['x-app-key'] !== appKey) {
+    return send(res, 401, { error: 'Unknown app' });
+  }
+  await issueToken(req, res);
+});
+
+server.listen(port, () => {
+  console.log(`Token server on http://localhost:${port} for ${allowedOrigins.join(', ')}`);
+});
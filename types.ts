@@ -2,6 +2,7 @@ export enum ConnectionStatus {
   DISCONNECTED = 'disconnected',
   CONNECTING = 'connecting',
   CONNECTED = 'connected',
+  RECONNECTING = 'reconnecting',
   ERROR = 'error'
 }
 
@@ -9,7 +10,227 @@ export interface AudioVisualizerProps {
   isPlaying: boolean;
 }
 
+export interface InstructionDetail {
+  label: string;
+  value: string;
+}
+
+export type ControlType = 'knob' | 'fader';
+
+export type ControlDirection = 'up' | 'down';
+
+// Positions are clock hours (7 = fully left, 12 = centre, 5 = fully right) or dB
+export interface ControlTarget {
+  unit: 'clock' | 'db';
+  from?: number;
+  to: number;
+}
+
 export interface InstructionState {
   action: string;
   message: string;
+  channel?: number;
+  control?: string;
+  controlType?: ControlType;
+  direction?: ControlDirection;
+  target?: ControlTarget;
+  details?: InstructionDetail[];
+}
+
+export interface FeedbackDetection {
+  frequency: number;
+  levelDb: number;
+  growthDb: number;
+  prominenceDb: number;
+  detectedAt: number;
+}
+
+export type HumDiagnosis = 'none' | 'ground_loop' | 'gain_noise';
+
+export interface HumReading {
+  mainsFrequency: 50 | 60;
+  humLevelDb: number;
+  humProminenceDb: number;
+  harmonicsFound: number;
+  hissLevelDb: number;
+  diagnosis: HumDiagnosis;
+}
+
+export interface LevelReading {
+  // Smoothed RMS level and held peak, in dBFS
+  levelDb: number;
+  peakDb: number;
+  clipping: boolean;
+}
+
+export interface AudioSnapshot {
+  rmsDb: number;
+  peakDb: number;
+  // Strongest steady tone (feedback candidate) below 8 kHz, if any
+  tonalPeakHz: number | null;
+  tonalPeakDb: number | null;
+  humLevelDb: number;
+  // Octave-band slope; 0 is balanced like pink noise, negative is bass heavy
+  tiltDbPerOctave: number;
+}
+
+export type ComparisonVerdict = 'better' | 'worse' | 'unchanged' | 'unknown';
+
+export interface SnapshotComparison {
+  action: string;
+  before: AudioSnapshot;
+  after: AudioSnapshot;
+  verdict: ComparisonVerdict;
+}
+
+export type ReverbSource = 'none' | 'mixer_effect' | 'room';
+
+export interface ReverbMeasurement {
+  rt60: number;
+  edt: number;
+  echoDelayMs: number | null;
+  source: ReverbSource;
+  dynamicRangeDb: number;
+}
+
+export type TestSignalType = 'sweep' | 'pink_noise';
+
+export interface FrequencyResponsePoint {
+  frequency: number;
+  db: number;
+}
+
+export interface FrequencyResponse {
+  signal: TestSignalType;
+  points: FrequencyResponsePoint[];
+  bassDb: number;
+  midDb: number;
+  trebleDb: number;
+}
+
+export type EqLayoutId = 'three_band' | 'four_band_sweep' | 'graphic_31' | 'parametric';
+
+export interface RingOutNotch {
+  frequency: number;
+  cutDb: number;
+  hits: number;
+  levelDb: number;
+}
+
+export interface RingOutResult {
+  eqLayout: EqLayoutId;
+  notches: RingOutNotch[];
+  updatedAt: number;
+}
+
+// How the microphone shares the line with the model's voice
+export type ConversationMode = 'push_to_talk' | 'half_duplex' | 'full_duplex';
+
+export type InstructionSource = 'ai' | 'local';
+
+// What the user reported after an instruction card
+export type StepOutcome = 'done' | 'not_helped' | 'not_found';
+
+export interface InstructionStep {
+  id: string;
+  instruction: InstructionState;
+  source: InstructionSource;
+  // One step at a time is active, i.e. on screen
+  status: 'pending' | 'active' | StepOutcome;
+}
+
+// One line of the live captions; transcription arrives in pieces that are joined here
+export interface Caption {
+  id: string;
+  speaker: 'user' | 'ai';
+  text: string;
+  at: number;
+  // Typed in the chat box rather than spoken
+  typed?: boolean;
+  // No more pieces will be added
+  final: boolean;
+}
+
+export type SessionEvent =
+  | { type: 'instruction'; at: number; action: string; message: string; source: InstructionSource }
+  | { type: 'transcript'; at: number; speaker: 'user' | 'ai'; text: string; typed?: boolean }
+  | { type: 'error'; at: number; message: string }
+  | { type: 'step_outcome'; at: number; action: string; outcome: StepOutcome }
+  | { type: 'verification'; at: number; action: string; verdict: ComparisonVerdict; before: AudioSnapshot; after: AudioSnapshot };
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  events: SessionEvent[];
+}
+
+export interface MixerProfile {
+  id: string;
+  mosqueName: string;
+  mixerModel: string;
+  amplifierModel: string;
+  channelCount: number;
+  imamChannel: number;
+  eqLayout: EqLayoutId;
+  eqBands: string[];
+  effects: string[];
+  notes: string;
+  updatedAt: number;
+}
+
+// A setting as the technician read it off the mixer, e.g. "Echo" at "9 o'clock"
+export interface ReferenceSetting {
+  control: string;
+  value: string;
+}
+
+// Known-good state of a mosque's mixer, keyed by its profile
+export interface MixerReference {
+  profileId: string;
+  capturedAt: number;
+  // Base64 JPEG
+  image: string;
+  width: number;
+  height: number;
+  settings: ReferenceSetting[];
+}
+
+// Fractions (0-1) of the video frame
+export interface NormalizedBox {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+}
+
+export interface ControlHighlight {
+  box: NormalizedBox;
+  label: string;
+  // Intrinsic size of the video frame the box refers to
+  frameWidth: number;
+  frameHeight: number;
+}
+
+// One item of a diagnostic recording; t is milliseconds since recording started.
+// Outgoing items are what the app sent, 'server' items what the backend sent back.
+export type DiagnosticEntry =
+  | { t: number; kind: 'connect'; resumed: boolean }
+  | { t: number; kind: 'audio'; mimeType: string; data: string }
+  | { t: number; kind: 'audio_end' }
+  | { t: number; kind: 'image'; data: string }
+  | { t: number; kind: 'text'; text: string; image?: string }
+  | { t: number; kind: 'tool_response'; responses: unknown[] }
+  | { t: number; kind: 'server'; message: unknown }
+  | { t: number; kind: 'closed'; reason?: string };
+
+export interface DiagnosticBundle {
+  format: 'mosque-audio-tuner/diagnostic';
+  version: 1;
+  startedAt: number;
+  language: string;
+  profileId: string | null;
+  // Recording stopped adding entries at the size limit
+  truncated: boolean;
+  entries: DiagnosticEntry[];
 }
@@ -0,0 +1,54 @@
+// The app's IndexedDB database. Each feature keeps its records in its own store.
+
+const DB_NAME = 'mosque-audio-tuner';
+const DB_VERSION = 2;
+export const SESSIONS_STORE = 'sessions';
+export const REFERENCES_STORE = 'references';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(REFERENCES_STORE)) {
+          db.createObjectStore(REFERENCES_STORE, { keyPath: 'profileId' });
+        }
+      };
+      // Another tab still has the old version open; the upgrade waits for it
+      request.onblocked = () => console.warn('Waiting for other tabs of the app to close before upgrading storage');
+      request.onsuccess = () => {
+        const db = request.result;
+        // A newer version of the app wants to upgrade; let it, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function runStoreRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
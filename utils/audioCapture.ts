@@ -0,0 +1,114 @@
+// Microphone capture off the main audio path. An AudioWorklet collects
+// fixed-size chunks at the device rate and posts them to the page; nothing is
+// routed to the speakers.
+
+export interface AudioCaptureOptions {
+  // Chunk length; smaller means lower latency and more messages
+  chunkMs: number;
+  onChunk: (samples: Float32Array) => void;
+}
+
+export interface AudioCapture {
+  // Connect sources here; analysers can tap the same node
+  input: AudioNode;
+  sampleRate: number;
+  close: () => void;
+}
+
+const PROCESSOR_NAME = 'capture-processor';
+
+// Kept as source text so it loads from a Blob URL with any bundler
+const PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.chunk = new Float32Array(options.processorOptions.chunkFrames);
+    this.filled = 0;
+    this.port.onmessage = () => { this.stopped = true; };
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      let offset = 0;
+      while (offset < channel.length) {
+        const count = Math.min(channel.length - offset, this.chunk.length - this.filled);
+        this.chunk.set(channel.subarray(offset, offset + count), this.filled);
+        this.filled += count;
+        offset += count;
+        if (this.filled === this.chunk.length) {
+          this.port.postMessage(this.chunk.slice());
+          this.filled = 0;
+        }
+      }
+    }
+    return !this.stopped;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+// addModule may only run once per context
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function loadProcessor(context: AudioContext) {
+  if (loadedContexts.has(context)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    loadedContexts.add(context);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Creates a capture node on the context; falls back to a ScriptProcessor on old browsers. */
+export async function createAudioCapture(context: AudioContext, options: AudioCaptureOptions): Promise<AudioCapture> {
+  const chunkFrames = Math.max(128, Math.round((context.sampleRate * options.chunkMs) / 1000));
+  const input = context.createGain();
+
+  if (context.audioWorklet) {
+    await loadProcessor(context);
+    // No outputs: the node is pulled by its input alone, so nothing reaches the speakers
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { chunkFrames }
+    });
+    node.port.onmessage = (e: MessageEvent<Float32Array>) => options.onChunk(e.data);
+    input.connect(node);
+
+    return {
+      input,
+      sampleRate: context.sampleRate,
+      close: () => {
+        node.port.postMessage('stop');
+        node.port.onmessage = null;
+        input.disconnect();
+      }
+    };
+  }
+
+  // ScriptProcessor buffer sizes must be powers of two
+  const bufferSize = Math.min(16384, Math.max(256, 2 ** Math.round(Math.log2(chunkFrames))));
+  const processor = context.createScriptProcessor(bufferSize, 1, 1);
+  // It only runs while connected to the destination, so send it there silenced
+  const mute = context.createGain();
+  mute.gain.value = 0;
+  processor.onaudioprocess = e => options.onChunk(new Float32Array(e.inputBuffer.getChannelData(0)));
+  input.connect(processor);
+  processor.connect(mute);
+  mute.connect(context.destination);
+
+  return {
+    input,
+    sampleRate: context.sampleRate,
+    close: () => {
+      processor.onaudioprocess = null;
+      input.disconnect();
+      processor.disconnect();
+      mute.disconnect();
+    }
+  };
+}
@@ -0,0 +1,145 @@
+import { AudioSnapshot, ComparisonVerdict, SnapshotComparison } from '../types';
+import { welchPowerSpectrum } from './fft';
+import { bandPowerDb, fftSizeForRate } from './spectrum';
+import { findTonalPeaks } from './feedbackDetector';
+import { createHumAnalyzer } from './humAnalyzer';
+
+// Short recordings taken before and after an adjustment, and how they compare.
+
+const SILENCE_DB = -120;
+const TONAL_MAX_HZ = 8000;
+// Octave bands used for the spectral tilt
+const TILT_BANDS_HZ = [125, 250, 500, 1000, 2000, 4000];
+
+// Metric each action is expected to move, and the smallest change that counts.
+// Echo changes are not here: reverb time needs an impulse (the clap test), and
+// a snapshot of whatever the room is doing has none.
+const EXPECTED_CHANGE: Record<string, { metric: keyof AudioSnapshot; direction: 'down' | 'up'; minChange: number }> = {
+  fix_buzz: { metric: 'humLevelDb', direction: 'down', minChange: 2 },
+  check_cables: { metric: 'humLevelDb', direction: 'down', minChange: 2 },
+  reduce_gain: { metric: 'tonalPeakDb', direction: 'down', minChange: 2 },
+  reduce_treble: { metric: 'tiltDbPerOctave', direction: 'down', minChange: 0.5 },
+  increase_treble: { metric: 'tiltDbPerOctave', direction: 'up', minChange: 0.5 },
+  reduce_bass: { metric: 'tiltDbPerOctave', direction: 'up', minChange: 0.5 },
+  increase_bass: { metric: 'tiltDbPerOctave', direction: 'down', minChange: 0.5 },
+  increase_volume: { metric: 'rmsDb', direction: 'up', minChange: 1 }
+};
+
+const toDb = (value: number) => (value > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(value)) : SILENCE_DB);
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** Whether the app can check this action with a before/after snapshot. */
+export function isVerifiableAction(action: string): boolean {
+  return action in EXPECTED_CHANGE;
+}
+
+/**
+ * Keeps the most recent microphone audio so a "before" snapshot is
+ * available the moment an instruction appears.
+ */
+export function createSampleHistory(capacity: number) {
+  const buffer = new Float32Array(capacity);
+  let written = 0;
+
+  const push = (chunk: Float32Array) => {
+    const data = chunk.length > capacity ? chunk.subarray(chunk.length - capacity) : chunk;
+    const start = written % capacity;
+    const firstPart = Math.min(data.length, capacity - start);
+    buffer.set(data.subarray(0, firstPart), start);
+    buffer.set(data.subarray(firstPart), 0);
+    written += data.length;
+  };
+
+  const latest = (count: number): Float32Array => {
+    const n = Math.min(count, capacity, written);
+    const out = new Float32Array(n);
+    const start = (written - n) % capacity;
+    const firstPart = Math.min(n, capacity - start);
+    out.set(buffer.subarray(start, start + firstPart));
+    out.set(buffer.subarray(0, n - firstPart), firstPart);
+    return out;
+  };
+
+  return { push, latest };
+}
+
+export type SampleHistory = ReturnType<typeof createSampleHistory>;
+
+export function measureSnapshot(samples: Float32Array, sampleRate: number): AudioSnapshot {
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+
+  // Welch power scaled to roughly match AnalyserNode dBFS, so the live analyzers' thresholds apply
+  const fftSize = Math.min(fftSizeForRate(sampleRate, 8192), 2 ** Math.floor(Math.log2(Math.max(32, samples.length))));
+  const power = welchPowerSpectrum(samples, fftSize);
+  const spectrum = new Float32Array(power.length);
+  for (let k = 0; k < power.length; k++) {
+    spectrum[k] = power[k] > 0 ? 10 * Math.log10(power[k] / (fftSize * fftSize)) : SILENCE_DB;
+  }
+
+  const peaks = findTonalPeaks(spectrum, sampleRate, fftSize, { maxFrequency: Math.min(TONAL_MAX_HZ, sampleRate / 2 - 200) });
+  const strongest = peaks.reduce<typeof peaks[number] | null>((best, p) => (!best || p.levelDb > best.levelDb ? p : best), null);
+
+  const hum = createHumAnalyzer({ sampleRate, fftSize }).analyze(spectrum);
+
+  // Least-squares slope of band level against octave number
+  const bands = TILT_BANDS_HZ
+    .filter(f => f * Math.SQRT2 < sampleRate / 2)
+    .map((f, i) => ({ x: i, y: bandPowerDb(spectrum, sampleRate, fftSize, f / Math.SQRT2, f * Math.SQRT2) }))
+    .filter(b => Number.isFinite(b.y));
+  const meanX = bands.reduce((s, b) => s + b.x, 0) / Math.max(1, bands.length);
+  const meanY = bands.reduce((s, b) => s + b.y, 0) / Math.max(1, bands.length);
+  const covariance = bands.reduce((s, b) => s + (b.x - meanX) * (b.y - meanY), 0);
+  const variance = bands.reduce((s, b) => s + (b.x - meanX) ** 2, 0);
+
+  return {
+    rmsDb: round1(toDb(Math.sqrt(sumSquares / Math.max(1, samples.length)))),
+    peakDb: round1(toDb(peak)),
+    tonalPeakHz: strongest ? Math.round(strongest.frequency) : null,
+    tonalPeakDb: strongest ? round1(strongest.levelDb) : null,
+    humLevelDb: hum.humLevelDb,
+    tiltDbPerOctave: variance > 0 ? round1(covariance / variance) : 0
+  };
+}
+
+export function compareSnapshots(action: string, before: AudioSnapshot, after: AudioSnapshot): SnapshotComparison {
+  const expected = EXPECTED_CHANGE[action];
+  let verdict: ComparisonVerdict = 'unknown';
+
+  if (expected) {
+    let from = before[expected.metric] as number | null;
+    let to = after[expected.metric] as number | null;
+    // A feedback tone that disappeared entirely is the best outcome
+    if (expected.metric === 'tonalPeakDb' && from !== null && to === null) to = SILENCE_DB;
+    if (expected.metric === 'tonalPeakDb' && from === null) {
+      from = before.rmsDb;
+      to = after.rmsDb;
+    }
+    if (from !== null && to !== null) {
+      const change = expected.direction === 'down' ? from - to : to - from;
+      verdict = change >= expected.minChange ? 'better' : change <= -expected.minChange ? 'worse' : 'unchanged';
+    }
+  }
+
+  return { action, before, after, verdict };
+}
+
+/** English summary for the model, in the style of the other [LOCAL_ANALYSIS] messages. */
+export function comparisonToText(comparison: SnapshotComparison): string {
+  const { before, after } = comparison;
+  const pair = (label: string, a: number | null, b: number | null, unit: string) =>
+    `${label} ${a ?? 'n/a'} -> ${b ?? 'n/a'}${unit}`;
+
+  return `Before/after check of "${comparison.action}": ` + [
+    pair('RMS level', before.rmsDb, after.rmsDb, ' dBFS'),
+    pair('peak', before.peakDb, after.peakDb, ' dBFS'),
+    `strongest tone ${before.tonalPeakHz ?? 'none'} Hz (${before.tonalPeakDb ?? 'n/a'} dB) -> ${after.tonalPeakHz ?? 'none'} Hz (${after.tonalPeakDb ?? 'n/a'} dB)`,
+    pair('mains hum', before.humLevelDb, after.humLevelDb, ' dBFS'),
+    pair('spectral tilt', before.tiltDbPerOctave, after.tiltDbPerOctave, ' dB/octave')
+  ].join(', ') + `. Verdict for the expected change: ${comparison.verdict}. ` +
+    'Use this to decide whether to continue adjusting or to show "success".';
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  base64ToUint8Array,
+  createPcmBlob,
+  createPcmStreamDecoder,
+  decodePcm16,
+  encodePcm16,
+  parsePcmMimeType,
+  uint8ArrayToBase64
+} from './audioUtils';
+
+const int16At = (bytes: Uint8Array, index: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getInt16(index * 2, true);
+
+describe('encodePcm16', () => {
+  it('maps full scale to the asymmetric 16-bit range', () => {
+    const bytes = encodePcm16(new Float32Array([1, -1, 0]));
+    expect(int16At(bytes, 0)).toBe(32767);
+    expect(int16At(bytes, 1)).toBe(-32768);
+    expect(int16At(bytes, 2)).toBe(0);
+  });
+
+  it('clips samples beyond full scale', () => {
+    const bytes = encodePcm16(new Float32Array([1.5, -2, Infinity, -Infinity]));
+    expect(int16At(bytes, 0)).toBe(32767);
+    expect(int16At(bytes, 1)).toBe(-32768);
+    expect(int16At(bytes, 2)).toBe(32767);
+    expect(int16At(bytes, 3)).toBe(-32768);
+  });
+
+  it('writes NaN as silence', () => {
+    const bytes = encodePcm16(new Float32Array([NaN, 0.5]));
+    expect(int16At(bytes, 0)).toBe(0);
+    expect(int16At(bytes, 1)).toBe(Math.round(0.5 * 32767));
+  });
+
+  it('interleaves channels', () => {
+    const bytes = encodePcm16([new Float32Array([1, 0]), new Float32Array([-1, 0.25])]);
+    expect(bytes.length).toBe(8);
+    expect([0, 1, 2, 3].map(i => int16At(bytes, i))).toEqual([32767, -32768, 0, Math.round(0.25 * 32767)]);
+  });
+});
+
+describe('decodePcm16', () => {
+  it('decodes a view that starts part way into its buffer', () => {
+    const backing = new Uint8Array(9);
+    // One stray byte, then 0x4000 (16384) and 0x8000 (-32768)
+    backing.set([0xff, 0x00, 0x40, 0x00, 0x80, 0x00, 0x00], 0);
+    const view = backing.subarray(1, 5);
+    expect(view.byteOffset).toBe(1);
+
+    const [samples] = decodePcm16(view);
+    expect(Array.from(samples)).toEqual([0.5, -1]);
+  });
+
+  it('ignores a trailing partial frame', () => {
+    const [left, right] = decodePcm16(new Uint8Array([0, 0x40, 0, 0xc0, 0x01]), 2);
+    expect(Array.from(left)).toEqual([0.5]);
+    expect(Array.from(right)).toEqual([-0.5]);
+  });
+
+  it('round-trips encoded samples to within two steps', () => {
+    const input = new Float32Array([0, 0.1, -0.1, 0.999, -0.999]);
+    const [output] = decodePcm16(encodePcm16(input));
+    input.forEach((sample, i) => expect(Math.abs(output[i] - sample)).toBeLessThanOrEqual(2 / 32768));
+  });
+});
+
+describe('createPcmStreamDecoder', () => {
+  it('keeps a sample split across chunks for the next chunk', () => {
+    const bytes = encodePcm16(new Float32Array([0.5, -0.5, 0.25]));
+    const decoder = createPcmStreamDecoder();
+
+    const [first] = decoder.decode(bytes.subarray(0, 3));
+    const [second] = decoder.decode(bytes.subarray(3));
+    const joined = [...first, ...second];
+
+    expect(first.length).toBe(1);
+    expect(joined).toEqual(Array.from(decodePcm16(bytes)[0]));
+  });
+
+  it('keeps a stereo frame split across chunks', () => {
+    const bytes = encodePcm16([new Float32Array([0.5, 0.25]), new Float32Array([-0.5, -0.25])]);
+    const decoder = createPcmStreamDecoder(2);
+
+    const [leftA, rightA] = decoder.decode(bytes.subarray(0, 5));
+    const [leftB, rightB] = decoder.decode(bytes.subarray(5));
+
+    expect(leftA.length).toBe(1);
+    expect([...leftA, ...leftB]).toEqual(Array.from(decodePcm16(bytes, 2)[0]));
+    expect([...rightA, ...rightB]).toEqual(Array.from(decodePcm16(bytes, 2)[1]));
+  });
+
+  it('drops leftover bytes on reset', () => {
+    const decoder = createPcmStreamDecoder();
+    decoder.decode(new Uint8Array([0x00]));
+    decoder.reset();
+    const [samples] = decoder.decode(new Uint8Array([0x00, 0x40]));
+    expect(Array.from(samples)).toEqual([0.5]);
+  });
+});
+
+describe('base64', () => {
+  it('round-trips buffers larger than one conversion chunk', () => {
+    const bytes = new Uint8Array(200_000);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = (i * 31 + 7) & 0xff;
+
+    const decoded = base64ToUint8Array(uint8ArrayToBase64(bytes));
+    expect(decoded.length).toBe(bytes.length);
+    expect(decoded).toEqual(bytes);
+  });
+
+  it('encodes only the bytes of a view', () => {
+    const backing = new Uint8Array([1, 2, 3, 4, 5]);
+    expect(Array.from(base64ToUint8Array(uint8ArrayToBase64(backing.subarray(1, 4))))).toEqual([2, 3, 4]);
+  });
+});
+
+describe('PCM mime types', () => {
+  it('reads rate and channel count', () => {
+    expect(parsePcmMimeType('audio/pcm;rate=16000;channels=2')).toEqual({ sampleRate: 16000, numChannels: 2 });
+  });
+
+  it('falls back to 24 kHz mono', () => {
+    expect(parsePcmMimeType(undefined)).toEqual({ sampleRate: 24000, numChannels: 1 });
+    expect(parsePcmMimeType('audio/pcm')).toEqual({ sampleRate: 24000, numChannels: 1 });
+  });
+
+  it('names the channel count in multi-channel blobs only', () => {
+    expect(createPcmBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    const stereo = createPcmBlob([new Float32Array(4), new Float32Array(4)], 48000);
+    expect(stereo.mimeType).toBe('audio/pcm;rate=48000;channels=2');
+    expect(parsePcmMimeType(stereo.mimeType)).toEqual({ sampleRate: 48000, numChannels: 2 });
+  });
+});
@@ -1,5 +1,13 @@
 import { Blob } from '@google/genai';
 
+// PCM and base64 helpers for the audio sent to and received from the Live API.
+// PCM is 16-bit signed little-endian, interleaved when there is more than one channel.
+
+const BYTES_PER_SAMPLE = 2;
+// Characters per String.fromCharCode call; stays well under argument limits
+const BASE64_CHUNK = 0x8000;
+const DEFAULT_OUTPUT_RATE = 24000;
+
 export function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -10,45 +18,104 @@ export function base64ToUint8Array(base64: string): Uint8Array {
   return bytes;
 }
 
-export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
   let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
   }
   return btoa(binary);
 }
 
-export function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Convert float32 (-1.0 to 1.0) to int16 (-32768 to 32767)
-    int16[i] = Math.max(-1, Math.min(1, data[i])) * 32768;
+/** Converts one or more channels of float samples to interleaved 16-bit PCM bytes. */
+export function encodePcm16(channels: Float32Array | Float32Array[]): Uint8Array {
+  const list = Array.isArray(channels) ? channels : [channels];
+  const numChannels = list.length;
+  const frames = numChannels > 0 ? Math.min(...list.map(c => c.length)) : 0;
+  const bytes = new Uint8Array(frames * numChannels * BYTES_PER_SAMPLE);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = list[c][i];
+      // Asymmetric range: -1.0 maps to -32768 and +1.0 to 32767; NaN is silence
+      const clipped = Math.max(-1, Math.min(1, Number.isNaN(sample) ? 0 : sample));
+      const value = Math.round(clipped < 0 ? clipped * 32768 : clipped * 32767);
+      view.setInt16((i * numChannels + c) * BYTES_PER_SAMPLE, value, true);
+    }
   }
-  return {
-    data: arrayBufferToBase64(int16.buffer),
-    mimeType: 'audio/pcm;rate=16000',
-  };
+  return bytes;
 }
 
-export async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number = 24000,
-  numChannels: number = 1
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+/**
+ * Converts 16-bit PCM bytes to one float array per channel. Works on views
+ * at any byte offset; a trailing partial frame is ignored.
+ */
+export function decodePcm16(data: Uint8Array, numChannels: number = 1): Float32Array[] {
+  const frameBytes = numChannels * BYTES_PER_SAMPLE;
+  const frames = Math.floor(data.byteLength / frameBytes);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      channels[c][i] = view.getInt16((i * numChannels + c) * BYTES_PER_SAMPLE, true) / 32768;
     }
   }
+  return channels;
+}
+
+/**
+ * Decoder for PCM that arrives in pieces which may split a sample or frame.
+ * Leftover bytes are kept and prepended to the next piece.
+ */
+export function createPcmStreamDecoder(numChannels: number = 1) {
+  const frameBytes = numChannels * BYTES_PER_SAMPLE;
+  let pending = new Uint8Array(0);
+
+  const decode = (chunk: Uint8Array): Float32Array[] => {
+    let data = chunk;
+    if (pending.length > 0) {
+      data = new Uint8Array(pending.length + chunk.length);
+      data.set(pending);
+      data.set(chunk, pending.length);
+    }
+    const usable = data.length - (data.length % frameBytes);
+    pending = data.slice(usable);
+    return decodePcm16(data.subarray(0, usable), numChannels);
+  };
+
+  const reset = () => {
+    pending = new Uint8Array(0);
+  };
+
+  return { decode, reset };
+}
+
+export type PcmStreamDecoder = ReturnType<typeof createPcmStreamDecoder>;
+
+/** Reads the rate and channel count from a mime type like "audio/pcm;rate=24000". */
+export function parsePcmMimeType(mimeType: string | undefined): { sampleRate: number; numChannels: number } {
+  const rate = /rate=(\d+)/.exec(mimeType ?? '');
+  const channels = /channels=(\d+)/.exec(mimeType ?? '');
+  return {
+    sampleRate: rate ? parseInt(rate[1], 10) : DEFAULT_OUTPUT_RATE,
+    numChannels: channels ? Math.max(1, parseInt(channels[1], 10)) : 1
+  };
+}
+
+export function createPcmBlob(data: Float32Array | Float32Array[], sampleRate: number = 16000): Blob {
+  const numChannels = Array.isArray(data) ? data.length : 1;
+  return {
+    data: uint8ArrayToBase64(encodePcm16(data)),
+    mimeType: `audio/pcm;rate=${sampleRate}` + (numChannels > 1 ? `;channels=${numChannels}` : ''),
+  };
+}
+
+/** Wraps decoded channels in an AudioBuffer; the context resamples on playback. */
+export function channelsToAudioBuffer(channels: Float32Array[], ctx: BaseAudioContext, sampleRate: number): AudioBuffer {
+  const length = Math.max(1, channels[0]?.length ?? 0);
+  const buffer = ctx.createBuffer(Math.max(1, channels.length), length, sampleRate);
+  channels.forEach((samples, c) => buffer.copyToChannel(samples, c));
   return buffer;
 }
 
@@ -64,4 +131,15 @@ export const blobToBase64 = (blob: globalThis.Blob): Promise<string> => {
     reader.onerror = reject;
     reader.readAsDataURL(blob);
   });
-};
\ No newline at end of file
+};
+
+export function concatFloat32(chunks: Float32Array[]): Float32Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Float32Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,68 @@
+// Camera track helpers. Torch and zoom are track constraints that only some
+// browsers (mainly Chrome on Android) support, so every feature is optional.
+
+export type FacingMode = 'environment' | 'user';
+
+export interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom: ZoomRange | null;
+}
+
+// Not yet in the DOM typings
+type ExtendedCapabilities = MediaTrackCapabilities & {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+};
+type ExtendedSettings = MediaTrackSettings & { zoom?: number; torch?: boolean };
+
+export function cameraConstraints(facingMode: FacingMode): MediaTrackConstraints {
+  return {
+    facingMode,
+    // Regular frames are scaled down; the full size is for the sharp frame once the camera settles
+    width: { ideal: 1280 },
+    height: { ideal: 720 }
+  };
+}
+
+export async function openCamera(facingMode: FacingMode): Promise<MediaStreamTrack> {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: cameraConstraints(facingMode) });
+  return stream.getVideoTracks()[0];
+}
+
+export function readCameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  // getCapabilities is missing in Firefox
+  const caps = (typeof track.getCapabilities === 'function' ? track.getCapabilities() : {}) as ExtendedCapabilities;
+  const zoom = caps.zoom && caps.zoom.max > caps.zoom.min
+    ? { min: caps.zoom.min, max: caps.zoom.max, step: caps.zoom.step || 0.1 }
+    : null;
+  return { torch: caps.torch === true, zoom };
+}
+
+export function currentZoom(track: MediaStreamTrack, range: ZoomRange): number {
+  return (track.getSettings() as ExtendedSettings).zoom ?? range.min;
+}
+
+export function clampZoom(value: number, range: ZoomRange): number {
+  const snapped = range.min + Math.round((value - range.min) / range.step) * range.step;
+  return Math.max(range.min, Math.min(range.max, snapped));
+}
+
+export async function setZoom(track: MediaStreamTrack, zoom: number): Promise<void> {
+  await track.applyConstraints({ advanced: [{ zoom } as MediaTrackConstraintSet] });
+}
+
+export async function setTorch(track: MediaStreamTrack, on: boolean): Promise<void> {
+  await track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+}
+
+/** Distance between the first two touches, for pinch-to-zoom. */
+export function pinchDistance(touches: ArrayLike<{ clientX: number; clientY: number }>): number {
+  if (touches.length < 2) return 0;
+  return Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { appendTranscript, appendTypedMessage, finishCaptions, joinPieces, MAX_CAPTIONS } from './captions';
+import { Caption } from '../types';
+
+const texts = (captions: Caption[]) => captions.map(c => `${c.speaker}:${c.text}`);
+
+describe('joinPieces', () => {
+  it('adds a space only where neither piece has one', () => {
+    expect(joinPieces('Turn the', 'gain down')).toBe('Turn the gain down');
+    expect(joinPieces('Turn the ', 'gain down')).toBe('Turn the gain down');
+    expect(joinPieces('Turn the', ' gain down')).toBe('Turn the gain down');
+  });
+
+  it('does not put a space before punctuation, including Arabic', () => {
+    expect(joinPieces('Done', '.')).toBe('Done.');
+    expect(joinPieces('Yes', ', good')).toBe('Yes, good');
+    expect(joinPieces('هل تسمعني', '؟')).toBe('هل تسمعني؟');
+    expect(joinPieces('نعم', '، جيد')).toBe('نعم، جيد');
+  });
+});
+
+describe('appendTranscript', () => {
+  it('joins pieces from the same speaker into one caption', () => {
+    let captions = appendTranscript([], 'ai', 'Turn the', 1);
+    captions = appendTranscript(captions, 'ai', 'gain down', 2);
+    expect(texts(captions)).toEqual(['ai:Turn the gain down']);
+    expect(captions[0].at).toBe(1);
+    expect(captions[0].final).toBe(false);
+  });
+
+  it('closes the open caption when the other side speaks', () => {
+    let captions = appendTranscript([], 'user', 'Hello', 1);
+    captions = appendTranscript(captions, 'ai', ' Hi there ', 2);
+    expect(texts(captions)).toEqual(['user:Hello', 'ai:Hi there']);
+    expect(captions.map(c => c.final)).toEqual([true, false]);
+  });
+
+  it('starts a new caption after the turn is finished', () => {
+    let captions = finishCaptions(appendTranscript([], 'ai', 'First answer', 1));
+    captions = appendTranscript(captions, 'ai', 'Second answer', 2);
+    expect(texts(captions)).toEqual(['ai:First answer', 'ai:Second answer']);
+    expect(captions[0].id).not.toBe(captions[1].id);
+  });
+
+  it('ignores blank pieces', () => {
+    const captions = appendTranscript([], 'ai', 'Hello', 1);
+    expect(appendTranscript(captions, 'ai', '  ', 2)).toBe(captions);
+    expect(appendTranscript(captions, 'user', '', 2)).toBe(captions);
+  });
+
+  it('keeps only the most recent captions', () => {
+    let captions: Caption[] = [];
+    for (let i = 0; i < MAX_CAPTIONS + 5; i++) {
+      captions = appendTranscript(captions, i % 2 ? 'ai' : 'user', `line ${i}`, i);
+    }
+    expect(captions).toHaveLength(MAX_CAPTIONS);
+    expect(captions[0].text).toBe('line 5');
+  });
+});
+
+describe('appendTypedMessage', () => {
+  it('adds a complete user caption marked as typed', () => {
+    const captions = appendTypedMessage([], 'Is the echo better?', 1);
+    expect(captions).toEqual([{ id: '1-0', speaker: 'user', text: 'Is the echo better?', at: 1, typed: true, final: true }]);
+  });
+
+  it('closes an open caption and is never joined with speech', () => {
+    let captions = appendTranscript([], 'user', 'Can you', 1);
+    captions = appendTypedMessage(captions, 'hear me?', 2);
+    captions = appendTranscript(captions, 'user', 'Hello', 3);
+    expect(texts(captions)).toEqual(['user:Can you', 'user:hear me?', 'user:Hello']);
+    expect(captions.map(c => c.final)).toEqual([true, true, false]);
+  });
+});
+
+describe('finishCaptions', () => {
+  it('leaves captions that are already complete untouched', () => {
+    const captions = finishCaptions(appendTranscript([], 'ai', 'Done', 1));
+    expect(finishCaptions(captions)).toBe(captions);
+    expect(finishCaptions([])).toEqual([]);
+  });
+});
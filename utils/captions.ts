@@ -0,0 +1,36 @@
+import { Caption } from '../types';
+
+// Rolling captions built from the live transcription. Pieces from the same
+// speaker are joined until the turn ends or the other side speaks.
+
+// Captions kept for review during a call
+export const MAX_CAPTIONS = 200;
+
+const trimToMax = (captions: Caption[]) =>
+  captions.length > MAX_CAPTIONS ? captions.slice(captions.length - MAX_CAPTIONS) : captions;
+
+// Transcription pieces carry their own spacing, but not always
+export const joinPieces = (text: string, piece: string) =>
+  /\s$/.test(text) || /^[\s.,!?؟،]/.test(piece) ? text + piece : `${text} ${piece}`;
+
+export function appendTranscript(captions: Caption[], speaker: Caption['speaker'], piece: string, at: number): Caption[] {
+  if (!piece.trim()) return captions;
+  const last = captions[captions.length - 1];
+  if (last && !last.final && last.speaker === speaker) {
+    return [...captions.slice(0, -1), { ...last, text: joinPieces(last.text, piece) }];
+  }
+  // The other side is speaking, so whatever was open is complete
+  const closed = finishCaptions(captions);
+  return trimToMax([...closed, { id: `${at}-${closed.length}`, speaker, text: piece.trim(), at, final: false }]);
+}
+
+export function appendTypedMessage(captions: Caption[], text: string, at: number): Caption[] {
+  const closed = finishCaptions(captions);
+  return trimToMax([...closed, { id: `${at}-${closed.length}`, speaker: 'user', text, at, typed: true, final: true }]);
+}
+
+/** Marks the open caption as complete, e.g. when the model's turn ends. */
+export function finishCaptions(captions: Caption[]): Caption[] {
+  const last = captions[captions.length - 1];
+  return last && !last.final ? [...captions.slice(0, -1), { ...last, final: true }] : captions;
+}
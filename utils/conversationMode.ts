@@ -0,0 +1,45 @@
+import { ConversationMode } from '../types';
+
+// In a mosque the phone hears the loudspeakers, the engineer's own voice
+// included, and echo cancellation does not remove all of it. By default the
+// microphone is closed while the engineer talks.
+
+export const CONVERSATION_MODES: ConversationMode[] = ['push_to_talk', 'half_duplex', 'full_duplex'];
+export const DEFAULT_CONVERSATION_MODE: ConversationMode = 'half_duplex';
+
+const MODE_KEY = 'mosque-audio-tuner.conversation-mode';
+
+export function loadConversationMode(): ConversationMode {
+  const stored = localStorage.getItem(MODE_KEY);
+  return CONVERSATION_MODES.includes(stored as ConversationMode) ? (stored as ConversationMode) : DEFAULT_CONVERSATION_MODE;
+}
+
+export function saveConversationMode(mode: ConversationMode) {
+  localStorage.setItem(MODE_KEY, mode);
+}
+
+/** Whether the microphone may stream at all; the voice gate then decides what is worth sending. */
+export function micAllowed(mode: ConversationMode, talkHeld: boolean, aiSpeaking: boolean): boolean {
+  switch (mode) {
+    case 'push_to_talk':
+      return talkHeld;
+    case 'half_duplex':
+      return !aiSpeaking;
+    default:
+      return true;
+  }
+}
+
+// Tells the model why it may not hear the user; added to the system
+// instruction, and sent again when the mode changes during a call
+export function conversationModeNote(mode: ConversationMode): string {
+  const gate = 'Quiet room noise is not sent to you, only speech and deliberate test sounds such as a clap.';
+  switch (mode) {
+    case 'push_to_talk':
+      return `Conversation mode: push-to-talk. You only hear the user while they hold the talk button; long silences are normal, so do not ask whether they are still there. ${gate}`;
+    case 'half_duplex':
+      return `Conversation mode: half-duplex. The user's microphone is closed while you speak, so they cannot interrupt you; keep your turns short. ${gate}`;
+    default:
+      return `Conversation mode: full-duplex. You hear the user while you speak too, possibly with your own voice from the loudspeakers. ${gate}`;
+  }
+}
@@ -0,0 +1,105 @@
+import { DiagnosticBundle, DiagnosticEntry } from '../types';
+import type { LiveSessionConnector } from './liveSession';
+import { downloadTextFile } from './sessionHistory';
+
+// Opt-in recording of everything sent to and received from the live session,
+// so a reported session can be looked at and replayed (see diagnosticReplay.ts).
+
+// About 45 kB/s of microphone audio plus frames; stop well before memory is a problem
+const MAX_RECORDING_MS = 20 * 60 * 1000;
+
+// Entries before they are stamped; Omit per member keeps the union intact
+type Untimed<E> = E extends DiagnosticEntry ? Omit<E, 't'> : never;
+
+interface DiagnosticRecorderOptions {
+  language: string;
+  profileId: string | null;
+}
+
+export function createDiagnosticRecorder(options: DiagnosticRecorderOptions) {
+  let bundle: DiagnosticBundle | null = null;
+
+  const add = (entry: Untimed<DiagnosticEntry>) => {
+    if (!bundle || bundle.truncated) return;
+    const t = Date.now() - bundle.startedAt;
+    if (t > MAX_RECORDING_MS) {
+      bundle.truncated = true;
+      return;
+    }
+    bundle.entries.push({ ...entry, t } as DiagnosticEntry);
+  };
+
+  const start = () => {
+    bundle = {
+      format: 'mosque-audio-tuner/diagnostic',
+      version: 1,
+      startedAt: Date.now(),
+      language: options.language,
+      profileId: options.profileId,
+      truncated: false,
+      entries: []
+    };
+  };
+
+  const stop = (): DiagnosticBundle | null => {
+    const finished = bundle;
+    bundle = null;
+    return finished;
+  };
+
+  // Passes everything through, copying it into the bundle while recording
+  const wrap = (connect: LiveSessionConnector): LiveSessionConnector => async (config, callbacks) => {
+    const session = await connect(config, {
+      ...callbacks,
+      onOpen: () => {
+        add({ kind: 'connect', resumed: Boolean(config.resumptionHandle) });
+        callbacks.onOpen();
+      },
+      onMessage: message => {
+        add({ kind: 'server', message });
+        callbacks.onMessage(message);
+      },
+      onClose: reason => {
+        add({ kind: 'closed', reason });
+        callbacks.onClose(reason);
+      }
+    });
+
+    return {
+      ...session,
+      sendAudio: pcm => {
+        add({ kind: 'audio', mimeType: pcm.mimeType ?? '', data: pcm.data ?? '' });
+        session.sendAudio(pcm);
+      },
+      endAudioStream: () => {
+        add({ kind: 'audio_end' });
+        session.endAudioStream();
+      },
+      sendImage: base64Jpeg => {
+        add({ kind: 'image', data: base64Jpeg });
+        session.sendImage(base64Jpeg);
+      },
+      sendText: text => {
+        add({ kind: 'text', text });
+        session.sendText(text);
+      },
+      sendTextWithImage: (text, base64Jpeg) => {
+        add({ kind: 'text', text, image: base64Jpeg });
+        session.sendTextWithImage(text, base64Jpeg);
+      },
+      sendToolResponse: responses => {
+        add({ kind: 'tool_response', responses });
+        session.sendToolResponse(responses);
+      }
+    };
+  };
+
+  return { start, stop, wrap, isRecording: () => bundle !== null };
+}
+
+export type DiagnosticRecorder = ReturnType<typeof createDiagnosticRecorder>;
+
+export function downloadDiagnosticBundle(bundle: DiagnosticBundle) {
+  const stamp = new Date(bundle.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  downloadTextFile(`diagnostic-${stamp}.json`, JSON.stringify(bundle), 'application/json');
+}
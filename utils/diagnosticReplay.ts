@@ -0,0 +1,180 @@
+import { LiveServerMessage } from '@google/genai';
+import { DiagnosticBundle, DiagnosticEntry } from '../types';
+import type { LiveSession, LiveSessionConnector } from './liveSession';
+import { base64ToUint8Array, channelsToAudioBuffer, decodePcm16, parsePcmMimeType } from './audioUtils';
+
+// Plays a diagnostic bundle back through LiveInterface with no network: the
+// recorded microphone audio and camera frames become the "camera and
+// microphone", and the recorded server messages arrive on the recorded
+// schedule. What the app sends during a replay goes nowhere, but is kept in a
+// log next to where the recorded session dropped, for the replay view.
+
+const REPLAY_FRAME_RATE = 10;
+const DEFAULT_FRAME_WIDTH = 640;
+const DEFAULT_FRAME_HEIGHT = 360;
+// Audio is decoded and scheduled this far ahead, not all at once
+const AUDIO_LOOKAHEAD_MS = 1000;
+
+// What the app sent during the replay, and where the recorded session dropped
+export type ReplayLogEntry = Extract<DiagnosticEntry, { kind: 'text' | 'tool_response' | 'closed' }>;
+
+/** Reads a downloaded bundle; returns null for anything that is not one. */
+export function parseDiagnosticBundle(text: string): DiagnosticBundle | null {
+  try {
+    const bundle = JSON.parse(text) as DiagnosticBundle;
+    if (bundle.format !== 'mosque-audio-tuner/diagnostic' || bundle.version !== 1 || !Array.isArray(bundle.entries)) {
+      return null;
+    }
+    return bundle;
+  } catch {
+    return null;
+  }
+}
+
+const loadImage = (base64Jpeg: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode a recorded frame'));
+    image.src = `data:image/jpeg;base64,${base64Jpeg}`;
+  });
+
+/**
+ * Sets up a replay. Nothing plays until the app connects, so the recorded
+ * audio, frames and messages keep their relative timing. Reconnects during
+ * the recording are not replayed; the whole recording runs as one session,
+ * and connecting again starts it over.
+ */
+export function createDiagnosticReplay(bundle: DiagnosticBundle) {
+  const timers: number[] = [];
+  const sources = new Set<AudioBufferSourceNode>();
+  let run = 0;
+  // Times are from the start of the current run, like the recorded entries
+  let runStartedAt = 0;
+  let log: ReplayLogEntry[] = [];
+  const listeners = new Set<(log: ReplayLogEntry[]) => void>();
+
+  const addToLog = (entry: ReplayLogEntry) => {
+    log = [...log, entry];
+    listeners.forEach(listener => listener(log));
+  };
+
+  const sinceStart = () => Math.round(performance.now() - runStartedAt);
+
+  // Recorded microphone audio, played into a stream instead of the speakers
+  const audioContext = new AudioContext();
+  const audioOut = audioContext.createMediaStreamDestination();
+
+  // Recorded frames, drawn onto a canvas that is captured as the camera
+  const canvas = document.createElement('canvas');
+  canvas.width = DEFAULT_FRAME_WIDTH;
+  canvas.height = DEFAULT_FRAME_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  const video = canvas.captureStream(REPLAY_FRAME_RATE);
+
+  const tracks = [...video.getVideoTracks(), ...audioOut.stream.getAudioTracks()];
+
+  // A fresh stream per call, so the app stopping its tracks does not end the replay
+  const openStream = () => new MediaStream(tracks.map(track => track.clone()));
+
+  const at = (t: number, action: () => void) => {
+    timers.push(window.setTimeout(action, t));
+  };
+
+  const clearPlayback = () => {
+    timers.forEach(clearTimeout);
+    timers.length = 0;
+    sources.forEach(source => source.stop());
+    sources.clear();
+  };
+
+  const start = (callbacks: Parameters<LiveSessionConnector>[1]) => {
+    clearPlayback();
+    runStartedAt = performance.now();
+    log = [];
+    listeners.forEach(listener => listener(log));
+    const audioStart = audioContext.currentTime + 0.1;
+    audioContext.resume().catch(e => console.warn('Replay audio could not start', e));
+
+    for (const entry of bundle.entries) {
+      switch (entry.kind) {
+        case 'audio':
+          at(Math.max(0, entry.t - AUDIO_LOOKAHEAD_MS), () => {
+            const { sampleRate, numChannels } = parsePcmMimeType(entry.mimeType);
+            const channels = decodePcm16(base64ToUint8Array(entry.data), numChannels);
+            if (channels[0].length === 0) return;
+            const source = audioContext.createBufferSource();
+            source.buffer = channelsToAudioBuffer(channels, audioContext, sampleRate);
+            source.connect(audioOut);
+            source.addEventListener('ended', () => sources.delete(source));
+            source.start(audioStart + entry.t / 1000);
+            sources.add(source);
+          });
+          break;
+        case 'image':
+          at(entry.t, () => {
+            loadImage(entry.data).then(image => {
+              if (!ctx) return;
+              if (canvas.width !== image.naturalWidth || canvas.height !== image.naturalHeight) {
+                canvas.width = image.naturalWidth;
+                canvas.height = image.naturalHeight;
+              }
+              ctx.drawImage(image, 0, 0);
+            }).catch(e => console.warn(e));
+          });
+          break;
+        case 'server':
+          at(entry.t, () => callbacks.onMessage(entry.message as LiveServerMessage));
+          break;
+        case 'closed':
+          at(entry.t, () => addToLog(entry));
+          break;
+      }
+    }
+  };
+
+  const connector: LiveSessionConnector = async (_config, callbacks) => {
+    const thisRun = ++run;
+    const session: LiveSession = {
+      sendAudio: () => {},
+      endAudioStream: () => {},
+      sendImage: () => {},
+      sendText: text => addToLog({ t: sinceStart(), kind: 'text', text }),
+      sendTextWithImage: text => addToLog({ t: sinceStart(), kind: 'text', text }),
+      sendToolResponse: responses => addToLog({ t: sinceStart(), kind: 'tool_response', responses }),
+      bufferedBytes: () => 0,
+      close: () => {
+        if (thisRun === run) clearPlayback();
+      }
+    };
+    window.setTimeout(() => {
+      if (thisRun !== run) return;
+      callbacks.onOpen();
+      start(callbacks);
+    }, 0);
+    return session;
+  };
+
+  const stop = () => {
+    clearPlayback();
+    tracks.forEach(track => track.stop());
+    audioContext.close();
+  };
+
+  // Calls the listener with the log now and whenever it changes; returns the unsubscribe
+  const subscribe = (listener: (log: ReplayLogEntry[]) => void) => {
+    listeners.add(listener);
+    listener(log);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { openStream, connector, subscribe, stop };
+}
+
+export type DiagnosticReplay = ReturnType<typeof createDiagnosticReplay>;
@@ -0,0 +1,59 @@
+import { EqLayoutId, RingOutNotch } from '../types';
+import { Language, uiStrings } from './i18n';
+
+// In the order they are offered; labels are in uiStrings(language).eq.layouts
+export const EQ_LAYOUTS: EqLayoutId[] = ['three_band', 'four_band_sweep', 'graphic_31', 'parametric'];
+
+// Fixed centre frequencies of a typical small-mixer channel strip
+const FIXED_BANDS = [
+  { name: 'Low', frequency: 80 },
+  { name: 'Mid', frequency: 2500 },
+  { name: 'High', frequency: 12000 }
+];
+const SWEEP_MID_RANGE: [number, number] = [100, 8000];
+
+// ISO 1/3-octave centres used by 31-band graphic equalisers
+const GRAPHIC_BANDS = [
+  20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800,
+  1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000, 20000
+];
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${Math.round(hz / 100) / 10}k` : `${Math.round(hz)}`);
+
+function nearestByOctave<T>(items: T[], frequency: number, getFrequency: (item: T) => number): T {
+  return items.reduce((best, item) =>
+    Math.abs(Math.log2(getFrequency(item) / frequency)) < Math.abs(Math.log2(getFrequency(best) / frequency)) ? item : best
+  );
+}
+
+/**
+ * Turns a ring-out notch list into one instruction per problem frequency,
+ * worded for the controls the mixer actually has. Notches are expected to be
+ * sorted worst first; on a sweepable mid only the worst one gets the sweep.
+ */
+export function notchesToInstructions(notches: RingOutNotch[], layout: EqLayoutId, language: Language): string[] {
+  const t = uiStrings(language).eq;
+  let sweepUsed = false;
+
+  return notches.map(notch => {
+    const hz = formatHz(notch.frequency);
+    switch (layout) {
+      case 'graphic_31': {
+        const band = nearestByOctave(GRAPHIC_BANDS, notch.frequency, f => f);
+        return t.graphicNotch(formatHz(band), notch.cutDb, hz);
+      }
+      case 'parametric':
+        return t.parametricNotch(hz, notch.cutDb);
+      case 'four_band_sweep':
+        if (!sweepUsed && notch.frequency >= SWEEP_MID_RANGE[0] && notch.frequency <= SWEEP_MID_RANGE[1]) {
+          sweepUsed = true;
+          return t.sweepNotch(hz, notch.cutDb);
+        }
+      // falls through
+      default: {
+        const band = nearestByOctave(FIXED_BANDS, notch.frequency, b => b.frequency);
+        return t.fixedNotch(band.name, notch.cutDb, hz);
+      }
+    }
+  });
+}
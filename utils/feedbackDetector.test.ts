@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createFeedbackDetector, feedbackToInstruction, findTonalPeaks } from './feedbackDetector';
+
+const SAMPLE_RATE = 16000;
+const FFT_SIZE = 2048;
+const HZ_PER_BIN = SAMPLE_RATE / FFT_SIZE;
+
+// A flat noise floor below the detector's level limit, with the given bins raised
+const spectrumWith = (levels: Record<number, number>, floorDb = -70) => {
+  const spectrum = new Float32Array(FFT_SIZE / 2).fill(floorDb);
+  for (const [bin, levelDb] of Object.entries(levels)) spectrum[Number(bin)] = levelDb;
+  return spectrum;
+};
+
+describe('findTonalPeaks', () => {
+  it('finds a narrow tone and reports its frequency', () => {
+    const peaks = findTonalPeaks(spectrumWith({ 128: -30 }), SAMPLE_RATE, FFT_SIZE);
+    expect(peaks).toHaveLength(1);
+    expect(peaks[0].frequency).toBeCloseTo(128 * HZ_PER_BIN);
+    expect(peaks[0].prominenceDb).toBe(40);
+  });
+
+  it('interpolates between bins', () => {
+    const peaks = findTonalPeaks(spectrumWith({ 127: -36, 128: -30, 129: -33 }), SAMPLE_RATE, FFT_SIZE);
+    expect(peaks[0].frequency).toBeGreaterThan(128 * HZ_PER_BIN);
+    expect(peaks[0].frequency).toBeLessThan(128.5 * HZ_PER_BIN);
+  });
+
+  it('ignores broad bands such as speech', () => {
+    const band: Record<number, number> = {};
+    for (let bin = 120; bin < 140; bin++) band[bin] = bin === 130 ? -29 : -30;
+    expect(findTonalPeaks(spectrumWith(band), SAMPLE_RATE, FFT_SIZE)).toEqual([]);
+  });
+
+  it('ignores tones that are too quiet or outside the range', () => {
+    expect(findTonalPeaks(spectrumWith({ 128: -65 }, -90), SAMPLE_RATE, FFT_SIZE)).toEqual([]);
+    expect(findTonalPeaks(spectrumWith({ 128: -30 }), SAMPLE_RATE, FFT_SIZE, { maxFrequency: 500 })).toEqual([]);
+  });
+});
+
+describe('createFeedbackDetector', () => {
+  it('reports a sustained tone only after enough frames', () => {
+    const detector = createFeedbackDetector({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE, minFrames: 3 });
+    const tone = spectrumWith({ 300: -20 });
+    expect(detector.analyze(tone)).toBeNull();
+    expect(detector.analyze(tone)).toBeNull();
+    const detection = detector.analyze(tone);
+    expect(detection?.frequency).toBe(Math.round(300 * HZ_PER_BIN));
+    expect(detection?.prominenceDb).toBe(50);
+  });
+
+  it('reports a less prominent tone once it grows', () => {
+    const detector = createFeedbackDetector({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE, minFrames: 3 });
+    // 20 dB above the floor is below the sustained threshold, so growth decides
+    expect(detector.analyze(spectrumWith({ 300: -50 }))).toBeNull();
+    expect(detector.analyze(spectrumWith({ 300: -50 }))).toBeNull();
+    expect(detector.analyze(spectrumWith({ 300: -50 }))).toBeNull();
+    expect(detector.analyze(spectrumWith({ 300: -46 }))?.growthDb).toBe(4);
+  });
+
+  it('follows a tone that drifts by one bin', () => {
+    const detector = createFeedbackDetector({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE, minFrames: 3 });
+    detector.analyze(spectrumWith({ 300: -20 }));
+    detector.analyze(spectrumWith({ 301: -20 }));
+    expect(detector.analyze(spectrumWith({ 302: -20 }))).not.toBeNull();
+  });
+
+  it('starts over when the tone disappears for a frame', () => {
+    const detector = createFeedbackDetector({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE, minFrames: 3 });
+    const tone = spectrumWith({ 300: -20 });
+    detector.analyze(tone);
+    detector.analyze(tone);
+    detector.analyze(spectrumWith({}));
+    expect(detector.analyze(tone)).toBeNull();
+    expect(detector.analyze(tone)).toBeNull();
+    expect(detector.analyze(tone)).not.toBeNull();
+  });
+
+  it('forgets tracked tones on reset', () => {
+    const detector = createFeedbackDetector({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE, minFrames: 2 });
+    const tone = spectrumWith({ 300: -20 });
+    detector.analyze(tone);
+    detector.reset();
+    expect(detector.analyze(tone)).toBeNull();
+  });
+});
+
+describe('feedbackToInstruction', () => {
+  const detection = (frequency: number) => ({ frequency, levelDb: -20, growthDb: 3, prominenceDb: 30, detectedAt: 0 });
+
+  it('cuts treble for high feedback and gain for low feedback', () => {
+    expect(feedbackToInstruction(detection(3150), 'en').action).toBe('reduce_treble');
+    expect(feedbackToInstruction(detection(800), 'en').action).toBe('reduce_gain');
+  });
+
+  it('names the frequency in the message', () => {
+    expect(feedbackToInstruction(detection(3150), 'en').message).toContain('3150');
+  });
+});
@@ -0,0 +1,182 @@
+import { binToFrequency, frequencyToBin, interpolatePeak, localMedian } from './spectrum';
+import { FeedbackDetection, InstructionState } from '../types';
+import { Language, uiStrings } from './i18n';
+
+// Analyser size the thresholds below were tuned with, at 16 kHz; scale it to
+// the device rate with fftSizeForRate so every device gets the same bin width
+export const FEEDBACK_FFT_SIZE = 2048;
+
+export interface TonalPeak {
+  bin: number;
+  frequency: number;
+  levelDb: number;
+  prominenceDb: number;
+}
+
+interface FeedbackDetectorOptions {
+  sampleRate: number;
+  fftSize: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+  // How far (dB) a peak must stand above its local neighbourhood
+  minProminenceDb?: number;
+  // Peaks quieter than this (dBFS) are ignored
+  minLevelDb?: number;
+  // Consecutive analysis frames a peak must survive before it counts
+  minFrames?: number;
+  // Level rise (dB) over its lifetime that marks a peak as "growing"
+  minGrowthDb?: number;
+  // Peaks this prominent are reported even when they stop growing
+  sustainedProminenceDb?: number;
+}
+
+interface TrackedPeak {
+  bin: number;
+  frames: number;
+  firstLevelDb: number;
+  lastLevelDb: number;
+  prominenceDb: number;
+  frequency: number;
+  lastFrame: number;
+}
+
+// Neighbourhood used to judge whether a peak is narrow and prominent
+const NEIGHBOURHOOD_HZ = 250;
+const MAX_PEAK_WIDTH_HZ = 40;
+
+/**
+ * Finds narrow peaks that stand well above the surrounding spectrum.
+ * Speech and music spread energy across wide bands, while feedback
+ * concentrates almost all of it in a single tone.
+ */
+export function findTonalPeaks(
+  spectrum: Float32Array,
+  sampleRate: number,
+  fftSize: number,
+  options: { minFrequency?: number; maxFrequency?: number; minProminenceDb?: number; minLevelDb?: number } = {}
+): TonalPeak[] {
+  const {
+    minFrequency = 150,
+    maxFrequency = sampleRate / 2 - 200,
+    minProminenceDb = 15,
+    minLevelDb = -60
+  } = options;
+
+  const fromBin = Math.max(2, frequencyToBin(minFrequency, sampleRate, fftSize));
+  const toBin = Math.min(spectrum.length - 3, frequencyToBin(maxFrequency, sampleRate, fftSize));
+  const neighbourhood = Math.max(4, frequencyToBin(NEIGHBOURHOOD_HZ, sampleRate, fftSize));
+  const maxWidth = Math.max(2, frequencyToBin(MAX_PEAK_WIDTH_HZ, sampleRate, fftSize));
+
+  const peaks: TonalPeak[] = [];
+  for (let bin = fromBin; bin <= toBin; bin++) {
+    const level = spectrum[bin];
+    if (level < minLevelDb || !Number.isFinite(level)) continue;
+    if (level < spectrum[bin - 1] || level < spectrum[bin + 1]) continue;
+
+    const median = localMedian(spectrum, bin - neighbourhood, bin + neighbourhood, bin, maxWidth);
+    const prominence = level - median;
+    if (prominence < minProminenceDb) continue;
+
+    // Width of the peak 6 dB below its top
+    let left = bin;
+    while (left > 0 && bin - left <= maxWidth && spectrum[left - 1] > level - 6) left--;
+    let right = bin;
+    while (right < spectrum.length - 1 && right - bin <= maxWidth && spectrum[right + 1] > level - 6) right++;
+    if (right - left > maxWidth) continue;
+
+    peaks.push({
+      bin,
+      frequency: binToFrequency(bin + interpolatePeak(spectrum, bin), sampleRate, fftSize),
+      levelDb: level,
+      prominenceDb: prominence
+    });
+  }
+  return peaks;
+}
+
+/**
+ * Tracks tonal peaks across successive spectra and reports the ones that
+ * behave like acoustic feedback: a steady frequency that persists and grows.
+ */
+export function createFeedbackDetector(options: FeedbackDetectorOptions) {
+  const {
+    sampleRate,
+    fftSize,
+    minFrames = 5,
+    minGrowthDb = 3,
+    sustainedProminenceDb = 25
+  } = options;
+
+  let tracked: TrackedPeak[] = [];
+  let frame = 0;
+
+  const analyze = (spectrum: Float32Array): FeedbackDetection | null => {
+    frame++;
+    const peaks = findTonalPeaks(spectrum, sampleRate, fftSize, options);
+
+    for (const peak of peaks) {
+      const existing = tracked.find(t => Math.abs(t.bin - peak.bin) <= 1 && t.lastFrame === frame - 1);
+      if (existing) {
+        existing.bin = peak.bin;
+        existing.frames++;
+        existing.lastLevelDb = peak.levelDb;
+        existing.prominenceDb = peak.prominenceDb;
+        existing.frequency = peak.frequency;
+        existing.lastFrame = frame;
+      } else {
+        tracked.push({
+          bin: peak.bin,
+          frames: 1,
+          firstLevelDb: peak.levelDb,
+          lastLevelDb: peak.levelDb,
+          prominenceDb: peak.prominenceDb,
+          frequency: peak.frequency,
+          lastFrame: frame
+        });
+      }
+    }
+
+    // A peak that disappears for a single frame is no longer a steady tone
+    tracked = tracked.filter(t => t.lastFrame === frame);
+
+    const candidates = tracked.filter(t =>
+      t.frames >= minFrames &&
+      (t.lastLevelDb - t.firstLevelDb >= minGrowthDb || t.prominenceDb >= sustainedProminenceDb)
+    );
+    if (candidates.length === 0) return null;
+
+    const loudest = candidates.reduce((a, b) => (b.lastLevelDb > a.lastLevelDb ? b : a));
+    return {
+      frequency: Math.round(loudest.frequency),
+      levelDb: Math.round(loudest.lastLevelDb),
+      growthDb: Math.round(loudest.lastLevelDb - loudest.firstLevelDb),
+      prominenceDb: Math.round(loudest.prominenceDb),
+      detectedAt: Date.now()
+    };
+  };
+
+  const reset = () => {
+    tracked = [];
+    frame = 0;
+  };
+
+  return { analyze, reset };
+}
+
+export type FeedbackDetector = ReturnType<typeof createFeedbackDetector>;
+
+/** Maps a feedback frequency to the instruction card shown to the user. */
+export function feedbackToInstruction(detection: FeedbackDetection, language: Language): InstructionState {
+  const t = uiStrings(language).analysis;
+  const hz = detection.frequency;
+  if (hz >= 2000) {
+    return {
+      action: 'reduce_treble',
+      message: t.feedbackTreble(hz)
+    };
+  }
+  return {
+    action: 'reduce_gain',
+    message: t.feedbackGain(hz)
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same
+ * power-of-two length.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Averaged power spectrum (Welch's method) using Hann-windowed segments
+ * with 50% overlap. Returns fftSize / 2 linear power values.
+ */
+export function welchPowerSpectrum(samples: Float32Array, fftSize: number): Float64Array {
+  const half = fftSize / 2;
+  const power = new Float64Array(half);
+  const window = new Float64Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1));
+  }
+
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  let segments = 0;
+  for (let start = 0; start + fftSize <= samples.length; start += half) {
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < half; k++) {
+      power[k] += re[k] * re[k] + im[k] * im[k];
+    }
+    segments++;
+  }
+
+  if (segments > 0) {
+    for (let k = 0; k < half; k++) power[k] /= segments;
+  }
+  return power;
+}
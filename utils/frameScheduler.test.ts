@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { createFrameScheduler, frameDifference } from './frameScheduler';
+import { GrayFrame } from './regionTracker';
+
+// A flat grayscale frame; the scheduler only looks at differences between frames
+const frame = (value: number, width = 8, height = 6): GrayFrame => ({
+  width,
+  height,
+  data: new Uint8Array(width * height).fill(value)
+});
+
+const CONGESTED = 100 * 1024;
+
+describe('frameDifference', () => {
+  it('is 0 for the same picture and 1 for black against white', () => {
+    expect(frameDifference(frame(40), frame(40))).toBe(0);
+    expect(frameDifference(frame(0), frame(255))).toBe(1);
+    expect(frameDifference(frame(0), frame(51))).toBeCloseTo(0.2, 5);
+  });
+
+  it('treats frames of different sizes as completely different', () => {
+    expect(frameDifference(frame(0), frame(0, 4, 3))).toBe(1);
+  });
+});
+
+describe('createFrameScheduler', () => {
+  it('sends the first frame at the starting level and waits for the interval', () => {
+    const scheduler = createFrameScheduler();
+    expect(scheduler.decide(frame(0), 0)).toMatchObject({ send: true, settled: false, width: 320, quality: 0.6 });
+    expect(scheduler.decide(frame(200), 300)).toEqual({ send: false, reason: 'waiting' });
+    expect(scheduler.decide(frame(100), 700).send).toBe(true);
+  });
+
+  it('sends one sharp frame once the camera rests after moving', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.decide(frame(0), 0);
+    expect(scheduler.decide(frame(0), 800)).toEqual({ send: false, reason: 'duplicate' });
+    expect(scheduler.decide(frame(0), 1600)).toEqual({ send: true, settled: true, width: 960, quality: 0.85 });
+    expect(scheduler.decide(frame(0), 2400)).toEqual({ send: false, reason: 'duplicate' });
+  });
+
+  it('does not send a second sharp frame of a view it already has', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.decide(frame(0), 0);
+    scheduler.decide(frame(0), 800);
+    expect(scheduler.decide(frame(0), 1600).send).toBe(true);
+    // Look away and come back to the same view
+    expect(scheduler.decide(frame(255), 2400)).toMatchObject({ send: true, settled: false });
+    expect(scheduler.decide(frame(0), 3200)).toMatchObject({ send: true, settled: false });
+    scheduler.decide(frame(0), 4000);
+    expect(scheduler.decide(frame(0), 4800)).toEqual({ send: false, reason: 'duplicate' });
+  });
+
+  it('skips an unchanged picture but re-sends it as a keepalive', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.decide(frame(0), 0);
+    const sentAt: [number, boolean][] = [];
+    for (let now = 700; now <= 12600; now += 700) {
+      const decision = scheduler.decide(frame(0), now);
+      if (decision.send) sentAt.push([now, decision.settled]);
+    }
+    // The sharp frame after settling, then the keepalive 10 s later
+    expect(sentAt).toEqual([[2100, true], [12600, false]]);
+    expect(scheduler.stats(12600).skipped).toBe(16);
+  });
+
+  it('holds back sharp frames while the link is congested', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.updateBacklog(CONGESTED, 0);
+    scheduler.decide(frame(0), 0);
+    scheduler.decide(frame(0), 1000);
+    expect(scheduler.decide(frame(0), 2000)).toEqual({ send: false, reason: 'duplicate' });
+  });
+
+  it('steps down while the socket backs up, at most once every two seconds', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.updateBacklog(CONGESTED, 0);
+    expect(scheduler.stats(0).level).toBe(2);
+    scheduler.updateBacklog(CONGESTED, 1000);
+    expect(scheduler.stats(1000).level).toBe(2);
+    scheduler.updateBacklog(CONGESTED, 2000);
+    expect(scheduler.stats(2000).level).toBe(1);
+    expect(scheduler.decide(frame(0), 2000)).toMatchObject({ send: true, settled: false, width: 240, quality: 0.5 });
+  });
+
+  it('steps back up after ten seconds without a backlog', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.updateBacklog(CONGESTED, 0);
+    scheduler.updateBacklog(0, 1000);
+    scheduler.updateBacklog(0, 10999);
+    expect(scheduler.stats(10999).level).toBe(2);
+    scheduler.updateBacklog(0, 11000);
+    expect(scheduler.stats(11000).level).toBe(3);
+  });
+
+  it('restarts the clear period when a backlog builds up again', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.updateBacklog(CONGESTED, 0);
+    scheduler.updateBacklog(0, 1000);
+    scheduler.updateBacklog(20 * 1024, 6000);
+    scheduler.updateBacklog(0, 7000);
+    scheduler.updateBacklog(0, 11000);
+    expect(scheduler.stats(11000).level).toBe(2);
+  });
+
+  it('estimates upload speed only while the socket has a backlog', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.updateBacklog(0, 0);
+    scheduler.recordUpload(10000);
+    scheduler.updateBacklog(0, 1000);
+    expect(scheduler.stats(1000).uploadBytesPerSecond).toBeNull();
+    scheduler.recordUpload(50000);
+    scheduler.updateBacklog(20000, 2000);
+    expect(scheduler.stats(2000).uploadBytesPerSecond).toBe(30000);
+  });
+
+  it('counts sent frames and the image bytes of the last minute', () => {
+    const scheduler = createFrameScheduler();
+    scheduler.recordFrame(1000, 0, false);
+    scheduler.recordFrame(2000, 30000, true);
+    expect(scheduler.stats(30000)).toMatchObject({ sent: 2, settledFrames: 1, bytesPerMinute: 3000 });
+    expect(scheduler.stats(60000).bytesPerMinute).toBe(2000);
+  });
+});
@@ -0,0 +1,177 @@
+import { GrayFrame } from './regionTracker';
+
+// Decides when a camera frame is worth sending to the model, and at what size
+// and JPEG quality. Frames are compared on the small grayscale copy that
+// highlight tracking already uses, so the check costs almost nothing.
+
+export interface FrameQuality {
+  // Encoded width in pixels; the height follows the camera's aspect ratio
+  width: number;
+  quality: number;
+}
+
+interface SendLevel extends FrameQuality {
+  intervalMs: number;
+}
+
+// Slowest to fastest. Level 3 is the old fixed rate: 1.5 fps at 320 px, quality 0.6
+const LEVELS: SendLevel[] = [
+  { intervalMs: 4000, width: 160, quality: 0.4 },
+  { intervalMs: 2000, width: 240, quality: 0.5 },
+  { intervalMs: 1000, width: 320, quality: 0.6 },
+  { intervalMs: 667, width: 320, quality: 0.6 },
+  { intervalMs: 500, width: 480, quality: 0.7 }
+];
+const START_LEVEL = 3;
+// One sharp frame when the camera comes to rest on something new, to read labels
+const SETTLED_FRAME: FrameQuality = { width: 960, quality: 0.85 };
+
+// Mean absolute difference (0-1) between grayscale frames
+const DUPLICATE_DIFF = 0.02;
+const MOVING_DIFF = 0.05;
+const STILL_DIFF = 0.015;
+const SETTLE_MS = 800;
+// Even an unchanged picture is re-sent this often, so the model knows the feed is alive
+const KEEPALIVE_MS = 10000;
+// Bytes waiting in the socket: above HIGH the link is behind, below LOW it keeps up
+const BACKLOG_HIGH_BYTES = 64 * 1024;
+const BACKLOG_LOW_BYTES = 4 * 1024;
+const STEP_DOWN_COOLDOWN_MS = 2000;
+const STEP_UP_AFTER_MS = 10000;
+const THROUGHPUT_SMOOTHING = 0.3;
+const STATS_WINDOW_MS = 60000;
+
+export type FrameDecision =
+  | { send: false; reason: 'waiting' | 'duplicate' }
+  | ({ send: true; settled: boolean } & FrameQuality);
+
+export interface FrameStats {
+  sent: number;
+  skipped: number;
+  settledFrames: number;
+  // Image bytes sent in the last minute
+  bytesPerMinute: number;
+  // Estimated from how fast the socket drains; null until the backend reports its backlog
+  uploadBytesPerSecond: number | null;
+  level: number;
+}
+
+export function frameDifference(a: GrayFrame, b: GrayFrame): number {
+  if (a.width !== b.width || a.height !== b.height) return 1;
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    sum += Math.abs(a.data[i] - b.data[i]);
+  }
+  return sum / (Math.max(1, a.data.length) * 255);
+}
+
+export function createFrameScheduler() {
+  let level = START_LEVEL;
+  let previous: GrayFrame | null = null;
+  let lastSent: GrayFrame | null = null;
+  let lastSettled: GrayFrame | null = null;
+  let lastSentAt = -Infinity;
+  // Last time a frame was sent or deliberately skipped
+  let lastConsideredAt = -Infinity;
+  let stillSince: number | null = null;
+  let movedSinceSettled = true;
+  let congested = false;
+  let lastStepDownAt = -Infinity;
+  let clearSince: number | null = null;
+
+  let sent = 0;
+  let skipped = 0;
+  let settledFrames = 0;
+  let sentLog: { at: number; bytes: number }[] = [];
+  let queuedSinceCheck = 0;
+  let lastBacklog: { at: number; bytes: number } | null = null;
+  let throughput: number | null = null;
+
+  const accept = (frame: GrayFrame, now: number, quality: FrameQuality, settled: boolean): FrameDecision => {
+    lastSent = frame;
+    lastSentAt = now;
+    lastConsideredAt = now;
+    return { send: true, settled, ...quality };
+  };
+
+  const decide = (frame: GrayFrame, now: number): FrameDecision => {
+    const motion = previous ? frameDifference(frame, previous) : 1;
+    previous = frame;
+    if (motion > MOVING_DIFF) movedSinceSettled = true;
+    stillSince = motion < STILL_DIFF ? stillSince ?? now : null;
+
+    if (stillSince !== null && now - stillSince >= SETTLE_MS && movedSinceSettled) {
+      movedSinceSettled = false;
+      // Back on a view that already has a sharp frame: nothing new to show
+      if (!congested && (!lastSettled || frameDifference(frame, lastSettled) >= DUPLICATE_DIFF)) {
+        lastSettled = frame;
+        return accept(frame, now, SETTLED_FRAME, true);
+      }
+    }
+
+    const change = lastSent ? frameDifference(frame, lastSent) : 1;
+
+    if (now - lastConsideredAt < LEVELS[level].intervalMs) return { send: false, reason: 'waiting' };
+    if (change < DUPLICATE_DIFF && now - lastSentAt < KEEPALIVE_MS) {
+      lastConsideredAt = now;
+      skipped++;
+      return { send: false, reason: 'duplicate' };
+    }
+    return accept(frame, now, LEVELS[level], false);
+  };
+
+  /** Call once the frame is encoded and handed to the session. */
+  const recordFrame = (bytes: number, now: number, settled: boolean) => {
+    sent++;
+    if (settled) settledFrames++;
+    sentLog = [...sentLog.filter(e => now - e.at < STATS_WINDOW_MS), { at: now, bytes }];
+    queuedSinceCheck += bytes;
+  };
+
+  /** Other uploads on the same connection (microphone audio), for the throughput estimate. */
+  const recordUpload = (bytes: number) => {
+    queuedSinceCheck += bytes;
+  };
+
+  /** Adapts the send level to the bytes still waiting in the socket. */
+  const updateBacklog = (backlogBytes: number, now: number) => {
+    if (lastBacklog && now > lastBacklog.at && (backlogBytes > 0 || lastBacklog.bytes > 0)) {
+      // Only meaningful while a backlog exists; an idle socket says nothing about capacity
+      const drained = queuedSinceCheck - (backlogBytes - lastBacklog.bytes);
+      const rate = Math.max(0, (drained * 1000) / (now - lastBacklog.at));
+      throughput = throughput === null ? rate : throughput + THROUGHPUT_SMOOTHING * (rate - throughput);
+    }
+    queuedSinceCheck = 0;
+    lastBacklog = { at: now, bytes: backlogBytes };
+
+    congested = backlogBytes > BACKLOG_HIGH_BYTES;
+    if (congested) {
+      clearSince = null;
+      if (level > 0 && now - lastStepDownAt >= STEP_DOWN_COOLDOWN_MS) {
+        level--;
+        lastStepDownAt = now;
+      }
+    } else if (backlogBytes <= BACKLOG_LOW_BYTES) {
+      clearSince = clearSince ?? now;
+      if (level < LEVELS.length - 1 && now - clearSince >= STEP_UP_AFTER_MS) {
+        level++;
+        clearSince = now;
+      }
+    } else {
+      clearSince = null;
+    }
+  };
+
+  const stats = (now: number): FrameStats => ({
+    sent,
+    skipped,
+    settledFrames,
+    bytesPerMinute: sentLog.filter(e => now - e.at < STATS_WINDOW_MS).reduce((sum, e) => sum + e.bytes, 0),
+    uploadBytesPerSecond: throughput === null ? null : Math.round(throughput),
+    level
+  });
+
+  return { decide, recordFrame, recordUpload, updateBacklog, stats };
+}
+
+export type FrameScheduler = ReturnType<typeof createFrameScheduler>;
@@ -0,0 +1,111 @@
+import { welchPowerSpectrum } from './fft';
+import { FrequencyResponse, FrequencyResponsePoint, InstructionState, TestSignalType } from '../types';
+import { Language, uiStrings } from './i18n';
+
+const ANALYSIS_FFT_SIZE = 2048;
+// Points are spaced every 1/6 octave and averaged over 1/3 octave
+const POINTS_PER_OCTAVE = 6;
+const SMOOTHING_OCTAVES = 1 / 3;
+const LOWEST_HZ = 63;
+
+const BASS_BAND: [number, number] = [63, 250];
+const MID_BAND: [number, number] = [250, 2000];
+const TREBLE_BAND: [number, number] = [2000, 8000];
+
+// Deviation (dB) from the overall average that is worth correcting
+const CORRECTION_THRESHOLD_DB = 4;
+
+function bandAverage(power: Float64Array, sampleRate: number, lowHz: number, highHz: number): number {
+  const binHz = sampleRate / ANALYSIS_FFT_SIZE;
+  const from = Math.max(1, Math.floor(lowHz / binHz));
+  const to = Math.min(power.length - 1, Math.ceil(highHz / binHz));
+  let sum = 0;
+  let count = 0;
+  for (let k = from; k <= to; k++) {
+    sum += power[k];
+    count++;
+  }
+  // Per-bin power scales with the bin width, so normalise to power per Hz
+  return count > 0 ? sum / count / binHz : 0;
+}
+
+function averageDb(points: FrequencyResponsePoint[], [lowHz, highHz]: [number, number]): number {
+  const inBand = points.filter(p => p.frequency >= lowHz && p.frequency < highHz);
+  if (inBand.length === 0) return 0;
+  return Math.round((inBand.reduce((sum, p) => sum + p.db, 0) / inBand.length) * 10) / 10;
+}
+
+/**
+ * Compares what the microphone recorded with the signal that was played,
+ * giving the response of the whole chain (speaker, room and mic) smoothed
+ * to 1/3 octave and normalised so the overall average sits at 0 dB.
+ */
+export function measureFrequencyResponse(
+  recorded: Float32Array,
+  recordedRate: number,
+  reference: Float32Array,
+  referenceRate: number,
+  signal: TestSignalType
+): FrequencyResponse {
+  const recordedPower = welchPowerSpectrum(recorded, ANALYSIS_FFT_SIZE);
+  const referencePower = welchPowerSpectrum(reference, ANALYSIS_FFT_SIZE);
+  const highestHz = Math.min(recordedRate, referenceRate) * 0.45;
+
+  const raw: FrequencyResponsePoint[] = [];
+  const halfWidth = Math.pow(2, SMOOTHING_OCTAVES / 2);
+  for (let f = LOWEST_HZ; f <= highestHz; f *= Math.pow(2, 1 / POINTS_PER_OCTAVE)) {
+    const rec = bandAverage(recordedPower, recordedRate, f / halfWidth, f * halfWidth);
+    const ref = bandAverage(referencePower, referenceRate, f / halfWidth, f * halfWidth);
+    if (rec > 0 && ref > 0) {
+      raw.push({ frequency: Math.round(f), db: 10 * Math.log10(rec / ref) });
+    }
+  }
+
+  const mean = raw.length > 0 ? raw.reduce((sum, p) => sum + p.db, 0) / raw.length : 0;
+  const points = raw.map(p => ({ frequency: p.frequency, db: Math.round((p.db - mean) * 10) / 10 }));
+
+  return {
+    signal,
+    points,
+    bassDb: averageDb(points, BASS_BAND),
+    midDb: averageDb(points, MID_BAND),
+    trebleDb: averageDb(points, TREBLE_BAND)
+  };
+}
+
+/** Picks the single most useful EQ correction for the measured response. */
+export function responseToInstruction(response: FrequencyResponse, language: Language): InstructionState {
+  const t = uiStrings(language).analysis;
+  const details = [
+    { label: t.bass, value: `${response.bassDb > 0 ? '+' : ''}${response.bassDb} dB` },
+    { label: t.mid, value: `${response.midDb > 0 ? '+' : ''}${response.midDb} dB` },
+    { label: t.treble, value: `${response.trebleDb > 0 ? '+' : ''}${response.trebleDb} dB` }
+  ];
+
+  const candidates = [
+    { band: 'treble', db: response.trebleDb },
+    { band: 'bass', db: response.bassDb },
+    { band: 'mid', db: response.midDb }
+  ].filter(c => Math.abs(c.db) >= CORRECTION_THRESHOLD_DB);
+
+  if (candidates.length === 0) {
+    return { action: 'success', message: t.responseBalanced, details };
+  }
+
+  const worst = candidates.reduce((a, b) => (Math.abs(b.db) > Math.abs(a.db) ? b : a));
+  const tooLoud = worst.db > 0;
+  switch (worst.band) {
+    case 'treble':
+      return tooLoud
+        ? { action: 'reduce_treble', message: t.trebleTooHigh, details }
+        : { action: 'increase_treble', message: t.trebleTooLow, details };
+    case 'bass':
+      return tooLoud
+        ? { action: 'reduce_bass', message: t.bassTooHigh, details }
+        : { action: 'increase_bass', message: t.bassTooLow, details };
+    default:
+      return tooLoud
+        ? { action: 'general', message: t.midTooHigh, details }
+        : { action: 'general', message: t.midTooLow, details };
+  }
+}
@@ -0,0 +1,54 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import type { LiveSession, LiveSessionCallbacks, LiveSessionConfig } from './liveSession';
+import type { LiveToken } from './liveToken';
+
+const DEFAULT_VOICE = 'Puck';
+
+export async function connectGeminiSession(
+  token: LiveToken,
+  config: LiveSessionConfig,
+  callbacks: LiveSessionCallbacks
+): Promise<LiveSession> {
+  // Ephemeral tokens stand in for the API key, and only work on v1alpha
+  const ai = new GoogleGenAI({ apiKey: token.token, httpOptions: { apiVersion: 'v1alpha' } });
+
+  const session = await ai.live.connect({
+    model: token.model,
+    config: {
+      responseModalities: [Modality.AUDIO],
+      systemInstruction: config.systemInstruction,
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName ?? DEFAULT_VOICE } }
+      },
+      tools: [{ functionDeclarations: config.tools }],
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      // Ask for resumption handles, and resume when we have one
+      sessionResumption: config.resumptionHandle ? { handle: config.resumptionHandle } : {}
+    },
+    callbacks: {
+      onopen: callbacks.onOpen,
+      onmessage: callbacks.onMessage,
+      onclose: (e) => callbacks.onClose(e.reason),
+      onerror: (e) => callbacks.onError(new Error(e.message || 'Connection error'))
+    }
+  });
+
+  return {
+    sendAudio: pcm => session.sendRealtimeInput({ media: pcm }),
+    endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+    sendImage: base64Jpeg => session.sendRealtimeInput({ media: { mimeType: 'image/jpeg', data: base64Jpeg } }),
+    sendText: text => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text }] }],
+      turnComplete: true
+    }),
+    sendTextWithImage: (text, base64Jpeg) => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text }, { inlineData: { mimeType: 'image/jpeg', data: base64Jpeg } }] }],
+      turnComplete: true
+    }),
+    sendToolResponse: responses => session.sendToolResponse({ functionResponses: responses }),
+    // The SDK does not expose this; read it from the browser socket it wraps, if still there
+    bufferedBytes: () => (session.conn as { ws?: WebSocket }).ws?.bufferedAmount,
+    close: () => session.close()
+  };
+}
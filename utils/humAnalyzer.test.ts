@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createHumAnalyzer, humToInstruction } from './humAnalyzer';
+import { frequencyToBin } from './spectrum';
+import { HumReading } from '../types';
+
+const SAMPLE_RATE = 16000;
+const FFT_SIZE = 16384;
+
+// A flat floor with tones at the given frequencies
+const spectrumWith = (tones: number[], toneDb = -40, floorDb = -100) => {
+  const spectrum = new Float32Array(FFT_SIZE / 2).fill(floorDb);
+  for (const hz of tones) spectrum[frequencyToBin(hz, SAMPLE_RATE, FFT_SIZE)] = toneDb;
+  return spectrum;
+};
+
+const harmonicsOf = (mains: number, count: number) => Array.from({ length: count }, (_, i) => mains * (i + 1));
+
+describe('createHumAnalyzer', () => {
+  it('diagnoses mains harmonics as a ground loop', () => {
+    const analyzer = createHumAnalyzer({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE });
+    const reading = analyzer.analyze(spectrumWith(harmonicsOf(50, 4)));
+    expect(reading.diagnosis).toBe('ground_loop');
+    expect(reading.mainsFrequency).toBe(50);
+    expect(reading.harmonicsFound).toBe(4);
+    expect(reading.humProminenceDb).toBe(60);
+  });
+
+  it('tells 60 Hz mains from 50 Hz', () => {
+    const analyzer = createHumAnalyzer({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE });
+    expect(analyzer.analyze(spectrumWith(harmonicsOf(60, 4))).mainsFrequency).toBe(60);
+  });
+
+  it('does not call a single tone a ground loop', () => {
+    const analyzer = createHumAnalyzer({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE });
+    expect(analyzer.analyze(spectrumWith([50])).diagnosis).toBe('none');
+  });
+
+  it('diagnoses a raised flat floor as gain noise', () => {
+    const analyzer = createHumAnalyzer({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE });
+    const reading = analyzer.analyze(spectrumWith([], -40, -80));
+    expect(reading.diagnosis).toBe('gain_noise');
+    expect(reading.hissLevelDb).toBeGreaterThanOrEqual(-55);
+  });
+
+  it('takes the quietest recent floor, so speech does not count as hiss', () => {
+    const analyzer = createHumAnalyzer({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE });
+    expect(analyzer.analyze(spectrumWith([])).diagnosis).toBe('none');
+    expect(analyzer.analyze(spectrumWith([], -40, -80)).diagnosis).toBe('none');
+  });
+
+  it('smooths the hum level between readings', () => {
+    const analyzer = createHumAnalyzer({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE });
+    const first = analyzer.analyze(spectrumWith(harmonicsOf(50, 4), -40));
+    const second = analyzer.analyze(spectrumWith(harmonicsOf(50, 4), -20));
+    expect(second.humLevelDb).toBeGreaterThan(first.humLevelDb);
+    expect(second.humLevelDb).toBeLessThan(first.humLevelDb + 20);
+  });
+
+  it('starts fresh after reset', () => {
+    const analyzer = createHumAnalyzer({ sampleRate: SAMPLE_RATE, fftSize: FFT_SIZE });
+    analyzer.analyze(spectrumWith([]));
+    analyzer.reset();
+    expect(analyzer.analyze(spectrumWith([], -40, -80)).diagnosis).toBe('gain_noise');
+  });
+});
+
+describe('humToInstruction', () => {
+  const reading = (diagnosis: HumReading['diagnosis']): HumReading => ({
+    mainsFrequency: 50,
+    humLevelDb: -40,
+    humProminenceDb: 20,
+    harmonicsFound: 4,
+    hissLevelDb: -70,
+    diagnosis
+  });
+
+  it('maps each diagnosis to its card', () => {
+    expect(humToInstruction(reading('ground_loop'), 'en')?.action).toBe('check_cables');
+    expect(humToInstruction(reading('gain_noise'), 'en')?.action).toBe('reduce_gain');
+    expect(humToInstruction(reading('none'), 'en')).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { bandPowerDb, frequencyToBin, localMedian, peakInRange } from './spectrum';
+import { HumDiagnosis, HumReading, InstructionState } from '../types';
+import { Language, uiStrings } from './i18n';
+
+interface HumAnalyzerOptions {
+  sampleRate: number;
+  fftSize: number;
+  // Number of harmonics (including the fundamental) to inspect
+  harmonics?: number;
+}
+
+// A harmonic counts as present when it stands this far above its neighbours
+const HARMONIC_PROMINENCE_DB = 6;
+// Average prominence that marks a clear ground-loop hum
+const GROUND_LOOP_PROMINENCE_DB = 10;
+// Broadband noise floor (2-7 kHz) above which the gain is set too high
+const HISS_THRESHOLD_DB = -55;
+// Readings kept to estimate the noise floor between words
+const NOISE_FLOOR_HISTORY = 20;
+const SMOOTHING = 0.3;
+
+function measureMains(
+  spectrum: Float32Array,
+  sampleRate: number,
+  fftSize: number,
+  mains: 50 | 60,
+  harmonics: number
+) {
+  const neighbourhood = Math.max(3, frequencyToBin(20, sampleRate, fftSize));
+  const skip = Math.max(1, frequencyToBin(3, sampleRate, fftSize));
+  let power = 0;
+  let prominenceSum = 0;
+  let found = 0;
+
+  for (let k = 1; k <= harmonics; k++) {
+    const target = mains * k;
+    if (target >= sampleRate / 2) break;
+    const { bin, levelDb } = peakInRange(spectrum, sampleRate, fftSize, target - 2, target + 2);
+    if (!Number.isFinite(levelDb)) continue;
+    const prominence = levelDb - localMedian(spectrum, bin - neighbourhood, bin + neighbourhood, bin, skip);
+    if (prominence >= HARMONIC_PROMINENCE_DB) {
+      found++;
+      prominenceSum += prominence;
+      power += Math.pow(10, levelDb / 10);
+    }
+  }
+
+  return {
+    mains,
+    levelDb: power > 0 ? 10 * Math.log10(power) : -Infinity,
+    prominenceDb: found > 0 ? prominenceSum / found : 0,
+    found
+  };
+}
+
+function diagnose(prominenceDb: number, found: number, hissLevelDb: number): HumDiagnosis {
+  if (found >= 2 && prominenceDb >= GROUND_LOOP_PROMINENCE_DB) return 'ground_loop';
+  if (hissLevelDb >= HISS_THRESHOLD_DB) return 'gain_noise';
+  return 'none';
+}
+
+/**
+ * Measures mains hum (50/60 Hz and harmonics) against the broadband noise
+ * floor. Hum concentrated on the mains harmonics points to a ground loop or
+ * a bad cable, while a raised flat floor points to gain staging.
+ */
+export function createHumAnalyzer(options: HumAnalyzerOptions) {
+  const { sampleRate, fftSize, harmonics = 8 } = options;
+  let hissHistory: number[] = [];
+  let smoothed: { humLevelDb: number; humProminenceDb: number } | null = null;
+
+  const analyze = (spectrum: Float32Array): HumReading => {
+    const at50 = measureMains(spectrum, sampleRate, fftSize, 50, harmonics);
+    const at60 = measureMains(spectrum, sampleRate, fftSize, 60, harmonics);
+    const best = at60.found * at60.prominenceDb > at50.found * at50.prominenceDb ? at60 : at50;
+
+    // Speech also fills the hiss band, so the floor is the quietest recent reading
+    const hiss = bandPowerDb(spectrum, sampleRate, fftSize, 2000, Math.min(7000, sampleRate / 2 - 100));
+    hissHistory = [...hissHistory, hiss].slice(-NOISE_FLOOR_HISTORY);
+    const hissLevelDb = Math.min(...hissHistory);
+
+    const humLevelDb = Number.isFinite(best.levelDb) ? best.levelDb : -120;
+    smoothed = smoothed
+      ? {
+          humLevelDb: smoothed.humLevelDb + SMOOTHING * (humLevelDb - smoothed.humLevelDb),
+          humProminenceDb: smoothed.humProminenceDb + SMOOTHING * (best.prominenceDb - smoothed.humProminenceDb)
+        }
+      : { humLevelDb, humProminenceDb: best.prominenceDb };
+
+    return {
+      mainsFrequency: best.mains,
+      humLevelDb: Math.round(smoothed.humLevelDb),
+      humProminenceDb: Math.round(smoothed.humProminenceDb),
+      harmonicsFound: best.found,
+      hissLevelDb: Number.isFinite(hissLevelDb) ? Math.round(hissLevelDb) : -120,
+      diagnosis: diagnose(smoothed.humProminenceDb, best.found, hissLevelDb)
+    };
+  };
+
+  const reset = () => {
+    hissHistory = [];
+    smoothed = null;
+  };
+
+  return { analyze, reset };
+}
+
+export type HumAnalyzer = ReturnType<typeof createHumAnalyzer>;
+
+/** Maps a hum diagnosis to the instruction card shown to the user. */
+export function humToInstruction(reading: HumReading, language: Language): InstructionState | null {
+  const t = uiStrings(language).analysis;
+  switch (reading.diagnosis) {
+    case 'ground_loop':
+      return {
+        action: 'check_cables',
+        message: t.humGroundLoop(reading.mainsFrequency)
+      };
+    case 'gain_noise':
+      return {
+        action: 'reduce_gain',
+        message: t.humGainNoise
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,2097 @@
+import { ComparisonVerdict, EqLayoutId, HumDiagnosis, StepOutcome } from '../types';
+import { ProblemId, TroubleNodeId } from './troubleshootingTree';
+
+// Interface languages, their text direction and model voice, and the UI strings.
+
+export type Language = 'ar' | 'ur' | 'tr' | 'ms' | 'fr' | 'en';
+
+export interface LanguageInfo {
+  id: Language;
+  // Shown in the picker, in the language itself
+  nativeName: string;
+  // Used when telling the model which language to speak
+  englishName: string;
+  dir: 'rtl' | 'ltr';
+  // Gemini prebuilt voice
+  voice: string;
+  // For dates and times in the session history
+  locale: string;
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { id: 'ar', nativeName: 'العربية', englishName: 'Arabic', dir: 'rtl', voice: 'Puck', locale: 'ar-EG' },
+  { id: 'ur', nativeName: 'اردو', englishName: 'Urdu', dir: 'rtl', voice: 'Orus', locale: 'ur-PK' },
+  { id: 'tr', nativeName: 'Türkçe', englishName: 'Turkish', dir: 'ltr', voice: 'Kore', locale: 'tr-TR' },
+  { id: 'ms', nativeName: 'Bahasa Melayu', englishName: 'Malay', dir: 'ltr', voice: 'Aoede', locale: 'ms-MY' },
+  { id: 'fr', nativeName: 'Français', englishName: 'French', dir: 'ltr', voice: 'Charon', locale: 'fr-FR' },
+  { id: 'en', nativeName: 'English', englishName: 'English', dir: 'ltr', voice: 'Puck', locale: 'en-GB' }
+];
+
+export const DEFAULT_LANGUAGE: Language = 'ar';
+
+const LANGUAGE_KEY = 'mosque-audio-tuner.language';
+
+export function languageInfo(language: Language): LanguageInfo {
+  return LANGUAGES.find(l => l.id === language) ?? LANGUAGES[0];
+}
+
+export function loadLanguage(): Language {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  return LANGUAGES.some(l => l.id === stored) ? (stored as Language) : DEFAULT_LANGUAGE;
+}
+
+export function saveLanguage(language: Language) {
+  localStorage.setItem(LANGUAGE_KEY, language);
+}
+
+/** Sets lang and dir on <html> so the whole page flips with the language. */
+export function applyDocumentLanguage(language: Language) {
+  document.documentElement.lang = language;
+  document.documentElement.dir = languageInfo(language).dir;
+}
+
+export interface UiStrings {
+  app: {
+    title: string;
+    subtitle: string;
+    problemQuestion: string;
+    cameraPitch: string;
+    mosqueEquipment: string;
+    noEquipment: string;
+    change: string;
+    add: string;
+    startCheck: string;
+    ringOut: string;
+    history: string;
+    offline: string;
+    visualAnalysis: string;
+    audioAnalysis: string;
+    poweredBy: string;
+    language: string;
+    replayDiagnostic: string;
+    invalidDiagnostic: string;
+  };
+  live: {
+    errorTitle: string;
+    tokenServerError: string;
+    rateLimited: string;
+    accessDenied: string;
+    mediaUnavailable: string;
+    connectionError: string;
+    offlineHint: string;
+    offline: string;
+    backToMenu: string;
+    connected: string;
+    reconnecting: string;
+    connecting: string;
+    pointCamera: string;
+    aiSpeaking: string;
+    showSpectrum: string;
+    hideSpectrum: string;
+    tryPhrases: string;
+    reverbTest: string;
+    speakerTest: string;
+    endCall: string;
+    noClapHeard: string;
+    switchCamera: string;
+    torch: string;
+    pauseCamera: string;
+    resumeCamera: string;
+    muteMic: string;
+    unmuteMic: string;
+    framesSent: string;
+    framesSkipped: string;
+    saveReference: string;
+    compareReference: string;
+    pushToTalk: string;
+    halfDuplex: string;
+    fullDuplex: string;
+    holdToTalk: string;
+    listening: string;
+    reviewCaptions: string;
+    hideCaptions: string;
+    noCaptions: string;
+    typeQuestion: string;
+    send: string;
+    you: string;
+    engineer: string;
+    recordDiagnostics: string;
+    stopDiagnostics: string;
+    diagnosticsConsent: string;
+    replaying: string;
+    replaySent: string;
+    replayAnswered: string;
+    replayDropped: string;
+  };
+  instruction: {
+    title: string;
+    channel: (channel: number) => string;
+    done: string;
+    notHelped: string;
+    notFound: string;
+    steps: string;
+  };
+  // Measurement results, shown as instruction cards and in the history
+  analysis: {
+    feedbackTreble: (hz: number) => string;
+    feedbackGain: (hz: number) => string;
+    humGroundLoop: (hz: number) => string;
+    humGainNoise: string;
+    rt60: string;
+    edt: string;
+    echoRepeat: string;
+    seconds: (value: number) => string;
+    milliseconds: (value: number) => string;
+    reverbMixer: string;
+    reverbRoom: string;
+    reverbNormal: string;
+    bass: string;
+    mid: string;
+    treble: string;
+    responseBalanced: string;
+    trebleTooHigh: string;
+    trebleTooLow: string;
+    bassTooHigh: string;
+    bassTooLow: string;
+    midTooHigh: string;
+    midTooLow: string;
+    humLabel: (hz: number) => string;
+    humDiagnosis: Record<HumDiagnosis, string>;
+    verdicts: Record<ComparisonVerdict, string>;
+    outcomes: Record<StepOutcome, string>;
+  };
+  eq: {
+    layouts: Record<EqLayoutId, { label: string; description: string }>;
+    graphicNotch: (band: string, cutDb: number, hz: string) => string;
+    parametricNotch: (hz: string, cutDb: number) => string;
+    sweepNotch: (hz: string, cutDb: number) => string;
+    fixedNotch: (band: string, cutDb: number, hz: string) => string;
+  };
+  panels: {
+    reverbTitle: string;
+    reverbIntro: string;
+    clapNow: string;
+    playBurst: string;
+    reverbListening: string;
+    responseTitle: string;
+    responseIntro: string;
+    sweep: string;
+    pinkNoise: string;
+    responseMeasuring: string;
+    comparisonTitle: string;
+    comparisonMeasuring: string;
+    before: string;
+    after: string;
+    level: string;
+    peak: string;
+    feedbackTone: string;
+    hum: string;
+    tilt: string;
+    foundIt: string;
+    microphone: string;
+    engineerVoice: string;
+  };
+  ringOut: {
+    title: string;
+    micUnavailable: string;
+    setupTitle: string;
+    setupSteps: string[];
+    eqType: string;
+    savedCount: (count: number) => string;
+    startListening: string;
+    raiseTitle: string;
+    raiseHint: string;
+    captured: string;
+    listening: string;
+    recordedCount: (count: number) => string;
+    finish: string;
+    resultTitle: string;
+    noFeedback: string;
+    clearList: string;
+    newRound: string;
+  };
+  history: {
+    title: string;
+    loadError: string;
+    loading: string;
+    empty: string;
+    minutes: (count: number) => string;
+    adjustments: (count: number) => string;
+    errors: (count: number) => string;
+    textSummary: string;
+    delete: string;
+    byEngineer: string;
+    byAnalysis: string;
+    user: string;
+    engineer: string;
+    stepAnswer: (action: string) => string;
+    beforeAfter: (action: string) => string;
+    summaryTitle: string;
+    date: (date: string) => string;
+    timeFrom: (from: string) => string;
+    timeTo: (to: string, minutes: number) => string;
+    requested: (count: number) => string;
+    none: string;
+    stepAnswers: string;
+    verifications: string;
+    connectionProblems: string;
+    transcript: string;
+  };
+  offline: {
+    title: string;
+    whatProblem: string;
+    intro: string;
+    yes: string;
+    no: string;
+    done: string;
+    listening: string;
+    startMeasurement: string;
+    anotherProblem: string;
+    finish: string;
+    noClearSound: string;
+    micUnavailable: string;
+    problems: Record<ProblemId, string>;
+    // Question, measurement and step text of every troubleshooting node
+    nodes: Record<TroubleNodeId, string>;
+  };
+  profiles: {
+    listTitle: string;
+    editTitle: string;
+    empty: string;
+    unnamedMosque: string;
+    unknownMixer: string;
+    summary: (channels: number, imamChannel: number) => string;
+    edit: string;
+    delete: string;
+    addMosque: string;
+    mosqueName: string;
+    mixerModel: string;
+    amplifierModel: string;
+    channelCount: string;
+    imamChannel: string;
+    eqType: string;
+    eqBands: string;
+    effects: string;
+    notes: string;
+    save: string;
+  };
+  reference: {
+    captureTitle: string;
+    compareTitle: string;
+    captureHint: string;
+    saveReference: string;
+    compareHint: string;
+    compare: string;
+    similarity: string;
+    changedAreas: string;
+    changedHint: string;
+    noChange: string;
+  };
+}
+
+export const UI_STRINGS: Record<Language, UiStrings> = {
+  ar: {
+    app: {
+      title: 'مهندس الصوت',
+      subtitle: 'للمساجد',
+      problemQuestion: 'هل تواجه مشكلة "صدى" أو "زنة" في سماعات المسجد؟',
+      cameraPitch: 'افتح الكاميرا وسيقوم الذكاء الاصطناعي بمساعدتك في ضبط الجهاز فوراً.',
+      mosqueEquipment: 'جهاز المسجد',
+      noEquipment: 'لم يتم اختيار جهاز',
+      change: 'تغيير',
+      add: 'إضافة',
+      startCheck: 'ابـدأ الفحص الآن',
+      ringOut: 'معالج إزالة الصفير (Ring-out)',
+      history: 'سجل الجلسات',
+      offline: 'التشخيص بدون إنترنت',
+      visualAnalysis: 'تحليل بصري للإعدادات',
+      audioAnalysis: 'استماع وتحليل للصوت',
+      poweredBy: 'مدعوم بواسطة Gemini 2.5',
+      language: 'اللغة',
+      replayDiagnostic: 'تشغيل ملف تشخيص',
+      invalidDiagnostic: 'هذا ليس ملف تشخيص من التطبيق.'
+    },
+    live: {
+      errorTitle: 'حدث خطأ',
+      tokenServerError: 'تعذر الوصول إلى خادم التطبيق. تأكد من الإنترنت وحاول مرة أخرى.',
+      rateLimited: 'تم فتح جلسات كثيرة من هذا الهاتف. انتظر قليلاً ثم حاول مرة أخرى.',
+      accessDenied: 'هذه النسخة من التطبيق غير مسموح لها بالاتصال. تواصل مع من قام بإعداده.',
+      mediaUnavailable: 'تعذر الوصول إلى الكاميرا أو الميكروفون.',
+      connectionError: 'حدث خطأ في الاتصال. حاول مرة أخرى.',
+      offlineHint: 'يمكنك متابعة الفحص بدون إنترنت عن طريق أسئلة بسيطة.',
+      offline: 'التشخيص بدون إنترنت',
+      backToMenu: 'العودة للقائمة',
+      connected: 'متصل بالمهندس',
+      reconnecting: 'انقطع الاتصال، جاري إعادة الاتصال...',
+      connecting: 'جاري الاتصال...',
+      pointCamera: 'وجّه الكاميرا للجهاز',
+      aiSpeaking: 'المهندس يتحدث...',
+      showSpectrum: 'عرض الطيف',
+      hideSpectrum: 'إخفاء الطيف',
+      tryPhrases: 'جرب قل: "قلل الصدى" أو "في زنة"',
+      reverbTest: 'اختبار الصدى',
+      speakerTest: 'قياس السماعات',
+      endCall: 'إنهاء المكالمة',
+      noClapHeard: 'لم يتم التقاط صوت واضح. صفق بقوة أكثر في مكان هادئ وحاول مرة أخرى',
+      switchCamera: 'تبديل الكاميرا',
+      torch: 'الكشاف',
+      pauseCamera: 'إيقاف إرسال الصورة',
+      resumeCamera: 'تشغيل إرسال الصورة',
+      muteMic: 'كتم الميكروفون',
+      unmuteMic: 'تشغيل الميكروفون',
+      framesSent: 'صور مرسلة',
+      framesSkipped: 'متجاهلة',
+      saveReference: 'حفظ الإعداد الصحيح',
+      compareReference: 'مقارنة بالإعداد الصحيح',
+      pushToTalk: 'اضغط وتكلم',
+      halfDuplex: 'بالتناوب',
+      fullDuplex: 'مفتوح',
+      holdToTalk: 'اضغط مطولاً وتكلم',
+      listening: 'يسمعك المهندس',
+      reviewCaptions: 'مراجعة الكلام',
+      hideCaptions: 'إخفاء',
+      noCaptions: 'لا يوجد كلام بعد',
+      typeQuestion: 'اكتب سؤالك...',
+      send: 'إرسال',
+      you: 'أنت',
+      engineer: 'المهندس',
+      recordDiagnostics: 'تسجيل للتشخيص',
+      stopDiagnostics: 'إيقاف التسجيل وتنزيله',
+      diagnosticsConsent: 'سيُسجَّل صوت الميكروفون وصور الكاميرا وردود المهندس في ملف على هذا الهاتف لإرساله للدعم الفني. هل تريد البدء؟',
+      replaying: 'إعادة تشغيل',
+      replaySent: 'أرسل التطبيق',
+      replayAnswered: 'رد التطبيق',
+      replayDropped: 'انقطعت الجلسة المسجلة هنا'
+    },
+    instruction: {
+      title: 'توجيه المهندس',
+      channel: channel => `قناة ${channel}`,
+      done: 'تم',
+      notHelped: 'لم يفد',
+      notFound: 'لم أجد المفتاح',
+      steps: 'الخطوات'
+    },
+    analysis: {
+      feedbackTreble: hz => `في صفير عند ${hz} هرتز. قلل مفتاح الـ High فوراً`,
+      feedbackGain: hz => `في صفير عند ${hz} هرتز. قلل الـ Gain بتاع الميكروفون فوراً`,
+      humGroundLoop: hz => `في زنة كهرباء ${hz} هرتز. اتأكد من توصيل الأسلاك والأرضي`,
+      humGainNoise: 'في وش (تشويش) عالي. قلل الـ Gain وارفع الـ Master بدلاً منه',
+      rt60: 'زمن الصدى RT60',
+      edt: 'الصدى المبكر EDT',
+      echoRepeat: 'تكرار الصوت كل',
+      seconds: value => `${value} ث`,
+      milliseconds: value => `${value} م.ث`,
+      reverbMixer: 'الصدى من الجهاز نفسه (Echo/Delay). قلل مفتاح الصدى لليسار',
+      reverbRoom: 'الصدى من القاعة نفسها وليس من الجهاز. قلل الصوت والـ Bass بدلاً من مفتاح الصدى',
+      reverbNormal: 'الصدى في الحدود الطبيعية',
+      bass: 'الـ Bass',
+      mid: 'الـ Mid',
+      treble: 'الـ Treble',
+      responseBalanced: 'استجابة الصوت متوازنة. لا حاجة لتعديل الـ EQ',
+      trebleTooHigh: 'الصوت حاد زيادة. قلل مفتاح الـ High/Treble قليلاً',
+      trebleTooLow: 'الصوت مكتوم. ارفع مفتاح الـ High/Treble',
+      bassTooHigh: 'الـ Bass عالي ويسبب دوشة. قلل مفتاح الـ Low/Bass',
+      bassTooLow: 'الصوت رفيع. ارفع مفتاح الـ Low/Bass قليلاً',
+      midTooHigh: 'الـ Mid عالي والصوت "أنفي". قلل مفتاح الـ Mid قليلاً',
+      midTooLow: 'الصوت بعيد وغير واضح. ارفع مفتاح الـ Mid قليلاً',
+      humLabel: hz => `الزنة ${hz} هرتز`,
+      humDiagnosis: {
+        none: 'لا توجد زنة',
+        ground_loop: 'زنة كهرباء (أرضي/أسلاك)',
+        gain_noise: 'تشويش من الـ Gain'
+      },
+      verdicts: {
+        better: 'تحسّن الصوت',
+        worse: 'الصوت أسوأ من قبل',
+        unchanged: 'لا يوجد فرق واضح',
+        unknown: 'لا يمكن الحكم'
+      },
+      outcomes: {
+        done: 'تم',
+        not_helped: 'لم يفد',
+        not_found: 'لم يجد المفتاح'
+      }
+    },
+    eq: {
+      layouts: {
+        three_band: { label: '3 مفاتيح (Low / Mid / High)', description: 'أغلب الميكسرات الصغيرة' },
+        four_band_sweep: { label: '4 مفاتيح مع Mid Freq', description: 'مفتاح لاختيار تردد الـ Mid' },
+        graphic_31: { label: 'إكولايزر جرافيك 31 شريط', description: 'جهاز EQ منفصل بأشرطة' },
+        parametric: { label: 'إكولايزر بارامتري / ديجيتال', description: 'تحديد التردد والـ Q بدقة' }
+      },
+      graphicNotch: (band, cutDb, hz) => `انزل شريط ${band} هرتز بمقدار ${cutDb} dB (الصفير عند ${hz})`,
+      parametricNotch: (hz, cutDb) => `اعمل فلتر عند ${hz} هرتز بـ Q ضيق (حوالي 8) واخفضه ${cutDb} dB`,
+      sweepNotch: (hz, cutDb) => `لف مفتاح Mid Freq على ${hz} هرتز وقلل الـ Mid بمقدار ${cutDb} dB`,
+      fixedNotch: (band, cutDb, hz) => `قلل مفتاح الـ ${band} قليلاً (حوالي ${cutDb} dB) بسبب صفير عند ${hz} هرتز`
+    },
+    panels: {
+      reverbTitle: 'اختبار صدى القاعة',
+      reverbIntro: 'قف في وسط المسجد والميكروفون مفتوح، ثم صفق مرة واحدة بقوة أو شغّل نبضة من التليفون.',
+      clapNow: 'سأصفق الآن',
+      playBurst: 'شغّل نبضة',
+      reverbListening: 'جاري الاستماع... التزم الهدوء حتى ينتهي الصدى',
+      responseTitle: 'قياس استجابة السماعات',
+      responseIntro: 'قرّب التليفون من ميكروفون المسجد (أو وصّله بالجهاز)، ثم اختر إشارة الاختبار. سيتم تسجيل الصوت من السماعات.',
+      sweep: 'صفارة متدرجة',
+      pinkNoise: 'وشّ وردي',
+      responseMeasuring: 'جاري القياس... التزم الهدوء',
+      comparisonTitle: 'قبل وبعد التعديل',
+      comparisonMeasuring: 'جاري التسجيل بعد التعديل... تكلّم في الميكروفون',
+      before: 'قبل',
+      after: 'بعد',
+      level: 'مستوى الصوت',
+      peak: 'أعلى قمة',
+      feedbackTone: 'نغمة الصفير',
+      hum: 'الزنّة',
+      tilt: 'ميل الطبقات',
+      foundIt: 'لقيته',
+      microphone: 'الميكروفون',
+      engineerVoice: 'صوت المهندس'
+    },
+    ringOut: {
+      title: 'معالج إزالة الصفير',
+      micUnavailable: 'تعذر الوصول إلى الميكروفون.',
+      setupTitle: 'الخطوة 1: التجهيز',
+      setupSteps: [
+        'خلي كل مفاتيح الـ EQ في النص (الساعة 12).',
+        'نزّل الـ Gain بتاع ميكروفون الإمام للآخر.',
+        'حط الميكروفون في مكانه المعتاد وقف جنب السماعات.'
+      ],
+      eqType: 'نوع الـ EQ في الجهاز:',
+      savedCount: count => `يوجد ${count} تردد محفوظ من قبل، وسيتم إضافة الترددات الجديدة لها.`,
+      startListening: 'ابدأ الاستماع',
+      raiseTitle: 'الخطوة 2: ارفع الـ Gain ببطء',
+      raiseHint: 'ارفع الـ Gain بالراحة جداً. أول ما تسمع صفير هنسجل التردد، وساعتها نزّل الـ Gain خطوة صغيرة وكمّل رفع.',
+      captured: 'تم التسجيل. نزّل الـ Gain خطوة ثم كمّل.',
+      listening: 'جاري الاستماع...',
+      recordedCount: count => `الترددات المسجلة: ${count}`,
+      finish: 'وصلت لأعلى Gain مطلوب، انتهيت',
+      resultTitle: 'الخطوة 3: قائمة الترددات',
+      noFeedback: 'لم يتم تسجيل أي صفير. الـ Gain الحالي آمن.',
+      clearList: 'مسح القائمة',
+      newRound: 'جولة جديدة'
+    },
+    history: {
+      title: 'سجل الجلسات',
+      loadError: 'تعذر تحميل السجل.',
+      loading: 'جاري التحميل...',
+      empty: 'لا توجد جلسات محفوظة بعد.',
+      minutes: count => `${count} دقيقة`,
+      adjustments: count => `${count} تعديل`,
+      errors: count => `${count} خطأ`,
+      textSummary: 'ملخص نصي',
+      delete: 'حذف',
+      byEngineer: 'توجيه المهندس',
+      byAnalysis: 'تحليل آلي',
+      user: 'المستخدم',
+      engineer: 'المهندس',
+      stepAnswer: action => `رد المستخدم (${action})`,
+      beforeAfter: action => `قبل/بعد (${action})`,
+      summaryTitle: 'ملخص جلسة ضبط الصوت',
+      date: date => `التاريخ: ${date}`,
+      timeFrom: from => `الوقت: من ${from}`,
+      timeTo: (to, minutes) => ` إلى ${to} (${minutes} دقيقة)`,
+      requested: count => `التعديلات المطلوبة (${count}):`,
+      none: 'لا توجد',
+      stepAnswers: 'رد المستخدم على الخطوات:',
+      verifications: 'نتائج القياس قبل وبعد التعديل:',
+      connectionProblems: 'مشاكل الاتصال:',
+      transcript: 'نص المحادثة:'
+    },
+    offline: {
+      title: 'التشخيص بدون إنترنت',
+      whatProblem: 'ما المشكلة؟',
+      intro: 'هذا الوضع يعمل بدون اتصال، ويعتمد على أسئلة بسيطة وتحليل الصوت من الميكروفون.',
+      yes: 'نعم',
+      no: 'لا',
+      done: 'تم',
+      listening: 'جاري الاستماع...',
+      startMeasurement: 'ابدأ القياس',
+      anotherProblem: 'مشكلة أخرى',
+      finish: 'إنهاء',
+      noClearSound: 'لم يتم التقاط صوت واضح. حاول مرة أخرى في مكان أهدأ',
+      micUnavailable: 'تعذر الوصول إلى الميكروفون.',
+      problems: {
+        echo: 'صدى زيادة',
+        buzz: 'زنة',
+        feedback: 'صفير',
+        muffled: 'الصوت مكتوم',
+        low_volume: 'الصوت واطي'
+      },
+      nodes: {
+        solved: 'ممتاز! تم حل المشكلة',
+        echo_has_knob: 'هل في الجهاز مفتاح مكتوب عليه Echo أو Delay أو Rev؟',
+        echo_reduce: 'لف مفتاح الصدى (Echo/Delay/Rev) لليسار للآخر',
+        echo_fixed: 'هل اختفى الصدى المزعج؟',
+        echo_restore: 'لو الصوت بقى ناشف، ارفع مفتاح الصدى سنة صغيرة لحد ما يبقى مريح',
+        echo_measure: 'قف في وسط المسجد والميكروفون مفتوح، ثم اضغط "ابدأ القياس" وصفق مرة واحدة بقوة.',
+        echo_other_effect: 'الصوت بيتكرر من الجهاز. اقفل الـ Echo في كل القنوات وفي أي جهاز مؤثرات خارجي',
+        echo_effect_fixed: 'هل اختفى تكرار الصوت؟',
+        echo_room: 'الصدى من القاعة نفسها. قلل الـ Master والـ Bass، ووجّه السماعات ناحية المصلين بعيداً عن الحيطان',
+        buzz_measure: 'خلي الميكروفون مفتوح ومحدش يتكلم، ثم اضغط "ابدأ القياس" وقرّب التليفون من السماعة.',
+        buzz_cables: 'في زنة كهرباء. اتأكد إن كابلات الميكروفون مربوطة كويس، وجرب كابل تاني لو موجود',
+        buzz_cables_fixed: 'هل اختفت الزنة؟',
+        buzz_power: 'وصّل الميكسر والأمبليفاير في نفس المشترك، وابعد كابلات الصوت عن كابلات الكهرباء والإضاءة',
+        buzz_gain: 'التشويش من ارتفاع الـ Gain. قلل الـ Gain وارفع الـ Master بدلاً منه',
+        buzz_gain_fixed: 'هل قل التشويش؟',
+        buzz_touch: 'مفيش زنة واضحة دلوقتي. هل الزنة بتظهر لما حد يلمس الكابل أو الميكروفون؟',
+        buzz_intermittent: 'الزنة مش ظاهرة دلوقتي. لو رجعت، شغّل القياس وقتها عشان نعرف سببها',
+        feedback_measure: 'اضغط "ابدأ القياس" وارفع الصوت بالراحة لحد ما يبدأ الصفير، وبعدها نزله فوراً.',
+        feedback_treble: 'الصفير عند {frequency} هرتز. قلل مفتاح الـ High سنة',
+        feedback_gain: 'الصفير عند {frequency} هرتز. قلل الـ Gain بتاع الميكروفون سنة',
+        feedback_fixed: 'ارفع الصوت للمستوى العادي. هل اختفى الصفير؟',
+        feedback_position: 'ابعد الميكروفون عن السماعات، ووجّه السماعات بعيداً عن مكان الإمام',
+        feedback_position_fixed: 'هل اختفى الصفير؟',
+        feedback_master: 'قلل الـ Master لحد ما الصفير يختفي، واستخدم معالج إزالة الصفير من الشاشة الرئيسية',
+        muffled_treble: 'ارفع مفتاح الـ High/Treble لحد الساعة 2',
+        muffled_treble_fixed: 'هل الصوت بقى أوضح؟',
+        muffled_bass: 'قلل مفتاح الـ Low/Bass لحد الساعة 11',
+        muffled_bass_fixed: 'هل الصوت بقى أوضح؟',
+        muffled_mic: 'اتأكد إن الميكروفون متوجه لفم الإمام ومش متغطي. لو لسه مكتوم، ممكن السماعة نفسها محتاجة صيانة',
+        low_signal_light: 'لما حد بيتكلم في الميكروفون، هل لمبة الإشارة (Signal/Peak) الخضرا بتنور؟',
+        low_gain: 'ارفع الـ Gain بتاع القناة بالتدريج لحد ما اللمبة الخضرا تنور مع الكلام',
+        low_master: 'ارفع الـ Master/Volume بالتدريج',
+        low_feedback: 'هل بدأ صفير؟',
+        low_fixed: 'هل الصوت بقى مسموع كويس؟',
+        low_amplifier: 'اتأكد إن الأمبليفاير شغال ومفتاح الـ Volume بتاعه مرفوع، وإن كابل الميكسر للأمبليفاير متوصل'
+      }
+    },
+    profiles: {
+      listTitle: 'ملفات أجهزة المساجد',
+      editTitle: 'بيانات جهاز المسجد',
+      empty: 'لا توجد ملفات بعد. أضف بيانات الميكسر حتى لا يضطر المهندس للسؤال عنها في كل مرة.',
+      unnamedMosque: 'مسجد بدون اسم',
+      unknownMixer: 'ميكسر غير محدد',
+      summary: (channels, imamChannel) => `${channels} قنوات · الإمام على ${imamChannel}`,
+      edit: 'تعديل',
+      delete: 'حذف',
+      addMosque: 'إضافة مسجد جديد',
+      mosqueName: 'اسم المسجد',
+      mixerModel: 'موديل الميكسر',
+      amplifierModel: 'موديل الأمبليفاير',
+      channelCount: 'عدد القنوات',
+      imamChannel: 'قناة ميكروفون الإمام',
+      eqType: 'نوع الـ EQ',
+      eqBands: 'مفاتيح الـ EQ (مفصولة بفاصلة)',
+      effects: 'المؤثرات (مفصولة بفاصلة)',
+      notes: 'ملاحظات',
+      save: 'حفظ'
+    },
+    reference: {
+      captureTitle: 'حفظ الإعداد الصحيح',
+      compareTitle: 'المقارنة بالإعداد الصحيح',
+      captureHint: 'اكتب وضع كل مفتاح كما ضبطه الفني (مثلاً: الساعة 12 أو 0 dB).',
+      saveReference: 'حفظ كإعداد صحيح',
+      compareHint: 'وجّه الكاميرا بحيث تنطبق الصورة الباهتة على الجهاز، ثم اضغط "قارن".',
+      compare: 'قارن',
+      similarity: 'التطابق',
+      changedAreas: 'أماكن تغيرت',
+      changedHint: 'الأماكن المحددة على الشاشة تختلف عن الصورة الصحيحة. المهندس سيساعدك في إرجاعها.',
+      noChange: 'لا يوجد فرق واضح عن الإعداد الصحيح.'
+    }
+  },
+  ur: {
+    app: {
+      title: 'ساؤنڈ انجینئر',
+      subtitle: 'مساجد کے لیے',
+      problemQuestion: 'کیا مسجد کے اسپیکروں میں "گونج" یا "بھنبھناہٹ" کا مسئلہ ہے؟',
+      cameraPitch: 'کیمرہ کھولیں، مصنوعی ذہانت فوراً آلہ درست کرنے میں آپ کی مدد کرے گی۔',
+      mosqueEquipment: 'مسجد کا آلہ',
+      noEquipment: 'کوئی آلہ منتخب نہیں',
+      change: 'تبدیل کریں',
+      add: 'شامل کریں',
+      startCheck: 'ابھی جانچ شروع کریں',
+      ringOut: 'سیٹی ختم کرنے کا وزرڈ (Ring-out)',
+      history: 'سیشنز کی تاریخ',
+      offline: 'انٹرنیٹ کے بغیر تشخیص',
+      visualAnalysis: 'سیٹنگز کا بصری تجزیہ',
+      audioAnalysis: 'آواز سننا اور تجزیہ',
+      poweredBy: 'Gemini 2.5 کی مدد سے',
+      language: 'زبان',
+      replayDiagnostic: 'تشخیصی فائل چلائیں',
+      invalidDiagnostic: 'یہ ایپ کی تشخیصی فائل نہیں ہے۔'
+    },
+    live: {
+      errorTitle: 'ایک خرابی پیش آئی',
+      tokenServerError: 'ایپ کے سرور تک رسائی نہیں ہو سکی۔ انٹرنیٹ چیک کریں اور دوبارہ کوشش کریں۔',
+      rateLimited: 'اس فون سے بہت زیادہ سیشن کھولے گئے۔ تھوڑا انتظار کریں پھر دوبارہ کوشش کریں۔',
+      accessDenied: 'ایپ کے اس نسخے کو رابطے کی اجازت نہیں۔ اسے ترتیب دینے والے سے رابطہ کریں۔',
+      mediaUnavailable: 'کیمرے یا مائیکروفون تک رسائی نہیں ہو سکی۔',
+      connectionError: 'کنکشن میں خرابی۔ دوبارہ کوشش کریں۔',
+      offlineHint: 'آپ آسان سوالوں کے ذریعے انٹرنیٹ کے بغیر جانچ جاری رکھ سکتے ہیں۔',
+      offline: 'انٹرنیٹ کے بغیر تشخیص',
+      backToMenu: 'مینو پر واپس جائیں',
+      connected: 'انجینئر سے منسلک',
+      reconnecting: 'کنکشن ٹوٹ گیا، دوبارہ جوڑا جا رہا ہے...',
+      connecting: 'جوڑا جا رہا ہے...',
+      pointCamera: 'کیمرہ آلے کی طرف کریں',
+      aiSpeaking: 'انجینئر بول رہے ہیں...',
+      showSpectrum: 'اسپیکٹرم دکھائیں',
+      hideSpectrum: 'اسپیکٹرم چھپائیں',
+      tryPhrases: 'کہہ کر دیکھیں: "گونج کم کرو" یا "بھنبھناہٹ ہے"',
+      reverbTest: 'گونج کا ٹیسٹ',
+      speakerTest: 'اسپیکر کا ٹیسٹ',
+      endCall: 'کال ختم کریں',
+      noClapHeard: 'صاف آواز ریکارڈ نہیں ہوئی۔ خاموش جگہ پر زور سے تالی بجا کر دوبارہ کوشش کریں',
+      switchCamera: 'کیمرہ تبدیل کریں',
+      torch: 'ٹارچ',
+      pauseCamera: 'تصویر بھیجنا روکیں',
+      resumeCamera: 'تصویر بھیجنا دوبارہ شروع کریں',
+      muteMic: 'مائیکروفون بند کریں',
+      unmuteMic: 'مائیکروفون کھولیں',
+      framesSent: 'بھیجی گئی تصاویر',
+      framesSkipped: 'چھوڑی گئی',
+      saveReference: 'درست سیٹنگ محفوظ کریں',
+      compareReference: 'درست سیٹنگ سے موازنہ',
+      pushToTalk: 'دبا کر بولیں',
+      halfDuplex: 'باری باری',
+      fullDuplex: 'کھلا',
+      holdToTalk: 'دبائے رکھیں اور بولیں',
+      listening: 'انجینئر سن رہا ہے',
+      reviewCaptions: 'گفتگو دیکھیں',
+      hideCaptions: 'چھپائیں',
+      noCaptions: 'ابھی کوئی گفتگو نہیں',
+      typeQuestion: 'اپنا سوال لکھیں...',
+      send: 'بھیجیں',
+      you: 'آپ',
+      engineer: 'انجینئر',
+      recordDiagnostics: 'تشخیص کے لیے ریکارڈ کریں',
+      stopDiagnostics: 'ریکارڈنگ روکیں اور ڈاؤن لوڈ کریں',
+      diagnosticsConsent: 'مائیکروفون کی آواز، کیمرے کی تصاویر اور انجینئر کے جوابات اس فون پر ایک فائل میں محفوظ ہوں گے تاکہ تکنیکی مدد کو بھیجے جا سکیں۔ شروع کریں؟',
+      replaying: 'دوبارہ چل رہا ہے',
+      replaySent: 'ایپ نے بھیجا',
+      replayAnswered: 'ایپ نے جواب دیا',
+      replayDropped: 'ریکارڈ شدہ سیشن یہاں ٹوٹ گیا'
+    },
+    instruction: {
+      title: 'انجینئر کی ہدایت',
+      channel: channel => `چینل ${channel}`,
+      done: 'ہو گیا',
+      notHelped: 'فائدہ نہیں ہوا',
+      notFound: 'بٹن نہیں ملا',
+      steps: 'مراحل'
+    },
+    analysis: {
+      feedbackTreble: hz => `${hz} ہرٹز پر سیٹی ہے۔ High کا بٹن فوراً کم کریں`,
+      feedbackGain: hz => `${hz} ہرٹز پر سیٹی ہے۔ مائیکروفون کا Gain فوراً کم کریں`,
+      humGroundLoop: hz => `${hz} ہرٹز کی بجلی کی بھنبھناہٹ ہے۔ تاروں کے کنکشن اور ارتھ چیک کریں`,
+      humGainNoise: 'تیز شور (سرسراہٹ) ہے۔ Gain کم کریں اور اس کی جگہ Master بڑھائیں',
+      rt60: 'گونج کا وقت RT60',
+      edt: 'ابتدائی گونج EDT',
+      echoRepeat: 'آواز دہرائی جاتی ہے ہر',
+      seconds: value => `${value} سیکنڈ`,
+      milliseconds: value => `${value} ملی سیکنڈ`,
+      reverbMixer: 'گونج خود آلے سے آ رہی ہے (Echo/Delay)۔ گونج کا بٹن بائیں طرف گھمائیں',
+      reverbRoom: 'گونج ہال سے آ رہی ہے، آلے سے نہیں۔ گونج کے بٹن کی بجائے آواز اور Bass کم کریں',
+      reverbNormal: 'گونج معمول کی حد میں ہے',
+      bass: 'Bass',
+      mid: 'Mid',
+      treble: 'Treble',
+      responseBalanced: 'آواز متوازن ہے۔ EQ بدلنے کی ضرورت نہیں',
+      trebleTooHigh: 'آواز بہت تیز ہے۔ High/Treble کا بٹن تھوڑا کم کریں',
+      trebleTooLow: 'آواز دبی ہوئی ہے۔ High/Treble کا بٹن بڑھائیں',
+      bassTooHigh: 'Bass زیادہ ہے اور آواز گونجتی ہے۔ Low/Bass کا بٹن کم کریں',
+      bassTooLow: 'آواز پتلی ہے۔ Low/Bass کا بٹن تھوڑا بڑھائیں',
+      midTooHigh: 'Mid زیادہ ہے اور آواز ناک سے نکلتی لگتی ہے۔ Mid کا بٹن تھوڑا کم کریں',
+      midTooLow: 'آواز دور اور غیر واضح ہے۔ Mid کا بٹن تھوڑا بڑھائیں',
+      humLabel: hz => `بھنبھناہٹ ${hz} ہرٹز`,
+      humDiagnosis: {
+        none: 'کوئی بھنبھناہٹ نہیں',
+        ground_loop: 'بجلی کی بھنبھناہٹ (ارتھ/تاریں)',
+        gain_noise: 'Gain کی وجہ سے شور'
+      },
+      verdicts: {
+        better: 'آواز بہتر ہو گئی',
+        worse: 'آواز پہلے سے خراب ہے',
+        unchanged: 'کوئی واضح فرق نہیں',
+        unknown: 'فیصلہ نہیں ہو سکا'
+      },
+      outcomes: {
+        done: 'ہو گیا',
+        not_helped: 'فائدہ نہیں ہوا',
+        not_found: 'بٹن نہیں ملا'
+      }
+    },
+    eq: {
+      layouts: {
+        three_band: { label: '3 بٹن (Low / Mid / High)', description: 'زیادہ تر چھوٹے مکسر' },
+        four_band_sweep: { label: '4 بٹن، Mid Freq کے ساتھ', description: 'ایک بٹن Mid کی فریکوئنسی چنتا ہے' },
+        graphic_31: { label: '31 پٹیوں والا گرافک ایکولائزر', description: 'پٹیوں والا الگ EQ آلہ' },
+        parametric: { label: 'پیرامیٹرک / ڈیجیٹل ایکولائزر', description: 'فریکوئنسی اور Q درست طور پر طے ہوتے ہیں' }
+      },
+      graphicNotch: (band, cutDb, hz) => `${band} ہرٹز کی پٹی ${cutDb} dB نیچے کریں (سیٹی ${hz} پر)`,
+      parametricNotch: (hz, cutDb) => `${hz} ہرٹز پر تنگ Q (تقریباً 8) والا فلٹر لگائیں اور اسے ${cutDb} dB کم کریں`,
+      sweepNotch: (hz, cutDb) => `Mid Freq کا بٹن ${hz} ہرٹز پر کریں اور Mid کو ${cutDb} dB کم کریں`,
+      fixedNotch: (band, cutDb, hz) => `${band} کا بٹن تھوڑا کم کریں (تقریباً ${cutDb} dB)، کیونکہ ${hz} ہرٹز پر سیٹی ہے`
+    },
+    panels: {
+      reverbTitle: 'ہال کی گونج کا ٹیسٹ',
+      reverbIntro: 'مائیکروفون کھلا رکھ کر مسجد کے بیچ میں کھڑے ہوں، پھر ایک بار زور سے تالی بجائیں یا فون سے ٹک کی آواز چلائیں۔',
+      clapNow: 'تالی بجانے کے لیے تیار',
+      playBurst: 'ٹک کی آواز چلائیں',
+      reverbListening: 'سنا جا رہا ہے... گونج ختم ہونے تک خاموش رہیں',
+      responseTitle: 'اسپیکروں کی آواز کی پیمائش',
+      responseIntro: 'فون کو مسجد کے مائیکروفون کے قریب کریں (یا اسے آلے سے جوڑیں)، پھر ٹیسٹ سگنل چنیں۔ اسپیکروں کی آواز ریکارڈ کی جائے گی۔',
+      sweep: 'بدلتی سیٹی',
+      pinkNoise: 'گلابی شور',
+      responseMeasuring: 'پیمائش ہو رہی ہے... خاموش رہیں',
+      comparisonTitle: 'تبدیلی سے پہلے اور بعد',
+      comparisonMeasuring: 'تبدیلی کے بعد ریکارڈنگ ہو رہی ہے... مائیکروفون میں بولیں',
+      before: 'پہلے',
+      after: 'بعد',
+      level: 'آواز کی سطح',
+      peak: 'سب سے اونچی چوٹی',
+      feedbackTone: 'سیٹی کی دھن',
+      hum: 'بھنبھناہٹ',
+      tilt: 'آواز کا توازن',
+      foundIt: 'مل گیا',
+      microphone: 'مائیکروفون',
+      engineerVoice: 'انجینئر کی آواز'
+    },
+    ringOut: {
+      title: 'سیٹی ختم کرنے کا وزرڈ',
+      micUnavailable: 'مائیکروفون تک رسائی نہیں ہو سکی۔',
+      setupTitle: 'مرحلہ 1: تیاری',
+      setupSteps: [
+        'EQ کے سب بٹن درمیان میں (12 بجے) رکھیں۔',
+        'امام کے مائیکروفون کا Gain پورا نیچے کر دیں۔',
+        'مائیکروفون کو اس کی معمول کی جگہ پر رکھیں اور اسپیکروں کے پاس کھڑے ہوں۔'
+      ],
+      eqType: 'آلے میں EQ کی قسم:',
+      savedCount: count => `پہلے سے ${count} فریکوئنسیاں محفوظ ہیں، نئی فریکوئنسیاں ان میں شامل ہوں گی۔`,
+      startListening: 'سننا شروع کریں',
+      raiseTitle: 'مرحلہ 2: Gain آہستہ آہستہ بڑھائیں',
+      raiseHint: 'Gain بہت آہستہ بڑھائیں۔ سیٹی سنتے ہی ہم اس کی فریکوئنسی محفوظ کر لیں گے، پھر Gain ایک چھوٹا قدم کم کریں اور بڑھاتے رہیں۔',
+      captured: 'محفوظ ہو گیا۔ Gain ایک قدم کم کریں پھر جاری رکھیں۔',
+      listening: 'سنا جا رہا ہے...',
+      recordedCount: count => `محفوظ فریکوئنسیاں: ${count}`,
+      finish: 'مطلوبہ Gain تک پہنچ گیا، ختم کریں',
+      resultTitle: 'مرحلہ 3: فریکوئنسیوں کی فہرست',
+      noFeedback: 'کوئی سیٹی ریکارڈ نہیں ہوئی۔ موجودہ Gain محفوظ ہے۔',
+      clearList: 'فہرست صاف کریں',
+      newRound: 'نیا دور'
+    },
+    history: {
+      title: 'سیشنز کی تاریخ',
+      loadError: 'تاریخ لوڈ نہیں ہو سکی۔',
+      loading: 'لوڈ ہو رہا ہے...',
+      empty: 'ابھی کوئی سیشن محفوظ نہیں۔',
+      minutes: count => `${count} منٹ`,
+      adjustments: count => `${count} تبدیلیاں`,
+      errors: count => `${count} خرابیاں`,
+      textSummary: 'تحریری خلاصہ',
+      delete: 'حذف کریں',
+      byEngineer: 'انجینئر کی ہدایت',
+      byAnalysis: 'خودکار تجزیہ',
+      user: 'صارف',
+      engineer: 'انجینئر',
+      stepAnswer: action => `صارف کا جواب (${action})`,
+      beforeAfter: action => `پہلے/بعد (${action})`,
+      summaryTitle: 'آواز کی ترتیب کے سیشن کا خلاصہ',
+      date: date => `تاریخ: ${date}`,
+      timeFrom: from => `وقت: ${from} سے`,
+      timeTo: (to, minutes) => ` ${to} تک (${minutes} منٹ)`,
+      requested: count => `مطلوبہ تبدیلیاں (${count}):`,
+      none: 'کوئی نہیں',
+      stepAnswers: 'مراحل پر صارف کے جوابات:',
+      verifications: 'تبدیلی سے پہلے اور بعد کی پیمائش:',
+      connectionProblems: 'کنکشن کے مسائل:',
+      transcript: 'گفتگو کا متن:'
+    },
+    offline: {
+      title: 'انٹرنیٹ کے بغیر تشخیص',
+      whatProblem: 'مسئلہ کیا ہے؟',
+      intro: 'یہ طریقہ انٹرنیٹ کے بغیر چلتا ہے، آسان سوالوں اور مائیکروفون کی آواز کے تجزیے سے۔',
+      yes: 'ہاں',
+      no: 'نہیں',
+      done: 'ہو گیا',
+      listening: 'سنا جا رہا ہے...',
+      startMeasurement: 'پیمائش شروع کریں',
+      anotherProblem: 'کوئی اور مسئلہ',
+      finish: 'ختم کریں',
+      noClearSound: 'صاف آواز ریکارڈ نہیں ہوئی۔ کسی خاموش جگہ پر دوبارہ کوشش کریں',
+      micUnavailable: 'مائیکروفون تک رسائی نہیں ہو سکی۔',
+      problems: {
+        echo: 'زیادہ گونج',
+        buzz: 'بھنبھناہٹ',
+        feedback: 'سیٹی',
+        muffled: 'آواز دبی ہوئی',
+        low_volume: 'آواز دھیمی'
+      },
+      nodes: {
+        solved: 'بہت خوب! مسئلہ حل ہو گیا',
+        echo_has_knob: 'کیا آلے پر Echo، Delay یا Rev لکھا ہوا کوئی بٹن ہے؟',
+        echo_reduce: 'گونج کا بٹن (Echo/Delay/Rev) پورا بائیں طرف گھما دیں',
+        echo_fixed: 'کیا تنگ کرنے والی گونج ختم ہو گئی؟',
+        echo_restore: 'اگر آواز اب روکھی لگے تو گونج کا بٹن ذرا سا بڑھائیں جب تک آرام دہ نہ لگے',
+        echo_measure: 'مائیکروفون کھلا رکھ کر مسجد کے بیچ میں کھڑے ہوں، پھر "پیمائش شروع کریں" دبائیں اور ایک بار زور سے تالی بجائیں۔',
+        echo_other_effect: 'آلہ آواز دہرا رہا ہے۔ ہر چینل اور کسی بھی بیرونی ایفیکٹس آلے میں Echo بند کریں',
+        echo_effect_fixed: 'کیا آواز کا دہرانا ختم ہو گیا؟',
+        echo_room: 'گونج خود ہال سے آ رہی ہے۔ Master اور Bass کم کریں، اور اسپیکروں کا رخ دیواروں سے ہٹا کر نمازیوں کی طرف کریں',
+        buzz_measure: 'مائیکروفون کھلا رکھیں اور کوئی نہ بولے، پھر "پیمائش شروع کریں" دبائیں اور فون اسپیکر کے قریب کریں۔',
+        buzz_cables: 'بجلی کی بھنبھناہٹ ہے۔ دیکھیں کہ مائیکروفون کی تاریں مضبوطی سے لگی ہیں، اور ہو سکے تو دوسری تار آزمائیں',
+        buzz_cables_fixed: 'کیا بھنبھناہٹ ختم ہو گئی؟',
+        buzz_power: 'مکسر اور ایمپلیفائر کو ایک ہی ایکسٹینشن بورڈ میں لگائیں، اور آواز کی تاروں کو بجلی اور روشنی کی تاروں سے دور رکھیں',
+        buzz_gain: 'شور زیادہ Gain کی وجہ سے ہے۔ Gain کم کریں اور اس کی جگہ Master بڑھائیں',
+        buzz_gain_fixed: 'کیا شور کم ہوا؟',
+        buzz_touch: 'ابھی کوئی واضح بھنبھناہٹ نہیں۔ کیا کسی کے تار یا مائیکروفون کو چھونے پر بھنبھناہٹ آتی ہے؟',
+        buzz_intermittent: 'بھنبھناہٹ ابھی نہیں ہے۔ اگر واپس آئے تو اسی وقت پیمائش کریں تاکہ اس کی وجہ معلوم ہو',
+        feedback_measure: '"پیمائش شروع کریں" دبائیں اور آواز آہستہ آہستہ بڑھائیں جب تک سیٹی شروع نہ ہو، پھر فوراً کم کر دیں۔',
+        feedback_treble: 'سیٹی {frequency} ہرٹز پر ہے۔ High کا بٹن تھوڑا کم کریں',
+        feedback_gain: 'سیٹی {frequency} ہرٹز پر ہے۔ مائیکروفون کا Gain تھوڑا کم کریں',
+        feedback_fixed: 'آواز معمول کی سطح تک بڑھائیں۔ کیا سیٹی ختم ہو گئی؟',
+        feedback_position: 'مائیکروفون کو اسپیکروں سے دور کریں، اور اسپیکروں کا رخ امام کی جگہ سے ہٹا دیں',
+        feedback_position_fixed: 'کیا سیٹی ختم ہو گئی؟',
+        feedback_master: 'Master کم کریں جب تک سیٹی بند نہ ہو، اور مرکزی اسکرین سے سیٹی ختم کرنے کا وزرڈ استعمال کریں',
+        muffled_treble: 'High/Treble کا بٹن 2 بجے تک بڑھائیں',
+        muffled_treble_fixed: 'کیا آواز اب زیادہ صاف ہے؟',
+        muffled_bass: 'Low/Bass کا بٹن 11 بجے تک کم کریں',
+        muffled_bass_fixed: 'کیا آواز اب زیادہ صاف ہے؟',
+        muffled_mic: 'دیکھیں کہ مائیکروفون کا رخ امام کے منہ کی طرف ہے اور وہ ڈھکا ہوا نہیں۔ اگر پھر بھی آواز دبی ہو تو شاید اسپیکر کو مرمت کی ضرورت ہے',
+        low_signal_light: 'جب کوئی مائیکروفون میں بولتا ہے تو کیا سگنل کی سبز بتی (Signal/Peak) جلتی ہے؟',
+        low_gain: 'چینل کا Gain آہستہ آہستہ بڑھائیں جب تک بولنے پر سبز بتی نہ جلے',
+        low_master: 'Master/Volume آہستہ آہستہ بڑھائیں',
+        low_feedback: 'کیا سیٹی شروع ہو گئی؟',
+        low_fixed: 'کیا اب آواز اچھی طرح سنائی دیتی ہے؟',
+        low_amplifier: 'دیکھیں کہ ایمپلیفائر چل رہا ہے اور اس کا Volume بٹن اوپر ہے، اور مکسر سے ایمپلیفائر کی تار جڑی ہوئی ہے'
+      }
+    },
+    profiles: {
+      listTitle: 'مساجد کے آلات کی فائلیں',
+      editTitle: 'مسجد کے آلے کی تفصیل',
+      empty: 'ابھی کوئی فائل نہیں۔ مکسر کی تفصیل شامل کریں تاکہ انجینئر کو ہر بار پوچھنا نہ پڑے۔',
+      unnamedMosque: 'بے نام مسجد',
+      unknownMixer: 'مکسر معلوم نہیں',
+      summary: (channels, imamChannel) => `${channels} چینل · امام ${imamChannel} پر`,
+      edit: 'ترمیم',
+      delete: 'حذف کریں',
+      addMosque: 'نئی مسجد شامل کریں',
+      mosqueName: 'مسجد کا نام',
+      mixerModel: 'مکسر کا ماڈل',
+      amplifierModel: 'ایمپلیفائر کا ماڈل',
+      channelCount: 'چینلز کی تعداد',
+      imamChannel: 'امام کے مائیکروفون کا چینل',
+      eqType: 'EQ کی قسم',
+      eqBands: 'EQ کے بٹن (کوما سے الگ)',
+      effects: 'ایفیکٹس (کوما سے الگ)',
+      notes: 'نوٹس',
+      save: 'محفوظ کریں'
+    },
+    reference: {
+      captureTitle: 'درست سیٹنگ محفوظ کریں',
+      compareTitle: 'درست سیٹنگ سے موازنہ',
+      captureHint: 'ہر بٹن کی جگہ ویسے لکھیں جیسے ٹیکنیشن نے سیٹ کی تھی (مثلاً: 12 بجے یا 0 dB)۔',
+      saveReference: 'درست سیٹنگ کے طور پر محفوظ کریں',
+      compareHint: 'کیمرا ایسے رکھیں کہ دھندلی تصویر آلے پر آ جائے، پھر "موازنہ کریں" دبائیں۔',
+      compare: 'موازنہ کریں',
+      similarity: 'مطابقت',
+      changedAreas: 'بدلی ہوئی جگہیں',
+      changedHint: 'اسکرین پر نشان زدہ جگہیں درست تصویر سے مختلف ہیں۔ انجینئر انہیں واپس لانے میں آپ کی مدد کرے گا۔',
+      noChange: 'درست سیٹنگ سے کوئی واضح فرق نہیں۔'
+    }
+  },
+  tr: {
+    app: {
+      title: 'Ses Mühendisi',
+      subtitle: 'Camiler için',
+      problemQuestion: 'Cami hoparlörlerinde "yankı" ya da "uğultu" sorunu mu var?',
+      cameraPitch: 'Kamerayı açın, yapay zekâ cihazı hemen ayarlamanıza yardım etsin.',
+      mosqueEquipment: 'Cami cihazı',
+      noEquipment: 'Cihaz seçilmedi',
+      change: 'Değiştir',
+      add: 'Ekle',
+      startCheck: 'Kontrole şimdi başla',
+      ringOut: 'Mikrofon ötmesini giderme sihirbazı (Ring-out)',
+      history: 'Oturum geçmişi',
+      offline: 'İnternetsiz teşhis',
+      visualAnalysis: 'Ayarların görsel analizi',
+      audioAnalysis: 'Sesi dinleme ve analiz',
+      poweredBy: 'Gemini 2.5 ile çalışır',
+      language: 'Dil',
+      replayDiagnostic: 'Tanılama dosyasını oynat',
+      invalidDiagnostic: 'Bu, uygulamanın bir tanılama dosyası değil.'
+    },
+    live: {
+      errorTitle: 'Bir hata oluştu',
+      tokenServerError: 'Uygulama sunucusuna ulaşılamadı. İnterneti kontrol edip tekrar deneyin.',
+      rateLimited: 'Bu telefondan çok fazla oturum açıldı. Biraz bekleyip tekrar deneyin.',
+      accessDenied: 'Uygulamanın bu kopyasının bağlanma izni yok. Kurulumu yapan kişiyle iletişime geçin.',
+      mediaUnavailable: 'Kameraya veya mikrofona erişilemedi.',
+      connectionError: 'Bağlantı hatası. Lütfen tekrar deneyin.',
+      offlineHint: 'Basit sorularla kontrole internetsiz devam edebilirsiniz.',
+      offline: 'İnternetsiz teşhis',
+      backToMenu: 'Menüye dön',
+      connected: 'Mühendise bağlı',
+      reconnecting: 'Bağlantı koptu, yeniden bağlanılıyor...',
+      connecting: 'Bağlanılıyor...',
+      pointCamera: 'Kamerayı cihaza doğrultun',
+      aiSpeaking: 'Mühendis konuşuyor...',
+      showSpectrum: 'Spektrumu göster',
+      hideSpectrum: 'Spektrumu gizle',
+      tryPhrases: 'Şöyle deneyin: "yankıyı azalt" ya da "uğultu var"',
+      reverbTest: 'Yankı testi',
+      speakerTest: 'Hoparlör ölçümü',
+      endCall: 'Görüşmeyi bitir',
+      noClapHeard: 'Net bir ses alınamadı. Sessiz bir yerde daha güçlü alkışlayıp tekrar deneyin',
+      switchCamera: 'Kamerayı değiştir',
+      torch: 'Fener',
+      pauseCamera: 'Görüntü göndermeyi duraklat',
+      resumeCamera: 'Görüntü göndermeyi sürdür',
+      muteMic: 'Mikrofonu kapat',
+      unmuteMic: 'Mikrofonu aç',
+      framesSent: 'Gönderilen kare',
+      framesSkipped: 'atlanan',
+      saveReference: 'Doğru ayarı kaydet',
+      compareReference: 'Doğru ayarla karşılaştır',
+      pushToTalk: 'Bas-konuş',
+      halfDuplex: 'Sırayla',
+      fullDuplex: 'Açık',
+      holdToTalk: 'Basılı tutup konuşun',
+      listening: 'Mühendis dinliyor',
+      reviewCaptions: 'Konuşmayı göster',
+      hideCaptions: 'Gizle',
+      noCaptions: 'Henüz konuşma yok',
+      typeQuestion: 'Sorunuzu yazın...',
+      send: 'Gönder',
+      you: 'Siz',
+      engineer: 'Mühendis',
+      recordDiagnostics: 'Tanılama kaydı',
+      stopDiagnostics: 'Kaydı durdur ve indir',
+      diagnosticsConsent: 'Mikrofon sesi, kamera görüntüleri ve mühendisin yanıtları, teknik desteğe gönderilmek üzere bu telefonda bir dosyaya kaydedilecek. Başlatılsın mı?',
+      replaying: 'Tekrar oynatılıyor',
+      replaySent: 'Uygulama gönderdi',
+      replayAnswered: 'Uygulama yanıtladı',
+      replayDropped: 'Kaydedilen oturum burada koptu'
+    },
+    instruction: {
+      title: 'Mühendisin talimatı',
+      channel: channel => `Kanal ${channel}`,
+      done: 'Tamam',
+      notHelped: 'İşe yaramadı',
+      notFound: 'Bulamadım',
+      steps: 'Adımlar'
+    },
+    analysis: {
+      feedbackTreble: hz => `${hz} Hz'de ötme var. High düğmesini hemen kısın`,
+      feedbackGain: hz => `${hz} Hz'de ötme var. Mikrofonun Gain ayarını hemen kısın`,
+      humGroundLoop: hz => `${hz} Hz elektrik uğultusu var. Kablo bağlantılarını ve topraklamayı kontrol edin`,
+      humGainNoise: 'Yüksek hışırtı var. Gain ayarını kısıp yerine Master ayarını açın',
+      rt60: 'Yankı süresi RT60',
+      edt: 'Erken yankı EDT',
+      echoRepeat: 'Ses şu aralıkla tekrarlanıyor',
+      seconds: value => `${value} sn`,
+      milliseconds: value => `${value} ms`,
+      reverbMixer: 'Yankı cihazın kendisinden geliyor (Echo/Delay). Yankı düğmesini sola çevirin',
+      reverbRoom: 'Yankı cihazdan değil, salonun kendisinden geliyor. Yankı düğmesi yerine sesi ve Bass ayarını kısın',
+      reverbNormal: 'Yankı normal sınırlar içinde',
+      bass: 'Bass',
+      mid: 'Mid',
+      treble: 'Treble',
+      responseBalanced: 'Ses dengeli. EQ ayarına gerek yok',
+      trebleTooHigh: 'Ses fazla keskin. High/Treble düğmesini biraz kısın',
+      trebleTooLow: 'Ses boğuk. High/Treble düğmesini açın',
+      bassTooHigh: 'Bass fazla ve ses uğulduyor. Low/Bass düğmesini kısın',
+      bassTooLow: 'Ses ince. Low/Bass düğmesini biraz açın',
+      midTooHigh: 'Mid fazla ve ses genizden geliyor gibi. Mid düğmesini biraz kısın',
+      midTooLow: 'Ses uzak ve anlaşılmaz. Mid düğmesini biraz açın',
+      humLabel: hz => `Uğultu ${hz} Hz`,
+      humDiagnosis: {
+        none: 'Uğultu yok',
+        ground_loop: 'Elektrik uğultusu (toprak/kablolar)',
+        gain_noise: 'Gain kaynaklı parazit'
+      },
+      verdicts: {
+        better: 'Ses iyileşti',
+        worse: 'Ses öncekinden kötü',
+        unchanged: 'Belirgin bir fark yok',
+        unknown: 'Karar verilemiyor'
+      },
+      outcomes: {
+        done: 'Tamam',
+        not_helped: 'İşe yaramadı',
+        not_found: 'Düğmeyi bulamadı'
+      }
+    },
+    eq: {
+      layouts: {
+        three_band: { label: '3 düğme (Low / Mid / High)', description: 'Çoğu küçük mikser' },
+        four_band_sweep: { label: 'Mid Freq ile 4 düğme', description: 'Bir düğme Mid frekansını seçer' },
+        graphic_31: { label: '31 bantlı grafik ekolayzer', description: 'Sürgülü ayrı bir EQ cihazı' },
+        parametric: { label: 'Parametrik / dijital ekolayzer', description: 'Frekans ve Q tam olarak ayarlanır' }
+      },
+      graphicNotch: (band, cutDb, hz) => `${band} Hz sürgüsünü ${cutDb} dB indirin (ötme ${hz} civarında)`,
+      parametricNotch: (hz, cutDb) => `${hz} Hz'e dar Q'lu (yaklaşık 8) bir filtre koyup ${cutDb} dB kısın`,
+      sweepNotch: (hz, cutDb) => `Mid Freq düğmesini ${hz} Hz'e getirip Mid ayarını ${cutDb} dB kısın`,
+      fixedNotch: (band, cutDb, hz) => `${hz} Hz'deki ötme için ${band} düğmesini biraz kısın (yaklaşık ${cutDb} dB)`
+    },
+    panels: {
+      reverbTitle: 'Salon yankı testi',
+      reverbIntro: 'Mikrofon açıkken caminin ortasında durun, sonra bir kez güçlüce alkışlayın ya da telefondan bir tık sesi çalın.',
+      clapNow: 'Şimdi alkışlayacağım',
+      playBurst: 'Tık sesi çal',
+      reverbListening: 'Dinleniyor... yankı bitene kadar sessiz kalın',
+      responseTitle: 'Hoparlör tepki ölçümü',
+      responseIntro: 'Telefonu cami mikrofonuna yaklaştırın (ya da cihaza bağlayın), sonra bir test sinyali seçin. Hoparlörlerden gelen ses kaydedilecek.',
+      sweep: 'Kayan ton',
+      pinkNoise: 'Pembe gürültü',
+      responseMeasuring: 'Ölçülüyor... lütfen sessiz olun',
+      comparisonTitle: 'Ayardan önce ve sonra',
+      comparisonMeasuring: 'Ayardan sonra kaydediliyor... mikrofona konuşun',
+      before: 'Önce',
+      after: 'Sonra',
+      level: 'Ses seviyesi',
+      peak: 'En yüksek tepe',
+      feedbackTone: 'Ötme tonu',
+      hum: 'Uğultu',
+      tilt: 'Ton dengesi',
+      foundIt: 'Buldum',
+      microphone: 'Mikrofon',
+      engineerVoice: 'Mühendisin sesi'
+    },
+    ringOut: {
+      title: 'Mikrofon ötmesini giderme sihirbazı',
+      micUnavailable: 'Mikrofona erişilemedi.',
+      setupTitle: 'Adım 1: Hazırlık',
+      setupSteps: [
+        'Tüm EQ düğmelerini ortaya (saat 12) getirin.',
+        'İmam mikrofonunun Gain ayarını sonuna kadar kısın.',
+        'Mikrofonu her zamanki yerine koyun ve hoparlörlerin yanında durun.'
+      ],
+      eqType: 'Cihazdaki EQ türü:',
+      savedCount: count => `Daha önce kaydedilmiş ${count} frekans var; yeni frekanslar bunlara eklenecek.`,
+      startListening: 'Dinlemeye başla',
+      raiseTitle: 'Adım 2: Gain ayarını yavaşça açın',
+      raiseHint: 'Gain ayarını çok yavaş açın. Ötme duyulur duyulmaz frekansını kaydedeceğiz; o zaman Gain ayarını küçük bir adım kısıp açmaya devam edin.',
+      captured: 'Kaydedildi. Gain ayarını bir adım kısın, sonra devam edin.',
+      listening: 'Dinleniyor...',
+      recordedCount: count => `Kaydedilen frekanslar: ${count}`,
+      finish: 'İstediğim Gain seviyesine ulaştım, bitir',
+      resultTitle: 'Adım 3: Frekans listesi',
+      noFeedback: 'Hiç ötme kaydedilmedi. Şu anki Gain ayarı güvenli.',
+      clearList: 'Listeyi temizle',
+      newRound: 'Yeni tur'
+    },
+    history: {
+      title: 'Oturum geçmişi',
+      loadError: 'Geçmiş yüklenemedi.',
+      loading: 'Yükleniyor...',
+      empty: 'Henüz kayıtlı oturum yok.',
+      minutes: count => `${count} dk`,
+      adjustments: count => `${count} ayar`,
+      errors: count => `${count} hata`,
+      textSummary: 'Metin özeti',
+      delete: 'Sil',
+      byEngineer: 'Mühendisin talimatı',
+      byAnalysis: 'Otomatik analiz',
+      user: 'Kullanıcı',
+      engineer: 'Mühendis',
+      stepAnswer: action => `Kullanıcının yanıtı (${action})`,
+      beforeAfter: action => `Önce/sonra (${action})`,
+      summaryTitle: 'Ses ayarı oturumu özeti',
+      date: date => `Tarih: ${date}`,
+      timeFrom: from => `Saat: ${from}`,
+      timeTo: (to, minutes) => ` - ${to} (${minutes} dk)`,
+      requested: count => `İstenen ayarlar (${count}):`,
+      none: 'Yok',
+      stepAnswers: 'Kullanıcının adımlara yanıtları:',
+      verifications: 'Ayardan önce ve sonra ölçümler:',
+      connectionProblems: 'Bağlantı sorunları:',
+      transcript: 'Konuşma metni:'
+    },
+    offline: {
+      title: 'İnternetsiz teşhis',
+      whatProblem: 'Sorun nedir?',
+      intro: 'Bu mod bağlantı olmadan çalışır; basit sorulara ve mikrofondan gelen sesin analizine dayanır.',
+      yes: 'Evet',
+      no: 'Hayır',
+      done: 'Tamam',
+      listening: 'Dinleniyor...',
+      startMeasurement: 'Ölçüme başla',
+      anotherProblem: 'Başka bir sorun',
+      finish: 'Bitir',
+      noClearSound: 'Net bir ses alınamadı. Daha sessiz bir yerde tekrar deneyin',
+      micUnavailable: 'Mikrofona erişilemedi.',
+      problems: {
+        echo: 'Fazla yankı',
+        buzz: 'Uğultu',
+        feedback: 'Ötme (ıslık sesi)',
+        muffled: 'Ses boğuk',
+        low_volume: 'Ses çok kısık'
+      },
+      nodes: {
+        solved: 'Harika! Sorun çözüldü',
+        echo_has_knob: 'Cihazda üzerinde Echo, Delay ya da Rev yazan bir düğme var mı?',
+        echo_reduce: 'Yankı düğmesini (Echo/Delay/Rev) sonuna kadar sola çevirin',
+        echo_fixed: 'Rahatsız eden yankı kayboldu mu?',
+        echo_restore: 'Ses şimdi kuru geliyorsa, yankı düğmesini rahat bir sese kadar çok az açın',
+        echo_measure: 'Mikrofon açıkken caminin ortasında durun, sonra "Ölçüme başla"ya basıp bir kez güçlüce alkışlayın.',
+        echo_other_effect: 'Ses cihaz tarafından tekrarlanıyor. Tüm kanallarda ve harici efekt cihazlarında Echo ayarını kapatın',
+        echo_effect_fixed: 'Sesin tekrarlanması kayboldu mu?',
+        echo_room: 'Yankı salonun kendisinden geliyor. Master ve Bass ayarlarını kısın, hoparlörleri duvarlardan uzağa, cemaate doğru çevirin',
+        buzz_measure: 'Mikrofonu açık bırakın ve kimse konuşmasın, sonra "Ölçüme başla"ya basıp telefonu hoparlöre yaklaştırın.',
+        buzz_cables: 'Elektrik uğultusu var. Mikrofon kablolarının sıkıca takılı olduğundan emin olun, varsa başka bir kablo deneyin',
+        buzz_cables_fixed: 'Uğultu kayboldu mu?',
+        buzz_power: 'Mikseri ve amfiyi aynı uzatma kablosuna takın, ses kablolarını elektrik ve aydınlatma kablolarından uzak tutun',
+        buzz_gain: 'Parazit yüksek Gain ayarından geliyor. Gain ayarını kısıp yerine Master ayarını açın',
+        buzz_gain_fixed: 'Parazit azaldı mı?',
+        buzz_touch: 'Şu an belirgin bir uğultu yok. Biri kabloya ya da mikrofona dokununca uğultu çıkıyor mu?',
+        buzz_intermittent: 'Uğultu şu an yok. Geri gelirse, nedenini bulmak için o anda ölçüm yapın',
+        feedback_measure: '"Ölçüme başla"ya basın ve ötme başlayana kadar sesi yavaşça açın, sonra hemen kısın.',
+        feedback_treble: 'Ötme {frequency} Hz civarında. High düğmesini biraz kısın',
+        feedback_gain: 'Ötme {frequency} Hz civarında. Mikrofonun Gain ayarını biraz kısın',
+        feedback_fixed: 'Sesi normal seviyesine açın. Ötme kayboldu mu?',
+        feedback_position: 'Mikrofonu hoparlörlerden uzaklaştırın ve hoparlörleri imamın durduğu yerden başka yöne çevirin',
+        feedback_position_fixed: 'Ötme kayboldu mu?',
+        feedback_master: 'Ötme durana kadar Master ayarını kısın ve ana ekrandaki ötme giderme sihirbazını kullanın',
+        muffled_treble: 'High/Treble düğmesini saat 2 konumuna kadar açın',
+        muffled_treble_fixed: 'Ses şimdi daha net mi?',
+        muffled_bass: 'Low/Bass düğmesini saat 11 konumuna kadar kısın',
+        muffled_bass_fixed: 'Ses şimdi daha net mi?',
+        muffled_mic: 'Mikrofonun imamın ağzına doğru baktığından ve üstünün kapalı olmadığından emin olun. Hâlâ boğuksa hoparlörün kendisi bakım istiyor olabilir',
+        low_signal_light: 'Biri mikrofona konuştuğunda yeşil sinyal lambası (Signal/Peak) yanıyor mu?',
+        low_gain: 'Konuşunca yeşil lamba yanana kadar kanalın Gain ayarını yavaş yavaş açın',
+        low_master: 'Master/Volume ayarını yavaş yavaş açın',
+        low_feedback: 'Ötme başladı mı?',
+        low_fixed: 'Ses şimdi iyi duyuluyor mu?',
+        low_amplifier: 'Amfinin açık ve Volume düğmesinin yukarıda olduğundan, mikserden amfiye giden kablonun takılı olduğundan emin olun'
+      }
+    },
+    profiles: {
+      listTitle: 'Cami cihaz profilleri',
+      editTitle: 'Cami cihazının bilgileri',
+      empty: 'Henüz profil yok. Mühendis her seferinde sormak zorunda kalmasın diye mikser bilgilerini ekleyin.',
+      unnamedMosque: 'İsimsiz cami',
+      unknownMixer: 'Mikser belirtilmemiş',
+      summary: (channels, imamChannel) => `${channels} kanal · imam ${imamChannel}. kanalda`,
+      edit: 'Düzenle',
+      delete: 'Sil',
+      addMosque: 'Yeni cami ekle',
+      mosqueName: 'Caminin adı',
+      mixerModel: 'Mikser modeli',
+      amplifierModel: 'Amfi modeli',
+      channelCount: 'Kanal sayısı',
+      imamChannel: 'İmam mikrofonunun kanalı',
+      eqType: 'EQ türü',
+      eqBands: 'EQ düğmeleri (virgülle ayrılmış)',
+      effects: 'Efektler (virgülle ayrılmış)',
+      notes: 'Notlar',
+      save: 'Kaydet'
+    },
+    reference: {
+      captureTitle: 'Doğru ayarı kaydet',
+      compareTitle: 'Doğru ayarla karşılaştır',
+      captureHint: 'Her düğmenin konumunu teknisyenin ayarladığı gibi yazın (örneğin: saat 12 ya da 0 dB).',
+      saveReference: 'Doğru ayar olarak kaydet',
+      compareHint: 'Soluk görüntü cihazın üzerine oturacak şekilde kamerayı tutun, sonra "Karşılaştır"a basın.',
+      compare: 'Karşılaştır',
+      similarity: 'Benzerlik',
+      changedAreas: 'Değişen yerler',
+      changedHint: 'Ekranda işaretlenen yerler doğru fotoğraftan farklı. Mühendis bunları geri almanıza yardım edecek.',
+      noChange: 'Doğru ayardan belirgin bir fark yok.'
+    }
+  },
+  ms: {
+    app: {
+      title: 'Jurutera Bunyi',
+      subtitle: 'untuk Masjid',
+      problemQuestion: 'Ada masalah "gema" atau "dengung" pada pembesar suara masjid?',
+      cameraPitch: 'Buka kamera dan AI akan membantu anda melaras peralatan dengan segera.',
+      mosqueEquipment: 'Peralatan masjid',
+      noEquipment: 'Tiada peralatan dipilih',
+      change: 'Tukar',
+      add: 'Tambah',
+      startCheck: 'Mulakan pemeriksaan sekarang',
+      ringOut: 'Wizard menghapus bunyi berdesing (Ring-out)',
+      history: 'Sejarah sesi',
+      offline: 'Diagnosis tanpa internet',
+      visualAnalysis: 'Analisis visual tetapan',
+      audioAnalysis: 'Mendengar dan menganalisis bunyi',
+      poweredBy: 'Dikuasakan oleh Gemini 2.5',
+      language: 'Bahasa',
+      replayDiagnostic: 'Main semula fail diagnostik',
+      invalidDiagnostic: 'Ini bukan fail diagnostik aplikasi.'
+    },
+    live: {
+      errorTitle: 'Berlaku ralat',
+      tokenServerError: 'Pelayan aplikasi tidak dapat dihubungi. Semak internet dan cuba lagi.',
+      rateLimited: 'Terlalu banyak sesi dari telefon ini. Tunggu sebentar dan cuba lagi.',
+      accessDenied: 'Salinan aplikasi ini tidak dibenarkan menyambung. Hubungi orang yang memasangnya.',
+      mediaUnavailable: 'Tidak dapat mengakses kamera atau mikrofon.',
+      connectionError: 'Ralat sambungan. Sila cuba lagi.',
+      offlineHint: 'Anda boleh meneruskan pemeriksaan tanpa internet dengan menjawab soalan mudah.',
+      offline: 'Diagnosis tanpa internet',
+      backToMenu: 'Kembali ke menu',
+      connected: 'Disambungkan kepada jurutera',
+      reconnecting: 'Sambungan terputus, menyambung semula...',
+      connecting: 'Menyambung...',
+      pointCamera: 'Halakan kamera ke peralatan',
+      aiSpeaking: 'Jurutera sedang bercakap...',
+      showSpectrum: 'Tunjuk spektrum',
+      hideSpectrum: 'Sembunyi spektrum',
+      tryPhrases: 'Cuba sebut: "kurangkan gema" atau "ada dengung"',
+      reverbTest: 'Ujian gema',
+      speakerTest: 'Ukur pembesar suara',
+      endCall: 'Tamatkan panggilan',
+      noClapHeard: 'Tiada bunyi jelas dirakam. Tepuk tangan lebih kuat di tempat yang senyap dan cuba lagi',
+      switchCamera: 'Tukar kamera',
+      torch: 'Lampu suluh',
+      pauseCamera: 'Jeda penghantaran video',
+      resumeCamera: 'Sambung penghantaran video',
+      muteMic: 'Senyapkan mikrofon',
+      unmuteMic: 'Nyahsenyap mikrofon',
+      framesSent: 'Bingkai dihantar',
+      framesSkipped: 'dilangkau',
+      saveReference: 'Simpan tetapan betul',
+      compareReference: 'Banding dengan tetapan betul',
+      pushToTalk: 'Tekan untuk bercakap',
+      halfDuplex: 'Bergilir',
+      fullDuplex: 'Terbuka',
+      holdToTalk: 'Tekan dan tahan untuk bercakap',
+      listening: 'Jurutera sedang mendengar',
+      reviewCaptions: 'Semak perbualan',
+      hideCaptions: 'Sembunyi',
+      noCaptions: 'Belum ada perbualan',
+      typeQuestion: 'Taip soalan anda...',
+      send: 'Hantar',
+      you: 'Anda',
+      engineer: 'Jurutera',
+      recordDiagnostics: 'Rakam untuk diagnostik',
+      stopDiagnostics: 'Henti rakaman dan muat turun',
+      diagnosticsConsent: 'Audio mikrofon, gambar kamera dan jawapan jurutera akan dirakam ke dalam fail pada telefon ini untuk dihantar kepada sokongan teknikal. Mula?',
+      replaying: 'Main semula',
+      replaySent: 'Aplikasi menghantar',
+      replayAnswered: 'Aplikasi menjawab',
+      replayDropped: 'Sesi yang dirakam terputus di sini'
+    },
+    instruction: {
+      title: 'Arahan jurutera',
+      channel: channel => `Saluran ${channel}`,
+      done: 'Selesai',
+      notHelped: 'Tidak membantu',
+      notFound: 'Tidak jumpa',
+      steps: 'Langkah'
+    },
+    analysis: {
+      feedbackTreble: hz => `Ada bunyi berdesing pada ${hz} Hz. Kurangkan tombol High dengan segera`,
+      feedbackGain: hz => `Ada bunyi berdesing pada ${hz} Hz. Kurangkan Gain mikrofon dengan segera`,
+      humGroundLoop: hz => `Ada dengung elektrik ${hz} Hz. Periksa sambungan kabel dan pembumian`,
+      humGainNoise: 'Ada desis yang kuat. Kurangkan Gain dan naikkan Master sebagai gantinya',
+      rt60: 'Masa gema RT60',
+      edt: 'Gema awal EDT',
+      echoRepeat: 'Bunyi berulang setiap',
+      seconds: value => `${value} s`,
+      milliseconds: value => `${value} ms`,
+      reverbMixer: 'Gema datang daripada peralatan itu sendiri (Echo/Delay). Pusingkan tombol gema ke kiri',
+      reverbRoom: 'Gema datang daripada dewan, bukan peralatan. Kurangkan kelantangan dan Bass, bukan tombol gema',
+      reverbNormal: 'Gema dalam had biasa',
+      bass: 'Bass',
+      mid: 'Mid',
+      treble: 'Treble',
+      responseBalanced: 'Bunyi seimbang. Tiada perubahan EQ diperlukan',
+      trebleTooHigh: 'Bunyi terlalu tajam. Kurangkan sedikit tombol High/Treble',
+      trebleTooLow: 'Bunyi tenggelam. Naikkan tombol High/Treble',
+      bassTooHigh: 'Bass terlalu kuat dan bunyi berdentum. Kurangkan tombol Low/Bass',
+      bassTooLow: 'Bunyi nipis. Naikkan sedikit tombol Low/Bass',
+      midTooHigh: 'Mid terlalu kuat dan bunyi sengau. Kurangkan sedikit tombol Mid',
+      midTooLow: 'Bunyi jauh dan tidak jelas. Naikkan sedikit tombol Mid',
+      humLabel: hz => `Dengung ${hz} Hz`,
+      humDiagnosis: {
+        none: 'Tiada dengung',
+        ground_loop: 'Dengung elektrik (pembumian/kabel)',
+        gain_noise: 'Hingar daripada Gain'
+      },
+      verdicts: {
+        better: 'Bunyi bertambah baik',
+        worse: 'Bunyi lebih teruk daripada tadi',
+        unchanged: 'Tiada perbezaan jelas',
+        unknown: 'Tidak dapat dipastikan'
+      },
+      outcomes: {
+        done: 'Selesai',
+        not_helped: 'Tidak membantu',
+        not_found: 'Tidak jumpa tombol'
+      }
+    },
+    eq: {
+      layouts: {
+        three_band: { label: '3 tombol (Low / Mid / High)', description: 'Kebanyakan mixer kecil' },
+        four_band_sweep: { label: '4 tombol dengan Mid Freq', description: 'Satu tombol memilih frekuensi Mid' },
+        graphic_31: { label: 'Equalizer grafik 31 jalur', description: 'Unit EQ berasingan dengan gelangsar' },
+        parametric: { label: 'Equalizer parametrik / digital', description: 'Frekuensi dan Q ditetapkan dengan tepat' }
+      },
+      graphicNotch: (band, cutDb, hz) => `Turunkan gelangsar ${band} Hz sebanyak ${cutDb} dB (berdesing pada ${hz})`,
+      parametricNotch: (hz, cutDb) => `Pasang penapis pada ${hz} Hz dengan Q sempit (kira-kira 8) dan kurangkan ${cutDb} dB`,
+      sweepNotch: (hz, cutDb) => `Pusingkan tombol Mid Freq ke ${hz} Hz dan kurangkan Mid sebanyak ${cutDb} dB`,
+      fixedNotch: (band, cutDb, hz) => `Kurangkan sedikit tombol ${band} (kira-kira ${cutDb} dB) kerana berdesing pada ${hz} Hz`
+    },
+    panels: {
+      reverbTitle: 'Ujian gema dewan',
+      reverbIntro: 'Berdiri di tengah masjid dengan mikrofon terbuka, kemudian tepuk tangan sekali dengan kuat atau mainkan bunyi klik dari telefon.',
+      clapNow: 'Saya akan bertepuk sekarang',
+      playBurst: 'Main bunyi klik',
+      reverbListening: 'Sedang mendengar... senyap sehingga gema hilang',
+      responseTitle: 'Ukur tindak balas pembesar suara',
+      responseIntro: 'Dekatkan telefon ke mikrofon masjid (atau sambungkan ke peralatan), kemudian pilih isyarat ujian. Bunyi daripada pembesar suara akan dirakam.',
+      sweep: 'Nada sapuan',
+      pinkNoise: 'Hingar merah jambu',
+      responseMeasuring: 'Sedang mengukur... sila senyap',
+      comparisonTitle: 'Sebelum dan selepas pelarasan',
+      comparisonMeasuring: 'Merakam selepas pelarasan... bercakap ke dalam mikrofon',
+      before: 'Sebelum',
+      after: 'Selepas',
+      level: 'Aras bunyi',
+      peak: 'Puncak tertinggi',
+      feedbackTone: 'Nada berdesing',
+      hum: 'Dengung',
+      tilt: 'Imbangan nada',
+      foundIt: 'Jumpa',
+      microphone: 'Mikrofon',
+      engineerVoice: 'Suara jurutera'
+    },
+    ringOut: {
+      title: 'Wizard menghapus bunyi berdesing',
+      micUnavailable: 'Tidak dapat mengakses mikrofon.',
+      setupTitle: 'Langkah 1: Persediaan',
+      setupSteps: [
+        'Letakkan semua tombol EQ di tengah (pukul 12).',
+        'Turunkan Gain mikrofon imam sepenuhnya.',
+        'Letakkan mikrofon di tempat biasanya dan berdiri di sebelah pembesar suara.'
+      ],
+      eqType: 'Jenis EQ pada peralatan:',
+      savedCount: count => `Sudah ada ${count} frekuensi yang disimpan; frekuensi baharu akan ditambah kepadanya.`,
+      startListening: 'Mula mendengar',
+      raiseTitle: 'Langkah 2: Naikkan Gain perlahan-lahan',
+      raiseHint: 'Naikkan Gain dengan sangat perlahan. Sebaik sahaja bunyi berdesing kedengaran, kami merekodkan frekuensinya; kemudian turunkan Gain sedikit dan teruskan menaikkan.',
+      captured: 'Direkodkan. Turunkan Gain sedikit, kemudian teruskan.',
+      listening: 'Sedang mendengar...',
+      recordedCount: count => `Frekuensi direkodkan: ${count}`,
+      finish: 'Sudah sampai Gain yang diperlukan, selesai',
+      resultTitle: 'Langkah 3: Senarai frekuensi',
+      noFeedback: 'Tiada bunyi berdesing direkodkan. Gain sekarang selamat.',
+      clearList: 'Kosongkan senarai',
+      newRound: 'Pusingan baharu'
+    },
+    history: {
+      title: 'Sejarah sesi',
+      loadError: 'Tidak dapat memuatkan sejarah.',
+      loading: 'Memuatkan...',
+      empty: 'Belum ada sesi yang disimpan.',
+      minutes: count => `${count} minit`,
+      adjustments: count => `${count} pelarasan`,
+      errors: count => `${count} ralat`,
+      textSummary: 'Ringkasan teks',
+      delete: 'Padam',
+      byEngineer: 'Arahan jurutera',
+      byAnalysis: 'Analisis automatik',
+      user: 'Pengguna',
+      engineer: 'Jurutera',
+      stepAnswer: action => `Jawapan pengguna (${action})`,
+      beforeAfter: action => `Sebelum/selepas (${action})`,
+      summaryTitle: 'Ringkasan sesi pelarasan bunyi',
+      date: date => `Tarikh: ${date}`,
+      timeFrom: from => `Masa: dari ${from}`,
+      timeTo: (to, minutes) => ` hingga ${to} (${minutes} minit)`,
+      requested: count => `Pelarasan yang diminta (${count}):`,
+      none: 'Tiada',
+      stepAnswers: 'Jawapan pengguna kepada langkah-langkah:',
+      verifications: 'Ukuran sebelum dan selepas pelarasan:',
+      connectionProblems: 'Masalah sambungan:',
+      transcript: 'Teks perbualan:'
+    },
+    offline: {
+      title: 'Diagnosis tanpa internet',
+      whatProblem: 'Apakah masalahnya?',
+      intro: 'Mod ini berfungsi tanpa sambungan, menggunakan soalan mudah dan analisis bunyi daripada mikrofon.',
+      yes: 'Ya',
+      no: 'Tidak',
+      done: 'Selesai',
+      listening: 'Sedang mendengar...',
+      startMeasurement: 'Mula mengukur',
+      anotherProblem: 'Masalah lain',
+      finish: 'Tamat',
+      noClearSound: 'Tiada bunyi jelas dirakam. Cuba lagi di tempat yang lebih senyap',
+      micUnavailable: 'Tidak dapat mengakses mikrofon.',
+      problems: {
+        echo: 'Gema berlebihan',
+        buzz: 'Dengung',
+        feedback: 'Bunyi berdesing',
+        muffled: 'Bunyi tenggelam',
+        low_volume: 'Bunyi terlalu perlahan'
+      },
+      nodes: {
+        solved: 'Bagus! Masalah sudah selesai',
+        echo_has_knob: 'Adakah peralatan mempunyai tombol bertanda Echo, Delay atau Rev?',
+        echo_reduce: 'Pusingkan tombol gema (Echo/Delay/Rev) habis ke kiri',
+        echo_fixed: 'Adakah gema yang mengganggu sudah hilang?',
+        echo_restore: 'Jika bunyi kini terasa kering, naikkan tombol gema sedikit sahaja sehingga selesa didengar',
+        echo_measure: 'Berdiri di tengah masjid dengan mikrofon terbuka, kemudian tekan "Mula mengukur" dan tepuk tangan sekali dengan kuat.',
+        echo_other_effect: 'Peralatan sedang mengulang bunyi. Matikan Echo pada setiap saluran dan pada mana-mana unit kesan luaran',
+        echo_effect_fixed: 'Adakah bunyi berulang sudah hilang?',
+        echo_room: 'Gema datang daripada dewan itu sendiri. Kurangkan Master dan Bass, dan halakan pembesar suara ke arah jemaah, jauh dari dinding',
+        buzz_measure: 'Biarkan mikrofon terbuka tanpa sesiapa bercakap, kemudian tekan "Mula mengukur" dan dekatkan telefon ke pembesar suara.',
+        buzz_cables: 'Ada dengung elektrik. Pastikan kabel mikrofon dipasang dengan ketat, dan cuba kabel lain jika ada',
+        buzz_cables_fixed: 'Adakah dengung sudah hilang?',
+        buzz_power: 'Pasangkan mixer dan amplifier pada soket sambungan yang sama, dan jauhkan kabel audio daripada kabel elektrik dan lampu',
+        buzz_gain: 'Hingar datang daripada Gain yang tinggi. Kurangkan Gain dan naikkan Master sebagai gantinya',
+        buzz_gain_fixed: 'Adakah hingar berkurang?',
+        buzz_touch: 'Tiada dengung yang jelas sekarang. Adakah dengung muncul apabila seseorang menyentuh kabel atau mikrofon?',
+        buzz_intermittent: 'Dengung tiada sekarang. Jika ia kembali, buat pengukuran ketika itu supaya kita tahu puncanya',
+        feedback_measure: 'Tekan "Mula mengukur" dan naikkan kelantangan perlahan-lahan sehingga bunyi berdesing bermula, kemudian turunkan dengan segera.',
+        feedback_treble: 'Bunyi berdesing pada {frequency} Hz. Kurangkan sedikit tombol High',
+        feedback_gain: 'Bunyi berdesing pada {frequency} Hz. Kurangkan sedikit Gain mikrofon',
+        feedback_fixed: 'Naikkan kelantangan ke aras biasa. Adakah bunyi berdesing sudah hilang?',
+        feedback_position: 'Jauhkan mikrofon daripada pembesar suara, dan halakan pembesar suara jauh dari tempat imam berdiri',
+        feedback_position_fixed: 'Adakah bunyi berdesing sudah hilang?',
+        feedback_master: 'Kurangkan Master sehingga bunyi berdesing berhenti, dan gunakan wizard menghapus bunyi berdesing dari skrin utama',
+        muffled_treble: 'Naikkan tombol High/Treble ke kedudukan pukul 2',
+        muffled_treble_fixed: 'Adakah bunyi lebih jelas sekarang?',
+        muffled_bass: 'Kurangkan tombol Low/Bass ke kedudukan pukul 11',
+        muffled_bass_fixed: 'Adakah bunyi lebih jelas sekarang?',
+        muffled_mic: 'Pastikan mikrofon menghala ke mulut imam dan tidak tertutup. Jika masih tenggelam, pembesar suara itu sendiri mungkin perlu diselenggara',
+        low_signal_light: 'Apabila seseorang bercakap ke dalam mikrofon, adakah lampu isyarat hijau (Signal/Peak) menyala?',
+        low_gain: 'Naikkan Gain saluran perlahan-lahan sehingga lampu hijau menyala ketika bercakap',
+        low_master: 'Naikkan Master/Volume perlahan-lahan',
+        low_feedback: 'Adakah bunyi berdesing bermula?',
+        low_fixed: 'Adakah bunyi kini boleh didengar dengan baik?',
+        low_amplifier: 'Pastikan amplifier hidup dan tombol Volume dinaikkan, dan kabel dari mixer ke amplifier bersambung'
+      }
+    },
+    profiles: {
+      listTitle: 'Profil peralatan masjid',
+      editTitle: 'Butiran peralatan masjid',
+      empty: 'Belum ada profil. Tambah butiran mixer supaya jurutera tidak perlu bertanya setiap kali.',
+      unnamedMosque: 'Masjid tanpa nama',
+      unknownMixer: 'Mixer tidak dinyatakan',
+      summary: (channels, imamChannel) => `${channels} saluran · imam pada ${imamChannel}`,
+      edit: 'Sunting',
+      delete: 'Padam',
+      addMosque: 'Tambah masjid baharu',
+      mosqueName: 'Nama masjid',
+      mixerModel: 'Model mixer',
+      amplifierModel: 'Model amplifier',
+      channelCount: 'Bilangan saluran',
+      imamChannel: 'Saluran mikrofon imam',
+      eqType: 'Jenis EQ',
+      eqBands: 'Tombol EQ (dipisahkan dengan koma)',
+      effects: 'Kesan (dipisahkan dengan koma)',
+      notes: 'Nota',
+      save: 'Simpan'
+    },
+    reference: {
+      captureTitle: 'Simpan tetapan betul',
+      compareTitle: 'Banding dengan tetapan betul',
+      captureHint: 'Tulis kedudukan setiap tombol seperti yang ditetapkan oleh juruteknik (contohnya: pukul 12 atau 0 dB).',
+      saveReference: 'Simpan sebagai tetapan betul',
+      compareHint: 'Halakan kamera supaya gambar pudar itu bertindih dengan peralatan, kemudian tekan "Banding".',
+      compare: 'Banding',
+      similarity: 'Persamaan',
+      changedAreas: 'Tempat berubah',
+      changedHint: 'Tempat yang ditanda pada skrin berbeza daripada gambar yang betul. Jurutera akan membantu anda mengembalikannya.',
+      noChange: 'Tiada perbezaan jelas daripada tetapan betul.'
+    }
+  },
+  fr: {
+    app: {
+      title: 'Ingénieur du son',
+      subtitle: 'pour les mosquées',
+      problemQuestion: 'Un problème d’« écho » ou de « bourdonnement » dans les haut-parleurs de la mosquée ?',
+      cameraPitch: 'Ouvrez la caméra et l’IA vous aidera à régler l’appareil tout de suite.',
+      mosqueEquipment: 'Matériel de la mosquée',
+      noEquipment: 'Aucun appareil sélectionné',
+      change: 'Modifier',
+      add: 'Ajouter',
+      startCheck: 'Commencer la vérification',
+      ringOut: 'Assistant anti-larsen (Ring-out)',
+      history: 'Historique des sessions',
+      offline: 'Diagnostic hors ligne',
+      visualAnalysis: 'Analyse visuelle des réglages',
+      audioAnalysis: 'Écoute et analyse du son',
+      poweredBy: 'Propulsé par Gemini 2.5',
+      language: 'Langue',
+      replayDiagnostic: 'Rejouer un fichier de diagnostic',
+      invalidDiagnostic: 'Ce n’est pas un fichier de diagnostic de l’application.'
+    },
+    live: {
+      errorTitle: 'Une erreur est survenue',
+      tokenServerError: 'Impossible de joindre le serveur de l’application. Vérifiez Internet et réessayez.',
+      rateLimited: 'Trop de sessions depuis ce téléphone. Patientez un peu puis réessayez.',
+      accessDenied: 'Cette copie de l’application n’est pas autorisée à se connecter. Contactez la personne qui l’a installée.',
+      mediaUnavailable: 'Impossible d’accéder à la caméra ou au micro.',
+      connectionError: 'Erreur de connexion. Veuillez réessayer.',
+      offlineHint: 'Vous pouvez poursuivre la vérification hors ligne en répondant à des questions simples.',
+      offline: 'Diagnostic hors ligne',
+      backToMenu: 'Retour au menu',
+      connected: 'Connecté à l’ingénieur',
+      reconnecting: 'Connexion perdue, reconnexion...',
+      connecting: 'Connexion...',
+      pointCamera: 'Dirigez la caméra vers l’appareil',
+      aiSpeaking: 'L’ingénieur parle...',
+      showSpectrum: 'Afficher le spectre',
+      hideSpectrum: 'Masquer le spectre',
+      tryPhrases: 'Essayez de dire : « réduis l’écho » ou « ça bourdonne »',
+      reverbTest: 'Test d’écho',
+      speakerTest: 'Mesure des enceintes',
+      endCall: 'Raccrocher',
+      noClapHeard: 'Aucun son net capté. Tapez des mains plus fort dans un endroit calme et réessayez',
+      switchCamera: 'Changer de caméra',
+      torch: 'Lampe torche',
+      pauseCamera: 'Suspendre l’envoi de l’image',
+      resumeCamera: 'Reprendre l’envoi de l’image',
+      muteMic: 'Couper le micro',
+      unmuteMic: 'Réactiver le micro',
+      framesSent: 'Images envoyées',
+      framesSkipped: 'ignorées',
+      saveReference: 'Enregistrer le bon réglage',
+      compareReference: 'Comparer au bon réglage',
+      pushToTalk: 'Appuyer pour parler',
+      halfDuplex: 'Chacun son tour',
+      fullDuplex: 'Ouvert',
+      holdToTalk: 'Maintenez pour parler',
+      listening: 'L’ingénieur vous écoute',
+      reviewCaptions: 'Revoir la conversation',
+      hideCaptions: 'Masquer',
+      noCaptions: 'Aucune parole pour l’instant',
+      typeQuestion: 'Écrivez votre question...',
+      send: 'Envoyer',
+      you: 'Vous',
+      engineer: 'Ingénieur',
+      recordDiagnostics: 'Enregistrer pour diagnostic',
+      stopDiagnostics: 'Arrêter et télécharger',
+      diagnosticsConsent: 'Le son du micro, les images de la caméra et les réponses de l’ingénieur seront enregistrés dans un fichier sur ce téléphone, à envoyer au support technique. Commencer ?',
+      replaying: 'Relecture',
+      replaySent: 'L’application a envoyé',
+      replayAnswered: 'L’application a répondu',
+      replayDropped: 'La session enregistrée s’est coupée ici'
+    },
+    instruction: {
+      title: 'Consigne de l’ingénieur',
+      channel: channel => `Canal ${channel}`,
+      done: 'Terminé',
+      notHelped: 'Ça n’a pas aidé',
+      notFound: 'Introuvable',
+      steps: 'Étapes'
+    },
+    analysis: {
+      feedbackTreble: hz => `Larsen à ${hz} Hz. Baissez tout de suite le bouton High`,
+      feedbackGain: hz => `Larsen à ${hz} Hz. Baissez tout de suite le Gain du micro`,
+      humGroundLoop: hz => `Ronflement secteur à ${hz} Hz. Vérifiez les branchements des câbles et la terre`,
+      humGainNoise: 'Fort souffle. Baissez le Gain et montez plutôt le Master',
+      rt60: 'Temps de réverbération RT60',
+      edt: 'Décroissance initiale EDT',
+      echoRepeat: 'Le son se répète toutes les',
+      seconds: value => `${value} s`,
+      milliseconds: value => `${value} ms`,
+      reverbMixer: 'L’écho vient de l’appareil lui-même (Echo/Delay). Tournez le bouton d’écho vers la gauche',
+      reverbRoom: 'L’écho vient de la salle, pas de l’appareil. Baissez le volume et les Bass plutôt que le bouton d’écho',
+      reverbNormal: 'L’écho est dans les limites normales',
+      bass: 'Bass',
+      mid: 'Mid',
+      treble: 'Treble',
+      responseBalanced: 'Le son est équilibré. Pas besoin de toucher à l’EQ',
+      trebleTooHigh: 'Le son est trop aigu. Baissez un peu le bouton High/Treble',
+      trebleTooLow: 'Le son est étouffé. Montez le bouton High/Treble',
+      bassTooHigh: 'Les Bass sont trop fortes et le son résonne. Baissez le bouton Low/Bass',
+      bassTooLow: 'Le son est maigre. Montez un peu le bouton Low/Bass',
+      midTooHigh: 'Les Mid sont trop fortes et le son est nasillard. Baissez un peu le bouton Mid',
+      midTooLow: 'Le son est lointain et peu clair. Montez un peu le bouton Mid',
+      humLabel: hz => `Ronflement ${hz} Hz`,
+      humDiagnosis: {
+        none: 'Pas de ronflement',
+        ground_loop: 'Ronflement secteur (terre/câbles)',
+        gain_noise: 'Bruit dû au Gain'
+      },
+      verdicts: {
+        better: 'Le son s’est amélioré',
+        worse: 'Le son est pire qu’avant',
+        unchanged: 'Pas de différence nette',
+        unknown: 'Impossible de conclure'
+      },
+      outcomes: {
+        done: 'Terminé',
+        not_helped: 'Ça n’a pas aidé',
+        not_found: 'Réglage introuvable'
+      }
+    },
+    eq: {
+      layouts: {
+        three_band: { label: '3 boutons (Low / Mid / High)', description: 'La plupart des petites tables de mixage' },
+        four_band_sweep: { label: '4 boutons avec Mid Freq', description: 'Un bouton choisit la fréquence des Mid' },
+        graphic_31: { label: 'Égaliseur graphique 31 bandes', description: 'Appareil EQ séparé à curseurs' },
+        parametric: { label: 'Égaliseur paramétrique / numérique', description: 'Fréquence et Q réglés précisément' }
+      },
+      graphicNotch: (band, cutDb, hz) => `Baissez le curseur ${band} Hz de ${cutDb} dB (larsen à ${hz})`,
+      parametricNotch: (hz, cutDb) => `Placez un filtre à ${hz} Hz avec un Q étroit (environ 8) et baissez-le de ${cutDb} dB`,
+      sweepNotch: (hz, cutDb) => `Tournez le bouton Mid Freq sur ${hz} Hz et baissez les Mid de ${cutDb} dB`,
+      fixedNotch: (band, cutDb, hz) => `Baissez un peu le bouton ${band} (environ ${cutDb} dB) à cause d’un larsen à ${hz} Hz`
+    },
+    panels: {
+      reverbTitle: 'Test d’écho de la salle',
+      reverbIntro: 'Placez-vous au milieu de la mosquée, micro ouvert, puis tapez une fois fort dans vos mains ou jouez un clic depuis le téléphone.',
+      clapNow: 'Je tape maintenant',
+      playBurst: 'Jouer un clic',
+      reverbListening: 'Écoute en cours... restez silencieux jusqu’à la fin de l’écho',
+      responseTitle: 'Mesure de la réponse des enceintes',
+      responseIntro: 'Approchez le téléphone du micro de la mosquée (ou branchez-le à l’appareil), puis choisissez un signal de test. Le son des enceintes sera enregistré.',
+      sweep: 'Balayage',
+      pinkNoise: 'Bruit rose',
+      responseMeasuring: 'Mesure en cours... silence, s’il vous plaît',
+      comparisonTitle: 'Avant et après le réglage',
+      comparisonMeasuring: 'Enregistrement après le réglage... parlez dans le micro',
+      before: 'Avant',
+      after: 'Après',
+      level: 'Niveau',
+      peak: 'Crête',
+      feedbackTone: 'Fréquence du larsen',
+      hum: 'Ronflement',
+      tilt: 'Équilibre tonal',
+      foundIt: 'Trouvé',
+      microphone: 'Micro',
+      engineerVoice: 'Voix de l’ingénieur'
+    },
+    ringOut: {
+      title: 'Assistant anti-larsen',
+      micUnavailable: 'Impossible d’accéder au micro.',
+      setupTitle: 'Étape 1 : préparation',
+      setupSteps: [
+        'Mettez tous les boutons de l’EQ au centre (midi).',
+        'Baissez complètement le Gain du micro de l’imam.',
+        'Placez le micro à sa place habituelle et tenez-vous près des enceintes.'
+      ],
+      eqType: 'Type d’EQ sur l’appareil :',
+      savedCount: count => `${count} fréquences sont déjà enregistrées ; les nouvelles y seront ajoutées.`,
+      startListening: 'Commencer l’écoute',
+      raiseTitle: 'Étape 2 : montez le Gain lentement',
+      raiseHint: 'Montez le Gain très lentement. Dès qu’un larsen se fait entendre, nous notons sa fréquence ; baissez alors le Gain d’un petit cran et continuez à monter.',
+      captured: 'Enregistré. Baissez le Gain d’un cran, puis continuez.',
+      listening: 'Écoute en cours...',
+      recordedCount: count => `Fréquences enregistrées : ${count}`,
+      finish: 'J’ai atteint le Gain voulu, terminer',
+      resultTitle: 'Étape 3 : liste des fréquences',
+      noFeedback: 'Aucun larsen enregistré. Le Gain actuel est sûr.',
+      clearList: 'Effacer la liste',
+      newRound: 'Nouveau passage'
+    },
+    history: {
+      title: 'Historique des sessions',
+      loadError: 'Impossible de charger l’historique.',
+      loading: 'Chargement...',
+      empty: 'Aucune session enregistrée pour l’instant.',
+      minutes: count => `${count} min`,
+      adjustments: count => `${count} réglages`,
+      errors: count => `${count} erreurs`,
+      textSummary: 'Résumé texte',
+      delete: 'Supprimer',
+      byEngineer: 'Consigne de l’ingénieur',
+      byAnalysis: 'Analyse automatique',
+      user: 'Utilisateur',
+      engineer: 'Ingénieur',
+      stepAnswer: action => `Réponse de l’utilisateur (${action})`,
+      beforeAfter: action => `Avant/après (${action})`,
+      summaryTitle: 'Résumé de la session de réglage du son',
+      date: date => `Date : ${date}`,
+      timeFrom: from => `Heure : de ${from}`,
+      timeTo: (to, minutes) => ` à ${to} (${minutes} min)`,
+      requested: count => `Réglages demandés (${count}) :`,
+      none: 'Aucun',
+      stepAnswers: 'Réponses de l’utilisateur aux étapes :',
+      verifications: 'Mesures avant et après chaque réglage :',
+      connectionProblems: 'Problèmes de connexion :',
+      transcript: 'Transcription de la conversation :'
+    },
+    offline: {
+      title: 'Diagnostic hors ligne',
+      whatProblem: 'Quel est le problème ?',
+      intro: 'Ce mode fonctionne sans connexion, avec des questions simples et l’analyse du son du micro.',
+      yes: 'Oui',
+      no: 'Non',
+      done: 'Terminé',
+      listening: 'Écoute en cours...',
+      startMeasurement: 'Lancer la mesure',
+      anotherProblem: 'Un autre problème',
+      finish: 'Terminer',
+      noClearSound: 'Aucun son net capté. Réessayez dans un endroit plus calme',
+      micUnavailable: 'Impossible d’accéder au micro.',
+      problems: {
+        echo: 'Trop d’écho',
+        buzz: 'Ronflement',
+        feedback: 'Sifflement (larsen)',
+        muffled: 'Son étouffé',
+        low_volume: 'Son trop faible'
+      },
+      nodes: {
+        solved: 'Parfait ! Le problème est résolu',
+        echo_has_knob: 'L’appareil a-t-il un bouton marqué Echo, Delay ou Rev ?',
+        echo_reduce: 'Tournez le bouton d’écho (Echo/Delay/Rev) complètement à gauche',
+        echo_fixed: 'L’écho gênant a-t-il disparu ?',
+        echo_restore: 'Si le son paraît maintenant sec, remontez très légèrement le bouton d’écho jusqu’à ce qu’il soit agréable',
+        echo_measure: 'Placez-vous au milieu de la mosquée, micro ouvert, puis appuyez sur « Lancer la mesure » et tapez une fois fort dans vos mains.',
+        echo_other_effect: 'L’appareil répète le son. Coupez l’Echo sur toutes les voies et sur tout appareil d’effets externe',
+        echo_effect_fixed: 'La répétition du son a-t-elle disparu ?',
+        echo_room: 'L’écho vient de la salle elle-même. Baissez le Master et les Bass, et orientez les enceintes vers les fidèles, loin des murs',
+        buzz_measure: 'Laissez le micro ouvert sans que personne ne parle, puis appuyez sur « Lancer la mesure » et approchez le téléphone de l’enceinte.',
+        buzz_cables: 'Il y a un ronflement secteur. Vérifiez que les câbles du micro sont bien branchés et essayez un autre câble si vous en avez un',
+        buzz_cables_fixed: 'Le ronflement a-t-il disparu ?',
+        buzz_power: 'Branchez la table de mixage et l’amplificateur sur la même multiprise, et éloignez les câbles audio des câbles électriques et d’éclairage',
+        buzz_gain: 'Le bruit vient d’un Gain trop élevé. Baissez le Gain et montez plutôt le Master',
+        buzz_gain_fixed: 'Le bruit a-t-il diminué ?',
+        buzz_touch: 'Pas de ronflement net pour l’instant. Apparaît-il quand quelqu’un touche le câble ou le micro ?',
+        buzz_intermittent: 'Le ronflement n’est pas présent pour l’instant. S’il revient, lancez la mesure à ce moment-là pour en trouver la cause',
+        feedback_measure: 'Appuyez sur « Lancer la mesure » et montez lentement le volume jusqu’au début du sifflement, puis baissez-le aussitôt.',
+        feedback_treble: 'Le larsen est à {frequency} Hz. Baissez un peu le bouton High',
+        feedback_gain: 'Le larsen est à {frequency} Hz. Baissez un peu le Gain du micro',
+        feedback_fixed: 'Remontez le volume à son niveau normal. Le sifflement a-t-il disparu ?',
+        feedback_position: 'Éloignez le micro des enceintes et orientez les enceintes loin de la place de l’imam',
+        feedback_position_fixed: 'Le sifflement a-t-il disparu ?',
+        feedback_master: 'Baissez le Master jusqu’à ce que le sifflement s’arrête, et utilisez l’assistant anti-larsen depuis l’écran d’accueil',
+        muffled_treble: 'Montez le bouton High/Treble jusqu’à 14 h',
+        muffled_treble_fixed: 'Le son est-il plus clair maintenant ?',
+        muffled_bass: 'Baissez le bouton Low/Bass jusqu’à 11 h',
+        muffled_bass_fixed: 'Le son est-il plus clair maintenant ?',
+        muffled_mic: 'Vérifiez que le micro est dirigé vers la bouche de l’imam et qu’il n’est pas couvert. Si le son reste étouffé, l’enceinte elle-même a peut-être besoin d’être réparée',
+        low_signal_light: 'Quand quelqu’un parle dans le micro, le voyant vert (Signal/Peak) s’allume-t-il ?',
+        low_gain: 'Montez progressivement le Gain de la voie jusqu’à ce que le voyant vert s’allume avec la voix',
+        low_master: 'Montez progressivement le Master/Volume',
+        low_feedback: 'Un sifflement a-t-il commencé ?',
+        low_fixed: 'Le son s’entend-il bien maintenant ?',
+        low_amplifier: 'Vérifiez que l’amplificateur est allumé avec son bouton Volume monté, et que le câble entre la table de mixage et l’amplificateur est branché'
+      }
+    },
+    profiles: {
+      listTitle: 'Profils du matériel des mosquées',
+      editTitle: 'Matériel de la mosquée',
+      empty: 'Aucun profil pour l’instant. Ajoutez les informations de la table de mixage pour que l’ingénieur n’ait pas à les demander à chaque fois.',
+      unnamedMosque: 'Mosquée sans nom',
+      unknownMixer: 'Table de mixage non précisée',
+      summary: (channels, imamChannel) => `${channels} voies · imam sur la ${imamChannel}`,
+      edit: 'Modifier',
+      delete: 'Supprimer',
+      addMosque: 'Ajouter une mosquée',
+      mosqueName: 'Nom de la mosquée',
+      mixerModel: 'Modèle de table de mixage',
+      amplifierModel: 'Modèle d’amplificateur',
+      channelCount: 'Nombre de voies',
+      imamChannel: 'Voie du micro de l’imam',
+      eqType: 'Type d’EQ',
+      eqBands: 'Réglages de l’EQ (séparés par des virgules)',
+      effects: 'Effets (séparés par des virgules)',
+      notes: 'Notes',
+      save: 'Enregistrer'
+    },
+    reference: {
+      captureTitle: 'Enregistrer le bon réglage',
+      compareTitle: 'Comparer au bon réglage',
+      captureHint: 'Notez la position de chaque bouton telle que le technicien l’a réglée (par exemple : midi ou 0 dB).',
+      saveReference: 'Enregistrer comme bon réglage',
+      compareHint: 'Cadrez la caméra pour que l’image estompée recouvre le matériel, puis appuyez sur « Comparer ».',
+      compare: 'Comparer',
+      similarity: 'Ressemblance',
+      changedAreas: 'Zones modifiées',
+      changedHint: 'Les zones marquées à l’écran diffèrent de la bonne photo. L’ingénieur vous aidera à les remettre en place.',
+      noChange: 'Aucune différence nette avec le bon réglage.'
+    }
+  },
+  en: {
+    app: {
+      title: 'Sound Engineer',
+      subtitle: 'for Mosques',
+      problemQuestion: 'Having trouble with "echo" or "hum" in the mosque speakers?',
+      cameraPitch: 'Open the camera and the AI will help you adjust the equipment right away.',
+      mosqueEquipment: 'Mosque equipment',
+      noEquipment: 'No equipment selected',
+      change: 'Change',
+      add: 'Add',
+      startCheck: 'Start the check now',
+      ringOut: 'Feedback removal wizard (Ring-out)',
+      history: 'Session history',
+      offline: 'Offline diagnosis',
+      visualAnalysis: 'Visual analysis of the settings',
+      audioAnalysis: 'Listening and sound analysis',
+      poweredBy: 'Powered by Gemini 2.5',
+      language: 'Language',
+      replayDiagnostic: 'Replay a diagnostic file',
+      invalidDiagnostic: 'This is not a diagnostic file from the app.'
+    },
+    live: {
+      errorTitle: 'Something went wrong',
+      tokenServerError: 'Could not reach the app server. Check the internet connection and try again.',
+      rateLimited: 'Too many sessions from this phone. Wait a while and try again.',
+      accessDenied: 'This copy of the app is not allowed to connect. Contact whoever set it up.',
+      mediaUnavailable: 'Could not access the camera or microphone.',
+      connectionError: 'Connection error. Please try again.',
+      offlineHint: 'You can continue the check offline by answering a few simple questions.',
+      offline: 'Offline diagnosis',
+      backToMenu: 'Back to menu',
+      connected: 'Connected to the engineer',
+      reconnecting: 'Connection lost, reconnecting...',
+      connecting: 'Connecting...',
+      pointCamera: 'Point the camera at the equipment',
+      aiSpeaking: 'The engineer is speaking...',
+      showSpectrum: 'Show spectrum',
+      hideSpectrum: 'Hide spectrum',
+      tryPhrases: 'Try saying: "reduce the echo" or "there is a hum"',
+      reverbTest: 'Echo test',
+      speakerTest: 'Speaker test',
+      endCall: 'End call',
+      noClapHeard: 'No clear sound was captured. Clap louder in a quiet spot and try again',
+      switchCamera: 'Switch camera',
+      torch: 'Torch',
+      pauseCamera: 'Pause video',
+      resumeCamera: 'Resume video',
+      muteMic: 'Mute microphone',
+      unmuteMic: 'Unmute microphone',
+      framesSent: 'Frames sent',
+      framesSkipped: 'skipped',
+      saveReference: 'Save known-good setup',
+      compareReference: 'Compare with known-good',
+      pushToTalk: 'Push to talk',
+      halfDuplex: 'Take turns',
+      fullDuplex: 'Open',
+      holdToTalk: 'Hold to talk',
+      listening: 'The engineer can hear you',
+      reviewCaptions: 'Review conversation',
+      hideCaptions: 'Hide',
+      noCaptions: 'Nothing said yet',
+      typeQuestion: 'Type your question...',
+      send: 'Send',
+      you: 'You',
+      engineer: 'Engineer',
+      recordDiagnostics: 'Record for diagnosis',
+      stopDiagnostics: 'Stop and download',
+      diagnosticsConsent: "The microphone audio, camera images and the engineer's replies will be recorded to a file on this phone, to send to technical support. Start?",
+      replaying: 'Replay',
+      replaySent: 'App sent',
+      replayAnswered: 'App answered',
+      replayDropped: 'The recorded session dropped here'
+    },
+    instruction: {
+      title: "Engineer's instruction",
+      channel: channel => `Channel ${channel}`,
+      done: 'Done',
+      notHelped: "Didn't help",
+      notFound: "Can't find it",
+      steps: 'Steps'
+    },
+    analysis: {
+      feedbackTreble: hz => `Feedback at ${hz} Hz. Turn the High knob down right away`,
+      feedbackGain: hz => `Feedback at ${hz} Hz. Turn the microphone Gain down right away`,
+      humGroundLoop: hz => `Mains hum at ${hz} Hz. Check the cable connections and the earth`,
+      humGainNoise: 'Loud hiss. Lower the Gain and raise the Master instead',
+      rt60: 'Reverb time RT60',
+      edt: 'Early decay EDT',
+      echoRepeat: 'Sound repeats every',
+      seconds: value => `${value} s`,
+      milliseconds: value => `${value} ms`,
+      reverbMixer: 'The echo comes from the mixer itself (Echo/Delay). Turn the echo knob to the left',
+      reverbRoom: 'The echo comes from the hall, not the mixer. Lower the volume and the Bass instead of the echo knob',
+      reverbNormal: 'The echo is within normal limits',
+      bass: 'Bass',
+      mid: 'Mid',
+      treble: 'Treble',
+      responseBalanced: 'The sound is balanced. No EQ change needed',
+      trebleTooHigh: 'The sound is too sharp. Turn the High/Treble knob down a little',
+      trebleTooLow: 'The sound is muffled. Turn the High/Treble knob up',
+      bassTooHigh: 'The Bass is too strong and makes the sound boomy. Turn the Low/Bass knob down',
+      bassTooLow: 'The sound is thin. Turn the Low/Bass knob up a little',
+      midTooHigh: 'The Mid is too strong and the sound is nasal. Turn the Mid knob down a little',
+      midTooLow: 'The sound is distant and unclear. Turn the Mid knob up a little',
+      humLabel: hz => `Hum ${hz} Hz`,
+      humDiagnosis: {
+        none: 'No hum',
+        ground_loop: 'Mains hum (earth/cables)',
+        gain_noise: 'Noise from the Gain'
+      },
+      verdicts: {
+        better: 'The sound improved',
+        worse: 'The sound is worse than before',
+        unchanged: 'No clear difference',
+        unknown: 'Cannot tell'
+      },
+      outcomes: {
+        done: 'Done',
+        not_helped: "Didn't help",
+        not_found: 'Could not find the control'
+      }
+    },
+    eq: {
+      layouts: {
+        three_band: { label: '3 knobs (Low / Mid / High)', description: 'Most small mixers' },
+        four_band_sweep: { label: '4 knobs with Mid Freq', description: 'A knob selects the Mid frequency' },
+        graphic_31: { label: '31-band graphic equaliser', description: 'A separate EQ unit with sliders' },
+        parametric: { label: 'Parametric / digital equaliser', description: 'Exact frequency and Q' }
+      },
+      graphicNotch: (band, cutDb, hz) => `Pull the ${band} Hz slider down by ${cutDb} dB (feedback at ${hz})`,
+      parametricNotch: (hz, cutDb) => `Set a filter at ${hz} Hz with a narrow Q (about 8) and cut it by ${cutDb} dB`,
+      sweepNotch: (hz, cutDb) => `Turn the Mid Freq knob to ${hz} Hz and lower the Mid by ${cutDb} dB`,
+      fixedNotch: (band, cutDb, hz) => `Turn the ${band} knob down a little (about ${cutDb} dB) for feedback at ${hz} Hz`
+    },
+    panels: {
+      reverbTitle: 'Hall echo test',
+      reverbIntro: 'Stand in the middle of the mosque with the microphone on, then clap once, hard, or play a burst from the phone.',
+      clapNow: "I'll clap now",
+      playBurst: 'Play a burst',
+      reverbListening: 'Listening... keep quiet until the echo dies away',
+      responseTitle: 'Speaker response test',
+      responseIntro: 'Hold the phone close to the mosque microphone (or connect it to the mixer), then choose a test signal. The sound from the speakers will be recorded.',
+      sweep: 'Sweep tone',
+      pinkNoise: 'Pink noise',
+      responseMeasuring: 'Measuring... please keep quiet',
+      comparisonTitle: 'Before and after',
+      comparisonMeasuring: 'Recording after the adjustment... speak into the microphone',
+      before: 'Before',
+      after: 'After',
+      level: 'Level',
+      peak: 'Peak',
+      feedbackTone: 'Feedback tone',
+      hum: 'Hum',
+      tilt: 'Tonal balance',
+      foundIt: 'Found it',
+      microphone: 'Microphone',
+      engineerVoice: "Engineer's voice"
+    },
+    ringOut: {
+      title: 'Feedback removal wizard',
+      micUnavailable: 'Could not access the microphone.',
+      setupTitle: 'Step 1: Preparation',
+      setupSteps: [
+        "Set every EQ knob to the centre (12 o'clock).",
+        "Turn the imam microphone's Gain all the way down.",
+        'Put the microphone in its usual place and stand next to the speakers.'
+      ],
+      eqType: 'EQ type on the mixer:',
+      savedCount: count => `${count} frequencies are already saved; new ones will be added to them.`,
+      startListening: 'Start listening',
+      raiseTitle: 'Step 2: Raise the Gain slowly',
+      raiseHint: 'Raise the Gain very slowly. As soon as you hear feedback we record its frequency; then lower the Gain a small step and keep raising.',
+      captured: 'Recorded. Lower the Gain a step, then carry on.',
+      listening: 'Listening...',
+      recordedCount: count => `Recorded frequencies: ${count}`,
+      finish: "I've reached the Gain I need, finish",
+      resultTitle: 'Step 3: Frequency list',
+      noFeedback: 'No feedback was recorded. The current Gain is safe.',
+      clearList: 'Clear list',
+      newRound: 'New round'
+    },
+    history: {
+      title: 'Session history',
+      loadError: 'Could not load the history.',
+      loading: 'Loading...',
+      empty: 'No saved sessions yet.',
+      minutes: count => `${count} min`,
+      adjustments: count => `${count} adjustments`,
+      errors: count => `${count} errors`,
+      textSummary: 'Text summary',
+      delete: 'Delete',
+      byEngineer: "Engineer's instruction",
+      byAnalysis: 'Automatic analysis',
+      user: 'User',
+      engineer: 'Engineer',
+      stepAnswer: action => `User's answer (${action})`,
+      beforeAfter: action => `Before/after (${action})`,
+      summaryTitle: 'Sound adjustment session summary',
+      date: date => `Date: ${date}`,
+      timeFrom: from => `Time: from ${from}`,
+      timeTo: (to, minutes) => ` to ${to} (${minutes} min)`,
+      requested: count => `Requested adjustments (${count}):`,
+      none: 'None',
+      stepAnswers: "User's answers to the steps:",
+      verifications: 'Measurements before and after each adjustment:',
+      connectionProblems: 'Connection problems:',
+      transcript: 'Conversation transcript:'
+    },
+    offline: {
+      title: 'Offline diagnosis',
+      whatProblem: "What's the problem?",
+      intro: 'This mode works without a connection, using simple questions and analysis of the microphone sound.',
+      yes: 'Yes',
+      no: 'No',
+      done: 'Done',
+      listening: 'Listening...',
+      startMeasurement: 'Start measuring',
+      anotherProblem: 'Another problem',
+      finish: 'Finish',
+      noClearSound: 'No clear sound was captured. Try again somewhere quieter',
+      micUnavailable: 'Could not access the microphone.',
+      problems: {
+        echo: 'Too much echo',
+        buzz: 'Hum',
+        feedback: 'Whistling (feedback)',
+        muffled: 'Muffled sound',
+        low_volume: 'Sound too quiet'
+      },
+      nodes: {
+        solved: 'Great! The problem is solved',
+        echo_has_knob: 'Does the mixer have a knob labelled Echo, Delay or Rev?',
+        echo_reduce: 'Turn the echo knob (Echo/Delay/Rev) all the way to the left',
+        echo_fixed: 'Has the annoying echo gone?',
+        echo_restore: 'If the sound now feels dry, raise the echo knob a tiny bit until it sounds comfortable',
+        echo_measure: 'Stand in the middle of the mosque with the microphone on, then press "Start measuring" and clap once, hard.',
+        echo_other_effect: 'The mixer is repeating the sound. Switch off the Echo on every channel and on any external effects unit',
+        echo_effect_fixed: 'Has the repeating sound gone?',
+        echo_room: 'The echo comes from the hall itself. Lower the Master and the Bass, and point the speakers at the worshippers, away from the walls',
+        buzz_measure: 'Leave the microphone on with nobody talking, then press "Start measuring" and hold the phone near the speaker.',
+        buzz_cables: 'There is mains hum. Make sure the microphone cables are firmly plugged in, and try another cable if you have one',
+        buzz_cables_fixed: 'Has the hum gone?',
+        buzz_power: 'Plug the mixer and the amplifier into the same power strip, and keep the audio cables away from power and lighting cables',
+        buzz_gain: 'The noise comes from a high Gain. Lower the Gain and raise the Master instead',
+        buzz_gain_fixed: 'Is the noise lower?',
+        buzz_touch: 'There is no clear hum right now. Does it appear when someone touches the cable or the microphone?',
+        buzz_intermittent: 'The hum is not there right now. If it comes back, run the measurement then so we can find its cause',
+        feedback_measure: 'Press "Start measuring" and slowly raise the volume until the whistling starts, then lower it straight away.',
+        feedback_treble: 'The feedback is at {frequency} Hz. Turn the High knob down a notch',
+        feedback_gain: 'The feedback is at {frequency} Hz. Turn the microphone Gain down a notch',
+        feedback_fixed: 'Raise the volume to its normal level. Has the whistling gone?',
+        feedback_position: 'Move the microphone away from the speakers, and point the speakers away from where the imam stands',
+        feedback_position_fixed: 'Has the whistling gone?',
+        feedback_master: 'Lower the Master until the whistling stops, and use the feedback removal wizard from the home screen',
+        muffled_treble: "Raise the High/Treble knob to 2 o'clock",
+        muffled_treble_fixed: 'Is the sound clearer now?',
+        muffled_bass: "Lower the Low/Bass knob to 11 o'clock",
+        muffled_bass_fixed: 'Is the sound clearer now?',
+        muffled_mic: "Make sure the microphone points at the imam's mouth and is not covered. If it is still muffled, the speaker itself may need servicing",
+        low_signal_light: 'When someone speaks into the microphone, does the green signal light (Signal/Peak) come on?',
+        low_gain: "Slowly raise the channel's Gain until the green light comes on with speech",
+        low_master: 'Slowly raise the Master/Volume',
+        low_feedback: 'Has whistling started?',
+        low_fixed: 'Can the sound be heard well now?',
+        low_amplifier: 'Make sure the amplifier is on with its Volume knob turned up, and that the cable from the mixer to the amplifier is connected'
+      }
+    },
+    profiles: {
+      listTitle: 'Mosque equipment profiles',
+      editTitle: 'Mosque equipment details',
+      empty: "No profiles yet. Add the mixer details so the engineer doesn't have to ask for them every time.",
+      unnamedMosque: 'Unnamed mosque',
+      unknownMixer: 'Mixer not specified',
+      summary: (channels, imamChannel) => `${channels} channels · imam on ${imamChannel}`,
+      edit: 'Edit',
+      delete: 'Delete',
+      addMosque: 'Add a mosque',
+      mosqueName: 'Mosque name',
+      mixerModel: 'Mixer model',
+      amplifierModel: 'Amplifier model',
+      channelCount: 'Number of channels',
+      imamChannel: 'Imam microphone channel',
+      eqType: 'EQ type',
+      eqBands: 'EQ controls (comma separated)',
+      effects: 'Effects (comma separated)',
+      notes: 'Notes',
+      save: 'Save'
+    },
+    reference: {
+      captureTitle: 'Save the known-good setup',
+      compareTitle: 'Compare with the known-good setup',
+      captureHint: 'Write down each control as the technician set it (for example: 12 o’clock or 0 dB).',
+      saveReference: 'Save as known-good setup',
+      compareHint: 'Line the camera up so the faded photo sits over the equipment, then press "Compare".',
+      compare: 'Compare',
+      similarity: 'Match',
+      changedAreas: 'Areas changed',
+      changedHint: 'The areas marked on screen differ from the known-good photo. The engineer will help you put them back.',
+      noChange: 'No clear difference from the known-good setup.'
+    }
+  }
+};
+
+export function uiStrings(language: Language): UiStrings {
+  return UI_STRINGS[language] ?? UI_STRINGS[DEFAULT_LANGUAGE];
+}
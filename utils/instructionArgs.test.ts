@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { clockToFraction, parseInstructionArgs } from './instructionArgs';
+import { MixerProfile } from '../types';
+
+const profile: MixerProfile = {
+  id: 'p1',
+  mosqueName: 'Test',
+  mixerModel: 'MG10',
+  amplifierModel: '',
+  channelCount: 6,
+  imamChannel: 1,
+  eqLayout: 'three_band',
+  eqBands: ['Low', 'Mid', 'High'],
+  effects: ['Echo'],
+  notes: '',
+  updatedAt: 0
+};
+
+describe('parseInstructionArgs', () => {
+  it('keeps a complete, valid card', () => {
+    const { instruction, warnings } = parseInstructionArgs({
+      action: 'reduce_echo',
+      message: ' Turn the echo down ',
+      channel: 2,
+      control: 'echo',
+      controlType: 'knob',
+      direction: 'down',
+      currentClock: 3,
+      targetClock: 11
+    }, profile);
+    expect(warnings).toEqual([]);
+    expect(instruction).toEqual({
+      action: 'reduce_echo',
+      message: 'Turn the echo down',
+      channel: 2,
+      control: 'Echo',
+      controlType: 'knob',
+      direction: 'down',
+      target: { unit: 'clock', to: 11, from: 3 }
+    });
+  });
+
+  it('shows an unknown action as general and says so', () => {
+    const { instruction, warnings } = parseInstructionArgs({ action: 'explode', message: 'x' }, null);
+    expect(instruction.action).toBe('general');
+    expect(warnings[0]).toContain('explode');
+  });
+
+  it('warns about an empty message', () => {
+    expect(parseInstructionArgs({ action: 'general', message: '  ' }, null).warnings).toContain('message is empty');
+  });
+
+  it('drops a channel the mixer does not have', () => {
+    const { instruction, warnings } = parseInstructionArgs({ action: 'general', message: 'x', channel: 7 }, profile);
+    expect(instruction.channel).toBeUndefined();
+    expect(warnings).toHaveLength(1);
+    expect(parseInstructionArgs({ action: 'general', message: 'x', channel: 1.5 }, profile).instruction.channel).toBeUndefined();
+  });
+
+  it('accepts any channel and control when no mixer is selected', () => {
+    const { instruction, warnings } = parseInstructionArgs({ action: 'general', message: 'x', channel: 24, control: 'Aux 3' }, null);
+    expect(warnings).toEqual([]);
+    expect(instruction.channel).toBe(24);
+    expect(instruction.control).toBe('Aux 3');
+  });
+
+  it('drops a control the mixer does not have and lists the ones it does', () => {
+    const { instruction, warnings } = parseInstructionArgs({ action: 'general', message: 'x', control: 'Reverb' }, profile);
+    expect(instruction.control).toBeUndefined();
+    expect(warnings[0]).toContain('Gain, Volume, Master, Low, Mid, High, Echo');
+  });
+
+  it('rejects the 6 o\'clock dead zone and hours off the dial', () => {
+    for (const hour of [6, 0, 13]) {
+      const { instruction, warnings } = parseInstructionArgs({ action: 'general', message: 'x', targetClock: hour }, null);
+      expect(instruction.target).toBeUndefined();
+      expect(warnings[0]).toContain('targetClock');
+    }
+  });
+
+  it('rounds clock hours and reads numbers sent as text', () => {
+    const { instruction } = parseInstructionArgs({ action: 'general', message: 'x', targetClock: '10.6' }, null);
+    expect(instruction.target).toEqual({ unit: 'clock', to: 11 });
+  });
+
+  it('keeps the target when only the current position is invalid', () => {
+    const { instruction, warnings } = parseInstructionArgs({ action: 'general', message: 'x', currentClock: 6, targetClock: 9 }, null);
+    expect(instruction.target).toEqual({ unit: 'clock', to: 9 });
+    expect(warnings[0]).toContain('currentClock');
+  });
+
+  it('checks dB targets against the range of a real control', () => {
+    expect(parseInstructionArgs({ action: 'general', message: 'x', currentDb: -10, targetDb: -3.27 }, null).instruction.target)
+      .toEqual({ unit: 'db', to: -3.3, from: -10 });
+    const { instruction, warnings } = parseInstructionArgs({ action: 'general', message: 'x', targetDb: 20 }, null);
+    expect(instruction.target).toBeUndefined();
+    expect(warnings[0]).toContain('between -60 and 15 dB');
+  });
+
+  it('warns about a direction other than up or down', () => {
+    const { instruction, warnings } = parseInstructionArgs({ action: 'general', message: 'x', direction: 'left' }, null);
+    expect(instruction.direction).toBeUndefined();
+    expect(warnings).toHaveLength(1);
+  });
+});
+
+describe('clockToFraction', () => {
+  it('runs from 7 o\'clock to 5 o\'clock', () => {
+    expect(clockToFraction(7)).toBe(0);
+    expect(clockToFraction(12)).toBe(0.5);
+    expect(clockToFraction(5)).toBe(1);
+  });
+});
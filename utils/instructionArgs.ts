@@ -0,0 +1,112 @@
+import { ControlDirection, ControlTarget, ControlType, InstructionState, MixerProfile } from '../types';
+import { profileControls } from './mixerProfiles';
+
+export const INSTRUCTION_ACTIONS = [
+  'reduce_echo', 'increase_echo', 'room_acoustics', 'fix_buzz', 'reduce_treble', 'increase_treble',
+  'reduce_bass', 'increase_bass', 'reduce_gain', 'increase_volume', 'check_cables', 'success', 'general'
+];
+
+// Ranges a real mixer control can take
+const DB_RANGE: [number, number] = [-60, 15];
+// 6 o'clock is the dead zone between the end stops of a rotary knob
+const DEAD_ZONE_HOUR = 6;
+
+interface ParsedInstruction {
+  instruction: InstructionState;
+  // Problems with the arguments, reported back to the model so it can correct itself
+  warnings: string[];
+}
+
+function parseNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function parsePosition(value: unknown, unit: ControlTarget['unit'], field: string, warnings: string[]): number | undefined {
+  const number = parseNumber(value);
+  if (value === undefined || value === null) return undefined;
+  if (number === undefined) {
+    warnings.push(`${field} must be a number`);
+    return undefined;
+  }
+  if (unit === 'clock') {
+    const hour = Math.round(number);
+    if (hour < 1 || hour > 12 || hour === DEAD_ZONE_HOUR) {
+      warnings.push(`${field} must be a clock hour between 7 and 5 (not 6)`);
+      return undefined;
+    }
+    return hour;
+  }
+  if (number < DB_RANGE[0] || number > DB_RANGE[1]) {
+    warnings.push(`${field} must be between ${DB_RANGE[0]} and ${DB_RANGE[1]} dB`);
+    return undefined;
+  }
+  return Math.round(number * 10) / 10;
+}
+
+/**
+ * Validates the arguments of a displayInstruction call. Invalid optional
+ * fields are dropped rather than rejecting the whole card, since the
+ * message alone is still useful to the user.
+ */
+export function parseInstructionArgs(args: Record<string, unknown>, profile: MixerProfile | null): ParsedInstruction {
+  const warnings: string[] = [];
+
+  let action = typeof args.action === 'string' ? args.action : 'general';
+  if (!INSTRUCTION_ACTIONS.includes(action)) {
+    warnings.push(`unknown action "${action}", shown as "general"`);
+    action = 'general';
+  }
+
+  const message = typeof args.message === 'string' ? args.message.trim() : '';
+  if (!message) warnings.push('message is empty');
+
+  const instruction: InstructionState = { action, message };
+
+  const channel = parseNumber(args.channel);
+  if (channel !== undefined) {
+    const max = profile?.channelCount ?? Infinity;
+    if (Number.isInteger(channel) && channel >= 1 && channel <= max) {
+      instruction.channel = channel;
+    } else {
+      warnings.push(`channel ${args.channel} does not exist on this mixer`);
+    }
+  }
+
+  if (typeof args.control === 'string' && args.control.trim()) {
+    const known = profile ? profileControls(profile) : null;
+    const match = known?.find(c => c.toLowerCase() === (args.control as string).trim().toLowerCase());
+    if (known && !match) {
+      warnings.push(`control "${args.control}" is not on this mixer (available: ${known.join(', ')})`);
+    } else {
+      instruction.control = match ?? (args.control as string).trim();
+    }
+  }
+
+  if (args.controlType === 'knob' || args.controlType === 'fader') {
+    instruction.controlType = args.controlType as ControlType;
+  }
+
+  if (args.direction === 'up' || args.direction === 'down') {
+    instruction.direction = args.direction as ControlDirection;
+  } else if (args.direction !== undefined) {
+    warnings.push('direction must be "up" or "down"');
+  }
+
+  const unit: ControlTarget['unit'] | null =
+    args.targetClock !== undefined ? 'clock' : args.targetDb !== undefined ? 'db' : null;
+  if (unit) {
+    const to = parsePosition(unit === 'clock' ? args.targetClock : args.targetDb, unit, unit === 'clock' ? 'targetClock' : 'targetDb', warnings);
+    const from = parsePosition(unit === 'clock' ? args.currentClock : args.currentDb, unit, unit === 'clock' ? 'currentClock' : 'currentDb', warnings);
+    if (to !== undefined) {
+      instruction.target = { unit, to, ...(from !== undefined ? { from } : {}) };
+    }
+  }
+
+  return { instruction, warnings };
+}
+
+/** Position of a clock hour along a knob's travel (0 = 7 o'clock, 1 = 5 o'clock). */
+export function clockToFraction(hour: number): number {
+  return Math.max(0, Math.min(1, ((hour - 7 + 12) % 12) / 10));
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { activeStep, createStep, enqueueStep, isTransientInstruction, resolveStep, stepPosition } from './instructionQueue';
+import { InstructionSource, InstructionStep } from '../types';
+
+const step = (action: string, source: InstructionSource = 'ai', message = action) =>
+  createStep({ action, message }, source);
+
+const enqueueAll = (steps: InstructionStep[]) => steps.reduce(enqueueStep, [] as InstructionStep[]);
+
+const statuses = (steps: InstructionStep[]) => steps.map(s => `${s.instruction.action}:${s.status}`);
+
+describe('enqueueStep', () => {
+  it('shows the first step and queues the rest in order', () => {
+    const steps = enqueueAll([step('reduce_echo'), step('reduce_gain'), step('check_cables')]);
+    expect(statuses(steps)).toEqual(['reduce_echo:active', 'reduce_gain:pending', 'check_cables:pending']);
+  });
+
+  it('puts a local alert in front of the open steps and shows it at once', () => {
+    const steps = enqueueStep(enqueueAll([step('reduce_echo'), step('reduce_gain')]), step('reduce_treble', 'local'));
+    expect(statuses(steps)).toEqual(['reduce_treble:active', 'reduce_echo:pending', 'reduce_gain:pending']);
+  });
+
+  it('keeps answered steps ahead of a local alert', () => {
+    let steps = enqueueAll([step('reduce_echo'), step('reduce_gain')]);
+    steps = resolveStep(steps, steps[0].id, 'done');
+    steps = enqueueStep(steps, step('reduce_treble', 'local'));
+    expect(statuses(steps)).toEqual(['reduce_echo:done', 'reduce_treble:active', 'reduce_gain:pending']);
+  });
+
+  it('updates an open alert instead of repeating it', () => {
+    const first = step('reduce_treble', 'local', 'Feedback at 3150 Hz');
+    let steps = enqueueAll([step('reduce_echo'), first]);
+    steps = enqueueStep(steps, step('reduce_treble', 'local', 'Feedback at 2500 Hz'));
+    expect(steps).toHaveLength(2);
+    expect(steps[0].id).toBe(first.id);
+    expect(steps[0].instruction.message).toBe('Feedback at 2500 Hz');
+    expect(steps[0].status).toBe('active');
+  });
+
+  it('adds a new alert once the earlier one was answered', () => {
+    let steps = enqueueAll([step('reduce_treble', 'local')]);
+    steps = resolveStep(steps, steps[0].id, 'not_helped');
+    steps = enqueueStep(steps, step('reduce_treble', 'local'));
+    expect(statuses(steps)).toEqual(['reduce_treble:not_helped', 'reduce_treble:active']);
+  });
+});
+
+describe('resolveStep', () => {
+  it('records the answer and moves on to the next step', () => {
+    let steps = enqueueAll([step('reduce_echo'), step('reduce_gain')]);
+    steps = resolveStep(steps, steps[0].id, 'not_found');
+    expect(statuses(steps)).toEqual(['reduce_echo:not_found', 'reduce_gain:active']);
+    expect(activeStep(steps)?.instruction.action).toBe('reduce_gain');
+  });
+
+  it('leaves nothing active once every step is answered', () => {
+    let steps = enqueueAll([step('reduce_echo')]);
+    steps = resolveStep(steps, steps[0].id, 'done');
+    expect(activeStep(steps)).toBeNull();
+  });
+});
+
+describe('stepPosition', () => {
+  it('counts open steps from 1 and gives 0 for answered ones', () => {
+    let steps = enqueueAll([step('reduce_echo'), step('reduce_gain'), step('check_cables')]);
+    steps = resolveStep(steps, steps[0].id, 'done');
+    expect(stepPosition(steps, steps[0].id)).toBe(0);
+    expect(stepPosition(steps, steps[1].id)).toBe(1);
+    expect(stepPosition(steps, steps[2].id)).toBe(2);
+  });
+});
+
+describe('isTransientInstruction', () => {
+  it('only treats success cards as transient', () => {
+    expect(isTransientInstruction({ action: 'success', message: '' })).toBe(true);
+    expect(isTransientInstruction({ action: 'reduce_echo', message: '' })).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { InstructionSource, InstructionState, InstructionStep, StepOutcome } from '../types';
+
+// Instruction cards as a checklist: the model's steps are worked through in
+// order, each waiting for the user to say how it went.
+
+export const OUTCOME_TEXT: Record<StepOutcome, string> = {
+  done: 'The user says they did it.',
+  not_helped: "The user did it but says it didn't help.",
+  not_found: 'The user could not find this control.'
+};
+
+const isOpen = (step: InstructionStep) => step.status === 'pending' || step.status === 'active';
+
+/** Cards that only inform, and are shown briefly instead of joining the checklist. */
+export function isTransientInstruction(instruction: InstructionState): boolean {
+  return instruction.action === 'success';
+}
+
+export function createStep(instruction: InstructionState, source: InstructionSource): InstructionStep {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    instruction,
+    source,
+    status: 'pending'
+  };
+}
+
+/** Position of a step among the open ones, counting from 1; 0 once it is answered. */
+export function stepPosition(steps: InstructionStep[], id: string): number {
+  return steps.filter(isOpen).findIndex(s => s.id === id) + 1;
+}
+
+export function activeStep(steps: InstructionStep[]): InstructionStep | null {
+  return steps.find(s => s.status === 'active') ?? null;
+}
+
+function activateNext(steps: InstructionStep[]): InstructionStep[] {
+  if (activeStep(steps)) return steps;
+  const next = steps.findIndex(s => s.status === 'pending');
+  return next < 0 ? steps : steps.map((s, i) => (i === next ? { ...s, status: 'active' } : s));
+}
+
+/**
+ * Adds a step to the checklist. Local alerts (feedback, hum) are urgent: they
+ * go in front of the open steps and show at once, and a repeat of an alert
+ * that is still open only updates its text.
+ */
+export function enqueueStep(steps: InstructionStep[], step: InstructionStep): InstructionStep[] {
+  if (step.source !== 'local') return activateNext([...steps, step]);
+
+  const repeat = steps.find(s => s.source === 'local' && isOpen(s) && s.instruction.action === step.instruction.action);
+  const rest = steps
+    .filter(s => s !== repeat)
+    .map(s => (s.status === 'active' ? { ...s, status: 'pending' as const } : s));
+  const urgent: InstructionStep = { ...(repeat ?? step), instruction: step.instruction, status: 'active' };
+  const firstOpen = rest.findIndex(isOpen);
+  const at = firstOpen < 0 ? rest.length : firstOpen;
+  return [...rest.slice(0, at), urgent, ...rest.slice(at)];
+}
+
+export function resolveStep(steps: InstructionStep[], id: string, outcome: StepOutcome): InstructionStep[] {
+  return activateNext(steps.map(s => (s.id === id ? { ...s, status: outcome } : s)));
+}
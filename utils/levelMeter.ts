@@ -0,0 +1,67 @@
+import { LevelReading } from '../types';
+
+// Samples at or above this are treated as clipped
+const CLIP_THRESHOLD = 0.99;
+const SILENCE_DB = -100;
+
+interface LevelMeterOptions {
+  // How fast the level falls after a loud moment
+  releaseDbPerSecond?: number;
+  peakHoldMs?: number;
+  clipHoldMs?: number;
+}
+
+const toDb = (value: number) => (value > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(value)) : SILENCE_DB);
+
+/**
+ * Meter ballistics for time-domain blocks: instant attack, steady release,
+ * a held peak, and a clip flag that stays lit long enough to be noticed.
+ */
+export function createLevelMeter(options: LevelMeterOptions = {}) {
+  const { releaseDbPerSecond = 24, peakHoldMs = 1000, clipHoldMs = 1500 } = options;
+
+  let levelDb = SILENCE_DB;
+  let peakDb = SILENCE_DB;
+  let peakAt = 0;
+  let clippedAt = -Infinity;
+  let lastUpdate = 0;
+
+  const update = (samples: Float32Array, now: number): LevelReading => {
+    let sumSquares = 0;
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const abs = Math.abs(samples[i]);
+      sumSquares += samples[i] * samples[i];
+      if (abs > peak) peak = abs;
+    }
+    const blockDb = toDb(Math.sqrt(sumSquares / Math.max(1, samples.length)));
+    const blockPeakDb = toDb(peak);
+    const elapsed = lastUpdate ? (now - lastUpdate) / 1000 : 0;
+    lastUpdate = now;
+
+    levelDb = Math.max(blockDb, levelDb - releaseDbPerSecond * elapsed);
+    if (blockPeakDb >= peakDb || now - peakAt > peakHoldMs) {
+      peakDb = blockPeakDb;
+      peakAt = now;
+    }
+    if (peak >= CLIP_THRESHOLD) clippedAt = now;
+
+    return {
+      levelDb: Math.round(levelDb * 10) / 10,
+      peakDb: Math.round(peakDb * 10) / 10,
+      clipping: now - clippedAt < clipHoldMs
+    };
+  };
+
+  const reset = () => {
+    levelDb = SILENCE_DB;
+    peakDb = SILENCE_DB;
+    peakAt = 0;
+    clippedAt = -Infinity;
+    lastUpdate = 0;
+  };
+
+  return { update, reset };
+}
+
+export type LevelMeter = ReturnType<typeof createLevelMeter>;
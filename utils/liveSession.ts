@@ -0,0 +1,65 @@
+import { Blob, FunctionDeclaration, FunctionResponse, LiveServerMessage } from '@google/genai';
+import { connectGeminiSession } from './geminiLiveSession';
+import { requestLiveToken } from './liveToken';
+import { connectMockSession } from './mockLiveSession';
+
+// Backend-neutral view of a live voice/video session. The Gemini Live API is
+// one adapter; a local WebSocket stand-in is the other (see scripts/mock-live-server.mjs).
+
+export interface LiveSessionConfig {
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  // Prebuilt voice name; backends without voices ignore it
+  voiceName?: string;
+  // Handle from a previous session's resumption update, when the backend supports it
+  resumptionHandle?: string;
+}
+
+export interface LiveSessionCallbacks {
+  onOpen: () => void;
+  onMessage: (message: LiveServerMessage) => void;
+  onClose: (reason?: string) => void;
+  onError: (error: Error) => void;
+}
+
+export interface LiveSession {
+  /** 16 kHz PCM from the microphone. */
+  sendAudio: (pcm: Blob) => void;
+  /** The microphone stream paused (voice gate closed, talk button released); lets the backend end the turn. */
+  endAudioStream: () => void;
+  /** Base64 JPEG camera frame. */
+  sendImage: (base64Jpeg: string) => void;
+  /** A complete user turn in text, e.g. a [LOCAL_ANALYSIS] message. */
+  sendText: (text: string) => void;
+  /** A user turn with a still photo attached, e.g. a saved reference of the mixer. */
+  sendTextWithImage: (text: string, base64Jpeg: string) => void;
+  sendToolResponse: (responses: FunctionResponse[]) => void;
+  /** Bytes queued but not yet sent on the connection; undefined when the backend cannot tell. */
+  bufferedBytes: () => number | undefined;
+  close: () => void;
+}
+
+export type LiveSessionConnector = (config: LiveSessionConfig, callbacks: LiveSessionCallbacks) => Promise<LiveSession>;
+
+export type LiveBackend = 'gemini' | 'mock';
+
+const DEFAULT_MOCK_URL = 'ws://localhost:8787';
+
+const readEnv = (name: keyof ImportMetaEnv): string | undefined => import.meta.env?.[name];
+
+export function selectedLiveBackend(): LiveBackend {
+  return readEnv('VITE_LIVE_BACKEND') === 'mock' ? 'mock' : 'gemini';
+}
+
+/**
+ * Returns the connector for the configured backend. Gemini connections first
+ * fetch a fresh token from the token server, so reconnects get one too.
+ */
+export function createLiveConnector(backend: LiveBackend = selectedLiveBackend()): LiveSessionConnector {
+  if (backend === 'mock') {
+    const url = readEnv('VITE_MOCK_LIVE_URL') || DEFAULT_MOCK_URL;
+    return (config, callbacks) => connectMockSession(url, config, callbacks);
+  }
+
+  return async (config, callbacks) => connectGeminiSession(await requestLiveToken(), config, callbacks);
+}
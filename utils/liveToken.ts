@@ -0,0 +1,51 @@
+// Short-lived Live API tokens from the companion server (scripts/token-server.mjs),
+// so the real API key never reaches the phone.
+
+export interface LiveToken {
+  token: string;
+  // The model the token was issued for
+  model: string;
+  expiresAt: string;
+}
+
+const DEFAULT_TOKEN_URL = '/api/live-token';
+const DEVICE_ID_KEY = 'mosque-audio-tuner.device-id';
+
+const readEnv = (name: keyof ImportMetaEnv): string | undefined => import.meta.env?.[name];
+
+// Random and stored on the phone; the server rate-limits by it
+function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+/**
+ * Asks the token server for a single-use token. Fails with TOKEN_RATE_LIMITED,
+ * TOKEN_REJECTED or TOKEN_SERVER_UNREACHABLE so the UI can explain what happened.
+ */
+export async function requestLiveToken(): Promise<LiveToken> {
+  const appKey = readEnv('VITE_TOKEN_APP_KEY');
+  let response: Response;
+  try {
+    response = await fetch(readEnv('VITE_TOKEN_URL') || DEFAULT_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(appKey ? { 'X-App-Key': appKey } : {}) },
+      body: JSON.stringify({ deviceId: deviceId() })
+    });
+  } catch (e) {
+    console.warn('Token server not reachable', e);
+    throw new Error('TOKEN_SERVER_UNREACHABLE');
+  }
+
+  if (response.status === 429) throw new Error('TOKEN_RATE_LIMITED');
+  if (response.status === 401 || response.status === 403) throw new Error('TOKEN_REJECTED');
+  if (!response.ok) throw new Error('TOKEN_SERVER_UNREACHABLE');
+
+  const body = await response.json() as Partial<LiveToken>;
+  if (!body.token || !body.model) throw new Error('TOKEN_SERVER_UNREACHABLE');
+  return { token: body.token, model: body.model, expiresAt: body.expiresAt ?? '' };
+}
@@ -0,0 +1,106 @@
+import { FeedbackDetection, HumReading } from '../types';
+import { createFeedbackDetector, FEEDBACK_FFT_SIZE } from './feedbackDetector';
+import { createHumAnalyzer } from './humAnalyzer';
+import { concatFloat32 } from './audioUtils';
+import { createAudioCapture } from './audioCapture';
+import { fftSizeForRate } from './spectrum';
+
+// One-shot measurements on the microphone, for screens that run without a live session.
+
+export interface MicAnalysis {
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  close: () => void;
+}
+
+const POLL_INTERVAL_MS = 100;
+
+// Browser processing would hide hum and feedback, and cancel our own test signals
+export const UNPROCESSED_AUDIO: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false
+};
+
+export async function openMicAnalysis(): Promise<MicAnalysis> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: UNPROCESSED_AUDIO });
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const source = context.createMediaStreamSource(stream);
+
+  return {
+    context,
+    source,
+    close: () => {
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+    }
+  };
+}
+
+function pollAnalyser(mic: MicAnalysis, fftSize: number, durationMs: number, onSpectrum: (spectrum: Float32Array) => boolean) {
+  const analyser = mic.context.createAnalyser();
+  analyser.fftSize = fftSize;
+  analyser.smoothingTimeConstant = 0.3;
+  mic.source.connect(analyser);
+  const spectrum = new Float32Array(analyser.frequencyBinCount);
+
+  return new Promise<void>(resolve => {
+    const started = Date.now();
+    const interval = window.setInterval(() => {
+      analyser.getFloatFrequencyData(spectrum);
+      const done = onSpectrum(spectrum);
+      if (done || Date.now() - started >= durationMs) {
+        clearInterval(interval);
+        mic.source.disconnect(analyser);
+        resolve();
+      }
+    }, POLL_INTERVAL_MS);
+  });
+}
+
+/** Listens until feedback is detected or the time runs out. */
+export async function listenForFeedback(mic: MicAnalysis, durationMs: number): Promise<FeedbackDetection | null> {
+  const fftSize = fftSizeForRate(mic.context.sampleRate, FEEDBACK_FFT_SIZE);
+  const detector = createFeedbackDetector({ sampleRate: mic.context.sampleRate, fftSize, minFrames: 3 });
+  let detection: FeedbackDetection | null = null;
+  await pollAnalyser(mic, fftSize, durationMs, spectrum => {
+    detection = detector.analyze(spectrum);
+    return detection !== null;
+  });
+  return detection;
+}
+
+/** Measures hum over the whole duration and returns the final reading. */
+export async function listenForHum(mic: MicAnalysis, durationMs: number): Promise<HumReading | null> {
+  // Same resolution as the live analyser: about 2 Hz per bin
+  const fftSize = fftSizeForRate(mic.context.sampleRate, 8192);
+  const analyzer = createHumAnalyzer({ sampleRate: mic.context.sampleRate, fftSize });
+  let reading: HumReading | null = null;
+  await pollAnalyser(mic, fftSize, durationMs, spectrum => {
+    reading = analyzer.analyze(spectrum);
+    return false;
+  });
+  return reading;
+}
+
+/** Records raw samples from the microphone. */
+export async function recordMic(mic: MicAnalysis, durationMs: number): Promise<Float32Array> {
+  const chunks: Float32Array[] = [];
+  let remaining = Math.round((mic.context.sampleRate * durationMs) / 1000);
+  let finish: () => void = () => {};
+  const done = new Promise<void>(resolve => { finish = resolve; });
+
+  const capture = await createAudioCapture(mic.context, {
+    chunkMs: 100,
+    onChunk: samples => {
+      if (remaining <= 0) return;
+      chunks.push(samples);
+      remaining -= samples.length;
+      if (remaining <= 0) finish();
+    }
+  });
+  mic.source.connect(capture.input);
+  await done;
+  capture.close();
+  return concatFloat32(chunks);
+}
@@ -0,0 +1,88 @@
+import { EqLayoutId, MixerProfile } from '../types';
+import { deleteReference } from './mixerReference';
+
+const PROFILES_KEY = 'mosque-audio-tuner.profiles';
+const SELECTED_KEY = 'mosque-audio-tuner.selected-profile';
+
+const DEFAULT_EQ_BANDS: Record<EqLayoutId, string[]> = {
+  three_band: ['Low', 'Mid', 'High'],
+  four_band_sweep: ['Low', 'Mid', 'Mid Freq', 'High'],
+  graphic_31: ['Graphic EQ'],
+  parametric: ['Low', 'Low Mid', 'High Mid', 'High']
+};
+
+// Controls every channel strip has regardless of the EQ section
+const COMMON_CONTROLS = ['Gain', 'Volume', 'Master'];
+
+export function defaultEqBands(layout: EqLayoutId): string[] {
+  return DEFAULT_EQ_BANDS[layout];
+}
+
+export function createEmptyProfile(): MixerProfile {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    mosqueName: '',
+    mixerModel: '',
+    amplifierModel: '',
+    channelCount: 4,
+    imamChannel: 1,
+    eqLayout: 'three_band',
+    eqBands: defaultEqBands('three_band'),
+    effects: ['Echo'],
+    notes: '',
+    updatedAt: Date.now()
+  };
+}
+
+/** Every control name the model may refer to for this mixer. */
+export function profileControls(profile: MixerProfile): string[] {
+  return Array.from(new Set([...COMMON_CONTROLS, ...profile.eqBands, ...profile.effects]));
+}
+
+export function loadProfiles(): MixerProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    return raw ? (JSON.parse(raw) as MixerProfile[]) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+function storeProfiles(profiles: MixerProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn('Could not save mixer profiles', e);
+  }
+}
+
+export function saveProfile(profile: MixerProfile): MixerProfile[] {
+  const updated = { ...profile, updatedAt: Date.now() };
+  const profiles = loadProfiles();
+  const index = profiles.findIndex(p => p.id === profile.id);
+  const next = index >= 0
+    ? profiles.map(p => (p.id === profile.id ? updated : p))
+    : [...profiles, updated];
+  storeProfiles(next);
+  return next;
+}
+
+export function deleteProfile(id: string): MixerProfile[] {
+  const next = loadProfiles().filter(p => p.id !== id);
+  storeProfiles(next);
+  if (loadSelectedProfileId() === id) saveSelectedProfileId(null);
+  deleteReference(id).catch(e => console.warn('Could not delete the reference photo', e));
+  return next;
+}
+
+export function loadSelectedProfileId(): string | null {
+  return localStorage.getItem(SELECTED_KEY);
+}
+
+export function saveSelectedProfileId(id: string | null) {
+  if (id) {
+    localStorage.setItem(SELECTED_KEY, id);
+  } else {
+    localStorage.removeItem(SELECTED_KEY);
+  }
+}
@@ -0,0 +1,184 @@
+import { MixerReference, NormalizedBox } from '../types';
+import { REFERENCES_STORE, runStoreRequest } from './appDb';
+import { GrayFrame, toGrayFrame } from './regionTracker';
+
+// Saved "known-good" mixer photos and a local comparison of the live camera
+// against them. The comparison works on small brightness-normalised copies,
+// so it tolerates different lighting and a slightly different phone position.
+
+// Comparison grid: frames are reduced to this width, then split into cells
+const COMPARE_WIDTH = 64;
+const GRID_COLUMNS = 8;
+// Largest shift between the two photos that is searched for, in compare pixels
+const MAX_SHIFT = 5;
+// Mean difference in a cell, in standard deviations, that counts as changed
+const CELL_CHANGE_THRESHOLD = 0.7;
+
+export interface DriftComparison {
+  // Normalised cross-correlation at the best alignment, 0-1
+  similarity: number;
+  // Changed regions, as fractions of the current frame
+  changed: NormalizedBox[];
+}
+
+export function saveReference(reference: MixerReference): Promise<void> {
+  return runStoreRequest(REFERENCES_STORE, 'readwrite', store => store.put(reference)).then(() => undefined);
+}
+
+export function loadReference(profileId: string): Promise<MixerReference | null> {
+  return runStoreRequest<MixerReference | undefined>(REFERENCES_STORE, 'readonly', store => store.get(profileId))
+    .then(reference => reference ?? null);
+}
+
+export function deleteReference(profileId: string): Promise<void> {
+  return runStoreRequest(REFERENCES_STORE, 'readwrite', store => store.delete(profileId)).then(() => undefined);
+}
+
+/** Decodes a saved JPEG into a grayscale frame of the given width. */
+export function imageToGrayFrame(base64Jpeg: string, width: number): Promise<GrayFrame> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = Math.max(1, Math.round((width * image.naturalHeight) / image.naturalWidth));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Canvas unavailable'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(toGrayFrame(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+    };
+    image.onerror = () => reject(new Error('Could not decode the reference photo'));
+    image.src = `data:image/jpeg;base64,${base64Jpeg}`;
+  });
+}
+
+// Box-averaged copy at a fixed size, scaled to zero mean and unit deviation
+function normalisedThumbnail(frame: GrayFrame, width: number, height: number): Float32Array {
+  const out = new Float32Array(width * height);
+  const sx = frame.width / width;
+  const sy = frame.height / height;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let fy = Math.floor(y * sy); fy < Math.max(Math.floor(y * sy) + 1, Math.floor((y + 1) * sy)); fy++) {
+        for (let fx = Math.floor(x * sx); fx < Math.max(Math.floor(x * sx) + 1, Math.floor((x + 1) * sx)); fx++) {
+          sum += frame.data[fy * frame.width + fx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+
+  let mean = 0;
+  for (let i = 0; i < out.length; i++) mean += out[i];
+  mean /= out.length;
+  let variance = 0;
+  for (let i = 0; i < out.length; i++) variance += (out[i] - mean) ** 2;
+  const std = Math.sqrt(variance / out.length) || 1;
+  for (let i = 0; i < out.length; i++) out[i] = (out[i] - mean) / std;
+  return out;
+}
+
+/**
+ * Aligns the current frame to the reference and marks the grid cells that
+ * differ. Neighbouring changed cells are merged into one region.
+ */
+export function compareWithReference(reference: GrayFrame, current: GrayFrame): DriftComparison {
+  const width = COMPARE_WIDTH;
+  const height = Math.max(8, Math.round((COMPARE_WIDTH * current.height) / current.width));
+  const ref = normalisedThumbnail(reference, width, height);
+  const cur = normalisedThumbnail(current, width, height);
+
+  // Overlap of cur shifted by (dx, dy) against ref
+  const overlap = (dx: number, dy: number, visit: (refValue: number, curValue: number, x: number, y: number) => void) => {
+    for (let y = Math.max(0, -dy); y < Math.min(height, height - dy); y++) {
+      for (let x = Math.max(0, -dx); x < Math.min(width, width - dx); x++) {
+        visit(ref[(y + dy) * width + (x + dx)], cur[y * width + x], x, y);
+      }
+    }
+  };
+
+  let best = { dx: 0, dy: 0, score: -Infinity };
+  for (let dy = -MAX_SHIFT; dy <= MAX_SHIFT; dy++) {
+    for (let dx = -MAX_SHIFT; dx <= MAX_SHIFT; dx++) {
+      let sum = 0;
+      let count = 0;
+      overlap(dx, dy, (a, b) => {
+        sum += a * b;
+        count++;
+      });
+      const score = sum / Math.max(1, count);
+      if (score > best.score) best = { dx, dy, score };
+    }
+  }
+
+  // Mean absolute difference per grid cell, in the current frame's coordinates
+  const cellSize = width / GRID_COLUMNS;
+  const rows = Math.max(1, Math.round(height / cellSize));
+  const cellHeight = height / rows;
+  const diff = new Float32Array(GRID_COLUMNS * rows);
+  const counts = new Uint16Array(GRID_COLUMNS * rows);
+  overlap(best.dx, best.dy, (a, b, x, y) => {
+    const cell = Math.min(rows - 1, Math.floor(y / cellHeight)) * GRID_COLUMNS + Math.min(GRID_COLUMNS - 1, Math.floor(x / cellSize));
+    diff[cell] += Math.abs(a - b);
+    counts[cell]++;
+  });
+  const changedCell = (c: number) => counts[c] > 0 && diff[c] / counts[c] > CELL_CHANGE_THRESHOLD;
+
+  // Group changed cells that touch into regions
+  const seen = new Uint8Array(diff.length);
+  const changed: NormalizedBox[] = [];
+  for (let start = 0; start < diff.length; start++) {
+    if (seen[start] || !changedCell(start)) continue;
+    let minCol = GRID_COLUMNS, minRow = rows, maxCol = -1, maxRow = -1;
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const col = cell % GRID_COLUMNS;
+      const row = Math.floor(cell / GRID_COLUMNS);
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      const neighbours = [
+        col > 0 ? cell - 1 : -1,
+        col < GRID_COLUMNS - 1 ? cell + 1 : -1,
+        row > 0 ? cell - GRID_COLUMNS : -1,
+        row < rows - 1 ? cell + GRID_COLUMNS : -1
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && !seen[n] && changedCell(n)) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    changed.push({
+      xmin: minCol / GRID_COLUMNS,
+      ymin: minRow / rows,
+      xmax: (maxCol + 1) / GRID_COLUMNS,
+      ymax: (maxRow + 1) / rows
+    });
+  }
+
+  return { similarity: Math.max(0, Math.min(1, best.score)), changed };
+}
+
+/** Message for the model that goes with the reference photo. */
+export function referenceToText(reference: MixerReference, comparison: DriftComparison): string {
+  const date = new Date(reference.capturedAt).toISOString().slice(0, 10);
+  const settings = reference.settings.filter(s => s.value.trim());
+  return `The attached photo is the known-good state of this mixer, saved by a technician on ${date}. ` +
+    (settings.length > 0
+      ? `Settings recorded then: ${settings.map(s => `${s.control}: ${s.value.trim()}`).join('; ')}. `
+      : 'No settings were written down, so read them from the photo. ') +
+    `Local comparison with the current camera view: ${Math.round(comparison.similarity * 100)}% similar, ` +
+    `${comparison.changed.length} changed region(s), now outlined on the user's screen. ` +
+    'Find every control that differs from the photo and guide the user back to the reference one control at a time, checking with the camera after each change.';
+}
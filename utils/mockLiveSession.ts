@@ -0,0 +1,69 @@
+import { LiveServerMessage } from '@google/genai';
+import type { LiveSession, LiveSessionCallbacks, LiveSessionConfig } from './liveSession';
+
+// Client for scripts/mock-live-server.mjs. Outgoing messages are small JSON
+// envelopes; incoming messages already have the LiveServerMessage shape.
+
+export type MockClientMessage =
+  | { type: 'setup'; systemInstruction: string; tools: string[] }
+  | { type: 'audio'; mimeType: string; data: string }
+  | { type: 'audioStreamEnd' }
+  | { type: 'image'; data: string }
+  | { type: 'text'; text: string; image?: string }
+  | { type: 'toolResponse'; functionResponses: unknown[] };
+
+export function connectMockSession(
+  url: string,
+  config: LiveSessionConfig,
+  callbacks: LiveSessionCallbacks
+): Promise<LiveSession> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    let opened = false;
+
+    const send = (message: MockClientMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    socket.onopen = () => {
+      opened = true;
+      send({
+        type: 'setup',
+        systemInstruction: config.systemInstruction,
+        tools: config.tools.map(tool => tool.name ?? '')
+      });
+      resolve({
+        sendAudio: pcm => send({ type: 'audio', mimeType: pcm.mimeType ?? '', data: pcm.data ?? '' }),
+        endAudioStream: () => send({ type: 'audioStreamEnd' }),
+        sendImage: base64Jpeg => send({ type: 'image', data: base64Jpeg }),
+        sendText: text => send({ type: 'text', text }),
+        sendTextWithImage: (text, base64Jpeg) => send({ type: 'text', text, image: base64Jpeg }),
+        sendToolResponse: responses => send({ type: 'toolResponse', functionResponses: responses }),
+        bufferedBytes: () => socket.bufferedAmount,
+        close: () => socket.close()
+      });
+      callbacks.onOpen();
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        callbacks.onMessage(JSON.parse(event.data) as LiveServerMessage);
+      } catch (e) {
+        console.warn('Mock server sent an invalid message', e);
+      }
+    };
+
+    socket.onerror = () => {
+      const error = new Error(`Mock live server not reachable at ${url}`);
+      if (opened) callbacks.onError(error);
+      else reject(error);
+    };
+
+    // A socket can close before opening without an error event; rejecting
+    // again after onerror already did is harmless
+    socket.onclose = (event) => {
+      if (opened) callbacks.onClose(event.reason);
+      else reject(new Error(`Mock live server closed the connection at ${url}`));
+    };
+  });
+}
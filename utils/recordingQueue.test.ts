@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createRecordingQueue } from './recordingQueue';
+
+const chunk = (value: number, length = 4) => new Float32Array(length).fill(value);
+
+describe('createRecordingQueue', () => {
+  it('resolves with the requested audio once enough has arrived', async () => {
+    const queue = createRecordingQueue();
+    const recording = queue.record('reverb', 8);
+    queue.push(chunk(0.1), false);
+    queue.push(chunk(0.2), false);
+    expect(Array.from(await recording)).toEqual([...chunk(0.1), ...chunk(0.2)]);
+    expect(queue.activeOwner()).toBeNull();
+  });
+
+  it('records one at a time, in the order requested', async () => {
+    const queue = createRecordingQueue();
+    const started: string[] = [];
+    const first = queue.record('reverb', 4, { onStart: () => started.push('reverb') });
+    const second = queue.record('verification', 4, { onStart: () => started.push('verification') });
+    expect(started).toEqual(['reverb']);
+    expect(queue.activeOwner()).toBe('reverb');
+
+    queue.push(chunk(0.1), false);
+    expect(started).toEqual(['reverb', 'verification']);
+    expect(queue.activeOwner()).toBe('verification');
+    queue.push(chunk(0.2), false);
+
+    expect(Array.from(await first)).toEqual(Array.from(chunk(0.1)));
+    expect(Array.from(await second)).toEqual(Array.from(chunk(0.2)));
+  });
+
+  it('leaves out audio captured during playback when asked to', async () => {
+    const queue = createRecordingQueue();
+    const recording = queue.record('response', 4, { skipPlayback: true });
+    queue.push(chunk(0.9), true);
+    queue.push(chunk(0.1), false);
+    expect(Array.from(await recording)).toEqual(Array.from(chunk(0.1)));
+  });
+
+  it('keeps a copy of each chunk rather than the caller\'s buffer', async () => {
+    const queue = createRecordingQueue();
+    const recording = queue.record('reverb', 4);
+    const buffer = chunk(0.1);
+    queue.push(buffer, false);
+    buffer.fill(0);
+    expect(Array.from(await recording)).toEqual(Array.from(chunk(0.1)));
+  });
+
+  it('cancels only the given owner\'s recordings and moves on to the next', async () => {
+    const queue = createRecordingQueue();
+    const started: string[] = [];
+    const reverb = queue.record('reverb', 4);
+    const verification = queue.record('verification', 4, { onStart: () => started.push('verification') });
+    const response = queue.record('response', 4);
+
+    queue.cancel('reverb');
+    await expect(reverb).rejects.toThrow('RECORDING_CANCELLED');
+    expect(started).toEqual(['verification']);
+    expect(queue.activeOwner()).toBe('verification');
+
+    queue.cancel('response');
+    await expect(response).rejects.toThrow('RECORDING_CANCELLED');
+    queue.push(chunk(0.1), false);
+    expect(Array.from(await verification)).toEqual(Array.from(chunk(0.1)));
+  });
+
+  it('cancels everything without an owner', async () => {
+    const queue = createRecordingQueue();
+    const recordings = [queue.record('reverb', 4), queue.record('verification', 4)];
+    queue.cancel();
+    for (const recording of recordings) await expect(recording).rejects.toThrow('RECORDING_CANCELLED');
+    expect(queue.activeOwner()).toBeNull();
+  });
+
+  it('ignores audio while nothing is recording', () => {
+    const queue = createRecordingQueue();
+    queue.push(chunk(0.1), false);
+    expect(queue.activeOwner()).toBeNull();
+  });
+});
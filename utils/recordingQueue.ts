@@ -0,0 +1,69 @@
+import { concatFloat32 } from './audioUtils';
+
+// Microphone recordings for the tests and the before/after checks. Only one
+// records at a time; the others wait their turn, so a check requested during a
+// test is taken after it instead of cutting it short.
+
+export type RecordingOwner = 'reverb' | 'response' | 'verification';
+
+export interface RecordingOptions {
+  // Leave out audio captured while the engineer's voice is playing
+  skipPlayback?: boolean;
+  // Called when recording actually starts, e.g. to play a test signal into it
+  onStart?: () => void;
+}
+
+interface Recording extends RecordingOptions {
+  owner: RecordingOwner;
+  chunks: Float32Array[];
+  samplesLeft: number;
+  resolve: (samples: Float32Array) => void;
+  reject: (error: Error) => void;
+}
+
+export function createRecordingQueue() {
+  const waiting: Recording[] = [];
+  let active: Recording | null = null;
+
+  const startNext = () => {
+    active = waiting.shift() ?? null;
+    active?.onStart?.();
+  };
+
+  const record = (owner: RecordingOwner, samples: number, options: RecordingOptions = {}): Promise<Float32Array> =>
+    new Promise((resolve, reject) => {
+      waiting.push({ ...options, owner, chunks: [], samplesLeft: samples, resolve, reject });
+      if (!active) startNext();
+    });
+
+  // Feeds microphone audio to the recording in progress, if any
+  const push = (chunk: Float32Array, playbackActive: boolean) => {
+    const recording = active;
+    if (!recording || (recording.skipPlayback && playbackActive)) return;
+    recording.chunks.push(new Float32Array(chunk));
+    recording.samplesLeft -= chunk.length;
+    if (recording.samplesLeft <= 0) {
+      startNext();
+      recording.resolve(concatFloat32(recording.chunks));
+    }
+  };
+
+  // Rejects the owner's recordings with RECORDING_CANCELLED, or all of them without an owner
+  const cancel = (owner?: RecordingOwner) => {
+    const matches = (recording: Recording) => !owner || recording.owner === owner;
+    const cancelled = waiting.filter(matches);
+    waiting.splice(0, waiting.length, ...waiting.filter(recording => !matches(recording)));
+    if (active && matches(active)) {
+      cancelled.unshift(active);
+      startNext();
+    }
+    cancelled.forEach(recording => recording.reject(new Error('RECORDING_CANCELLED')));
+  };
+
+  // Whose recording is taking audio now, if any
+  const activeOwner = (): RecordingOwner | null => active?.owner ?? null;
+
+  return { record, push, cancel, activeOwner };
+}
+
+export type RecordingQueue = ReturnType<typeof createRecordingQueue>;
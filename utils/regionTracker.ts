@@ -0,0 +1,88 @@
+import { NormalizedBox } from '../types';
+
+export interface GrayFrame {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Furthest the region may move between two updates, as a fraction of the frame
+const SEARCH_FRACTION = 0.12;
+// Matches worse than this mean average difference are ignored
+const MAX_MEAN_DIFFERENCE = 40;
+
+/** Converts RGBA pixels to a single luma channel. */
+export function toGrayFrame(image: ImageData): GrayFrame {
+  const data = new Uint8Array(image.width * image.height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    data[i] = (image.data[p] * 77 + image.data[p + 1] * 150 + image.data[p + 2] * 29) >> 8;
+  }
+  return { data, width: image.width, height: image.height };
+}
+
+/**
+ * Follows a region across frames by template matching (sum of absolute
+ * differences) in a window around its last position. Good enough for a
+ * hand-held phone drifting over a mixer; not meant for fast motion.
+ */
+export function createRegionTracker(initialFrame: GrayFrame, initialBox: NormalizedBox) {
+  const { width, height } = initialFrame;
+  const tx = Math.round(initialBox.xmin * width);
+  const ty = Math.round(initialBox.ymin * height);
+  const tw = Math.max(4, Math.round((initialBox.xmax - initialBox.xmin) * width));
+  const th = Math.max(4, Math.round((initialBox.ymax - initialBox.ymin) * height));
+
+  const template = new Uint8Array(tw * th);
+  for (let y = 0; y < th; y++) {
+    for (let x = 0; x < tw; x++) {
+      const sx = Math.min(width - 1, tx + x);
+      const sy = Math.min(height - 1, ty + y);
+      template[y * tw + x] = initialFrame.data[sy * width + sx];
+    }
+  }
+
+  let posX = tx;
+  let posY = ty;
+  const radius = Math.max(2, Math.round(SEARCH_FRACTION * Math.max(width, height)));
+
+  const update = (frame: GrayFrame): NormalizedBox => {
+    let bestX = posX;
+    let bestY = posY;
+    let best = Infinity;
+    // Step 2 in the window search keeps this cheap; the template is small anyway
+    for (let dy = -radius; dy <= radius; dy += 2) {
+      for (let dx = -radius; dx <= radius; dx += 2) {
+        const ox = posX + dx;
+        const oy = posY + dy;
+        if (ox < 0 || oy < 0 || ox + tw > frame.width || oy + th > frame.height) continue;
+        let sum = 0;
+        for (let y = 0; y < th && sum < best; y++) {
+          const row = (oy + y) * frame.width + ox;
+          for (let x = 0; x < tw; x++) {
+            sum += Math.abs(frame.data[row + x] - template[y * tw + x]);
+          }
+        }
+        if (sum < best) {
+          best = sum;
+          bestX = ox;
+          bestY = oy;
+        }
+      }
+    }
+
+    if (best / (tw * th) <= MAX_MEAN_DIFFERENCE) {
+      posX = bestX;
+      posY = bestY;
+    }
+    return {
+      xmin: posX / frame.width,
+      ymin: posY / frame.height,
+      xmax: (posX + tw) / frame.width,
+      ymax: (posY + th) / frame.height
+    };
+  };
+
+  return { update };
+}
+
+export type RegionTracker = ReturnType<typeof createRegionTracker>;
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler } from './resampler';
+
+const sine = (hz: number, rate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * hz * i) / rate));
+
+// RMS of the middle half, away from the start-up transient
+const steadyRms = (samples: Float32Array) => {
+  const middle = samples.subarray(Math.floor(samples.length / 4), Math.floor((samples.length * 3) / 4));
+  return Math.sqrt(middle.reduce((sum, s) => sum + s * s, 0) / middle.length);
+};
+
+describe('createResampler', () => {
+  it('passes audio through when the rates match', () => {
+    const chunk = new Float32Array([0.1, 0.2, 0.3]);
+    expect(createResampler({ inputRate: 16000, outputRate: 16000 }).process(chunk)).toBe(chunk);
+  });
+
+  it('keeps a tone below the new Nyquist frequency', () => {
+    const output = createResampler({ inputRate: 48000, outputRate: 16000 }).process(sine(1000, 48000, 48000));
+    expect(output.length).toBeGreaterThan(15900);
+    expect(output.length).toBeLessThanOrEqual(16000);
+    expect(steadyRms(output)).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it('filters out a tone above the new Nyquist frequency instead of aliasing it', () => {
+    const output = createResampler({ inputRate: 48000, outputRate: 16000 }).process(sine(10000, 48000, 48000));
+    expect(steadyRms(output)).toBeLessThan(0.01);
+  });
+
+  it('handles rates that are not whole multiples', () => {
+    const output = createResampler({ inputRate: 44100, outputRate: 16000 }).process(sine(440, 44100, 44100));
+    expect(output.length).toBeGreaterThan(15900);
+    expect(steadyRms(output)).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it('upsamples', () => {
+    const output = createResampler({ inputRate: 16000, outputRate: 48000 }).process(sine(1000, 16000, 16000));
+    expect(output.length).toBeGreaterThan(47900);
+    expect(steadyRms(output)).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it('gives the same result in chunks of any size as in one piece', () => {
+    const input = sine(1000, 48000, 4800);
+    const whole = createResampler({ inputRate: 48000, outputRate: 16000 }).process(input);
+
+    const chunked = createResampler({ inputRate: 48000, outputRate: 16000 });
+    const pieces: number[] = [];
+    for (let i = 0, size = 1; i < input.length; i += size, size = (size * 7) % 500 + 1) {
+      pieces.push(...chunked.process(input.subarray(i, i + size)));
+    }
+    expect(pieces.length).toBe(whole.length);
+    pieces.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+
+  it('forgets earlier audio on reset', () => {
+    const resampler = createResampler({ inputRate: 48000, outputRate: 16000 });
+    resampler.process(sine(1000, 48000, 1000));
+    resampler.reset();
+    const input = sine(500, 48000, 2000);
+    expect(resampler.process(input)).toEqual(createResampler({ inputRate: 48000, outputRate: 16000 }).process(input));
+  });
+});
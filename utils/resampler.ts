@@ -0,0 +1,86 @@
+// Streaming sample-rate converter using windowed-sinc interpolation.
+// The kernel doubles as the anti-aliasing low-pass when downsampling.
+
+export interface ResamplerOptions {
+  inputRate: number;
+  outputRate: number;
+  // Zero crossings of the sinc on each side; more is sharper and slower
+  halfWidth?: number;
+}
+
+// Kernel table resolution, in steps per input sample
+const TABLE_STEPS = 256;
+
+// Blackman window over [-1, 1]
+const blackman = (x: number) => 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+/**
+ * Creates a resampler that keeps its state between chunks, so audio can be
+ * fed in pieces of any size without clicks at the boundaries.
+ */
+export function createResampler(options: ResamplerOptions) {
+  const { inputRate, outputRate, halfWidth = 8 } = options;
+  const step = inputRate / outputRate;
+  // Cut just below the lower Nyquist frequency
+  const cutoff = Math.min(1, outputRate / inputRate) * 0.95;
+  const radius = Math.ceil(halfWidth / cutoff);
+
+  // Input samples kept from earlier chunks, and the read position within them
+  let history = new Float32Array(0);
+  let position = 0;
+
+  // Precomputed half kernel, looked up with linear interpolation
+  const table = new Float32Array(radius * TABLE_STEPS + 2);
+  for (let i = 0; i < table.length; i++) {
+    const x = (i / TABLE_STEPS) * cutoff;
+    table[i] = x === 0 ? cutoff
+      : x >= halfWidth ? 0
+      : (cutoff * Math.sin(Math.PI * x)) / (Math.PI * x) * blackman(x / halfWidth);
+  }
+  const kernel = (distance: number) => {
+    const t = Math.abs(distance) * TABLE_STEPS;
+    const i = Math.floor(t);
+    if (i >= table.length - 1) return 0;
+    return table[i] + (table[i + 1] - table[i]) * (t - i);
+  };
+
+  const process = (chunk: Float32Array): Float32Array => {
+    if (inputRate === outputRate) return chunk;
+
+    const input = new Float32Array(history.length + chunk.length);
+    input.set(history);
+    input.set(chunk, history.length);
+
+    // Only produce samples whose whole kernel is available
+    const lastCenter = input.length - 1 - radius;
+    const count = Math.max(0, Math.floor((lastCenter - position) / step) + 1);
+    const output = new Float32Array(count);
+
+    for (let n = 0; n < count; n++) {
+      const center = position + n * step;
+      const first = Math.max(0, Math.ceil(center - radius));
+      const last = Math.floor(center + radius);
+      let sum = 0;
+      for (let i = first; i <= last; i++) {
+        sum += input[i] * kernel(center - i);
+      }
+      output[n] = sum;
+    }
+
+    // Keep what the next chunk's kernels will still need
+    const nextPosition = position + count * step;
+    const keepFrom = Math.max(0, Math.floor(nextPosition - radius));
+    history = input.slice(keepFrom);
+    position = nextPosition - keepFrom;
+    return output;
+  };
+
+  const reset = () => {
+    history = new Float32Array(0);
+    position = 0;
+  };
+
+  return { process, reset };
+}
+
+export type Resampler = ReturnType<typeof createResampler>;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { measureReverb, reverbToInstruction } from './reverbAnalyzer';
+
+const SAMPLE_RATE = 16000;
+
+// Repeatable white noise between -1 and 1
+const noise = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x80000000 - 1;
+  };
+};
+
+/**
+ * A quiet background with a noise burst that decays by 60 dB in `rt60`
+ * seconds, starting at `impulseAt`. An optional repeat mimics a delay effect.
+ */
+const roomRecording = (rt60: number, options: { repeatMs?: number; seconds?: number } = {}) => {
+  const { repeatMs, seconds = 3 } = options;
+  const random = noise(1);
+  const impulseAt = Math.round(0.3 * SAMPLE_RATE);
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = 1e-4 * random();
+    if (i >= impulseAt) samples[i] += 0.5 * random() * Math.pow(10, (-3 * (i - impulseAt)) / SAMPLE_RATE / rt60);
+  }
+  if (repeatMs !== undefined) {
+    const offset = Math.round((repeatMs / 1000) * SAMPLE_RATE);
+    // The repeat is a copy of the first 50 ms of the burst
+    for (let i = 0; i < 0.05 * SAMPLE_RATE; i++) samples[impulseAt + offset + i] += 0.4 * random();
+  }
+  return samples;
+};
+
+describe('measureReverb', () => {
+  it('measures the decay time of a dry hall', () => {
+    const result = measureReverb(roomRecording(0.8), SAMPLE_RATE);
+    expect(result?.rt60).toBeGreaterThan(0.7);
+    expect(result?.rt60).toBeLessThan(0.9);
+    expect(result?.source).toBe('none');
+    expect(result?.echoDelayMs).toBeNull();
+  });
+
+  it('blames a long decay on the room', () => {
+    const result = measureReverb(roomRecording(2.2, { seconds: 4 }), SAMPLE_RATE);
+    expect(result?.rt60).toBeGreaterThan(1.9);
+    expect(result?.rt60).toBeLessThan(2.5);
+    expect(result?.source).toBe('room');
+  });
+
+  it('blames a discrete repeat on the mixer', () => {
+    const result = measureReverb(roomRecording(0.5, { repeatMs: 300 }), SAMPLE_RATE);
+    expect(result?.source).toBe('mixer_effect');
+    expect(result?.echoDelayMs).toBeGreaterThanOrEqual(290);
+    expect(result?.echoDelayMs).toBeLessThanOrEqual(310);
+  });
+
+  it('gives up without a clear impulse', () => {
+    const random = noise(2);
+    const background = Float32Array.from({ length: SAMPLE_RATE }, () => 0.01 * random());
+    expect(measureReverb(background, SAMPLE_RATE)).toBeNull();
+  });
+
+  it('gives up on recordings too short to analyse', () => {
+    expect(measureReverb(new Float32Array(100), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('reverbToInstruction', () => {
+  const measurement = { rt60: 2, edt: 1.8, echoDelayMs: null, dynamicRangeDb: 40 };
+
+  it('maps each source to its card', () => {
+    expect(reverbToInstruction({ ...measurement, source: 'room' }, 'en').action).toBe('room_acoustics');
+    expect(reverbToInstruction({ ...measurement, source: 'none' }, 'en').action).toBe('success');
+    expect(reverbToInstruction({ ...measurement, echoDelayMs: 300, source: 'mixer_effect' }, 'en').action).toBe('reduce_echo');
+  });
+
+  it('lists the repeat only when there is one', () => {
+    expect(reverbToInstruction({ ...measurement, source: 'room' }, 'en').details).toHaveLength(2);
+    expect(reverbToInstruction({ ...measurement, echoDelayMs: 300, source: 'mixer_effect' }, 'en').details).toHaveLength(3);
+  });
+});
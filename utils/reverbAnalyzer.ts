@@ -0,0 +1,170 @@
+import { InstructionState, ReverbMeasurement } from '../types';
+import { Language, uiStrings } from './i18n';
+
+// Envelope resolution used for the decay analysis
+const ENVELOPE_WINDOW_MS = 10;
+// The impulse must stand this far above the background to be usable
+const MIN_IMPULSE_SNR_DB = 25;
+// Echo repeats from a mixer delay usually sit in this range
+const ECHO_MIN_DELAY_MS = 80;
+const ECHO_MAX_DELAY_MS = 700;
+// A repeat must rise this far above the smooth decay to count as discrete
+const ECHO_BUMP_DB = 6;
+// Halls longer than this make speech hard to follow
+const LIVE_ROOM_RT60 = 1.5;
+
+function toDb(power: number): number {
+  return 10 * Math.log10(Math.max(power, 1e-12));
+}
+
+/** Mean-square energy envelope in fixed windows, in dB. */
+function energyEnvelope(samples: Float32Array, windowSize: number): number[] {
+  const envelope: number[] = [];
+  for (let start = 0; start + windowSize <= samples.length; start += windowSize) {
+    let sum = 0;
+    for (let i = start; i < start + windowSize; i++) sum += samples[i] * samples[i];
+    envelope.push(toDb(sum / windowSize));
+  }
+  return envelope;
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+/**
+ * Time (in seconds) for the energy decay curve to fall between two levels,
+ * from a least-squares line fit. Returns null when the curve never reaches
+ * the lower level.
+ */
+function decaySlope(edc: number[], windowSeconds: number, fromDb: number, toDbLevel: number): number | null {
+  const points: [number, number][] = [];
+  for (let i = 0; i < edc.length; i++) {
+    if (edc[i] <= fromDb && edc[i] >= toDbLevel) points.push([i * windowSeconds, edc[i]]);
+    if (edc[i] < toDbLevel) break;
+  }
+  if (points.length < 3 || edc[edc.length - 1] > toDbLevel) return null;
+
+  const n = points.length;
+  const meanX = points.reduce((a, [x]) => a + x, 0) / n;
+  const meanY = points.reduce((a, [, y]) => a + y, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (const [x, y] of points) {
+    num += (x - meanX) * (y - meanY);
+    den += (x - meanX) * (x - meanX);
+  }
+  const slope = den > 0 ? num / den : 0;
+  return slope < 0 ? -60 / slope : null;
+}
+
+/** Looks for a discrete repeat of the impulse, the signature of a delay effect. */
+function findEchoRepeat(decay: number[], windowMs: number): number | null {
+  const smoothSpan = Math.round(60 / windowMs);
+  const from = Math.round(ECHO_MIN_DELAY_MS / windowMs);
+  const to = Math.min(decay.length - 1, Math.round(ECHO_MAX_DELAY_MS / windowMs));
+
+  for (let i = from; i <= to; i++) {
+    // Expected level from the surrounding decay trend
+    const before = decay.slice(Math.max(0, i - smoothSpan), i - 1);
+    if (before.length === 0) continue;
+    const trend = Math.min(...before);
+    if (decay[i] - trend >= ECHO_BUMP_DB && decay[i] >= decay[i - 1] && decay[i] >= (decay[i + 1] ?? -Infinity)) {
+      return i * windowMs;
+    }
+  }
+  return null;
+}
+
+/**
+ * Estimates reverberation from a recording that contains a single clap or
+ * burst. Uses Schroeder backward integration of the decay after the
+ * loudest point, truncated where it reaches the background noise.
+ * Returns null when no clear impulse is found.
+ */
+export function measureReverb(samples: Float32Array, sampleRate: number): ReverbMeasurement | null {
+  const windowSize = Math.max(1, Math.round((sampleRate * ENVELOPE_WINDOW_MS) / 1000));
+  const windowSeconds = windowSize / sampleRate;
+  const envelope = energyEnvelope(samples, windowSize);
+  if (envelope.length < 20) return null;
+
+  let peakIndex = 0;
+  for (let i = 1; i < envelope.length; i++) {
+    if (envelope[i] > envelope[peakIndex]) peakIndex = i;
+  }
+  const peakDb = envelope[peakIndex];
+  const noiseFloorDb = percentile(envelope, 0.1);
+  if (peakDb - noiseFloorDb < MIN_IMPULSE_SNR_DB) return null;
+
+  // Cut the tail where the decay meets the noise floor
+  const decay = envelope.slice(peakIndex);
+  let end = decay.length;
+  for (let i = 1; i < decay.length; i++) {
+    if (decay[i] <= noiseFloorDb + 5) {
+      end = i;
+      break;
+    }
+  }
+  const tail = decay.slice(0, end);
+
+  // Schroeder integration: remaining energy from each point to the end
+  const powers = tail.map(db => Math.pow(10, db / 10));
+  const edc: number[] = new Array(powers.length);
+  let remaining = 0;
+  for (let i = powers.length - 1; i >= 0; i--) {
+    remaining += powers[i];
+    edc[i] = remaining;
+  }
+  const total = edc[0];
+  const edcDb = edc.map(e => toDb(e / total));
+
+  const edt = decaySlope(edcDb, windowSeconds, 0, -10);
+  const rt60 = decaySlope(edcDb, windowSeconds, -5, -25) ?? decaySlope(edcDb, windowSeconds, -5, -15);
+  if (edt === null && rt60 === null) return null;
+
+  const echoDelayMs = findEchoRepeat(tail, ENVELOPE_WINDOW_MS);
+  const rt = rt60 ?? edt ?? 0;
+  const source = echoDelayMs !== null ? 'mixer_effect' : rt >= LIVE_ROOM_RT60 ? 'room' : 'none';
+
+  return {
+    rt60: Math.round(rt * 100) / 100,
+    edt: Math.round((edt ?? rt) * 100) / 100,
+    echoDelayMs: echoDelayMs === null ? null : Math.round(echoDelayMs),
+    source,
+    dynamicRangeDb: Math.round(peakDb - noiseFloorDb)
+  };
+}
+
+/** Turns a reverb measurement into a result card. */
+export function reverbToInstruction(measurement: ReverbMeasurement, language: Language): InstructionState {
+  const t = uiStrings(language).analysis;
+  const details = [
+    { label: t.rt60, value: t.seconds(measurement.rt60) },
+    { label: t.edt, value: t.seconds(measurement.edt) }
+  ];
+  if (measurement.echoDelayMs !== null) {
+    details.push({ label: t.echoRepeat, value: t.milliseconds(measurement.echoDelayMs) });
+  }
+
+  switch (measurement.source) {
+    case 'mixer_effect':
+      return {
+        action: 'reduce_echo',
+        message: t.reverbMixer,
+        details
+      };
+    case 'room':
+      return {
+        action: 'room_acoustics',
+        message: t.reverbRoom,
+        details
+      };
+    default:
+      return {
+        action: 'success',
+        message: t.reverbNormal,
+        details
+      };
+  }
+}
@@ -0,0 +1,69 @@
+import { EqLayoutId, FeedbackDetection, RingOutNotch, RingOutResult } from '../types';
+
+const STORAGE_KEY = 'mosque-audio-tuner.ring-out';
+
+// Detections closer than this (in octaves) are the same ringing frequency
+const MERGE_OCTAVES = 1 / 12;
+const BASE_CUT_DB = 3;
+const CUT_PER_REPEAT_DB = 3;
+const MAX_CUT_DB = 12;
+// A very dominant ring needs a deeper cut from the start
+const STRONG_PROMINENCE_DB = 30;
+
+function cutDepth(hits: number, prominenceDb: number): number {
+  const depth = BASE_CUT_DB + CUT_PER_REPEAT_DB * (hits - 1) + (prominenceDb >= STRONG_PROMINENCE_DB ? 3 : 0);
+  return Math.min(MAX_CUT_DB, depth);
+}
+
+/**
+ * Adds a detection to the notch list. A frequency that rings again gets a
+ * deeper recommended cut. The list is kept sorted worst first.
+ */
+export function addRingDetection(notches: RingOutNotch[], detection: FeedbackDetection): RingOutNotch[] {
+  const index = notches.findIndex(n => Math.abs(Math.log2(n.frequency / detection.frequency)) <= MERGE_OCTAVES);
+  let updated: RingOutNotch[];
+
+  if (index >= 0) {
+    const existing = notches[index];
+    const hits = existing.hits + 1;
+    updated = [...notches];
+    updated[index] = {
+      frequency: Math.round((existing.frequency * existing.hits + detection.frequency) / hits),
+      hits,
+      levelDb: Math.max(existing.levelDb, detection.levelDb),
+      cutDb: Math.max(existing.cutDb, cutDepth(hits, detection.prominenceDb))
+    };
+  } else {
+    updated = [...notches, {
+      frequency: detection.frequency,
+      hits: 1,
+      levelDb: detection.levelDb,
+      cutDb: cutDepth(1, detection.prominenceDb)
+    }];
+  }
+
+  return updated.sort((a, b) => b.cutDb - a.cutDb || b.levelDb - a.levelDb);
+}
+
+export function loadRingOut(): RingOutResult | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as RingOutResult) : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function saveRingOut(eqLayout: EqLayoutId, notches: RingOutNotch[]): RingOutResult {
+  const result: RingOutResult = { eqLayout, notches, updatedAt: Date.now() };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(result));
+  } catch (e) {
+    console.warn('Could not save ring-out result', e);
+  }
+  return result;
+}
+
+export function clearRingOut() {
+  localStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,174 @@
+import { SessionEvent, SessionRecord } from '../types';
+import { runStoreRequest, SESSIONS_STORE } from './appDb';
+import { Language, languageInfo, uiStrings } from './i18n';
+import { joinPieces } from './captions';
+
+// Events come in bursts (a transcript arrives word by word), so a session is
+// written at most this often instead of once per event
+const SAVE_INTERVAL_MS = 2000;
+
+function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return runStoreRequest(SESSIONS_STORE, mode, action);
+}
+
+export function createSessionRecord(): SessionRecord {
+  const startedAt = Date.now();
+  return {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    startedAt,
+    endedAt: null,
+    events: []
+  };
+}
+
+/**
+ * Appends an event to the record. Consecutive transcript fragments from the
+ * same speaker are merged so each turn reads as one line; typed messages
+ * stay lines of their own.
+ */
+export function appendSessionEvent(record: SessionRecord, event: SessionEvent): SessionRecord {
+  const last = record.events[record.events.length - 1];
+  if (
+    event.type === 'transcript' && last?.type === 'transcript' &&
+    last.speaker === event.speaker && !event.typed && !last.typed
+  ) {
+    const merged = { ...last, text: joinPieces(last.text, event.text) };
+    return { ...record, events: [...record.events.slice(0, -1), merged] };
+  }
+  return { ...record, events: [...record.events, event] };
+}
+
+export function saveSession(record: SessionRecord): Promise<void> {
+  return runRequest('readwrite', store => store.put(record)).then(() => undefined);
+}
+
+/**
+ * Saves the latest version of a session at most every SAVE_INTERVAL_MS. Call
+ * flush when the session ends so the last events are not left waiting.
+ */
+export function createSessionWriter() {
+  let pending: SessionRecord | null = null;
+  let timer: number | null = null;
+
+  const flush = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    if (!pending) return;
+    saveSession(pending).catch(e => console.warn('Could not save session history', e));
+    pending = null;
+  };
+
+  const save = (record: SessionRecord) => {
+    pending = record;
+    if (timer === null) timer = window.setTimeout(flush, SAVE_INTERVAL_MS);
+  };
+
+  return { save, flush };
+}
+
+export type SessionWriter = ReturnType<typeof createSessionWriter>;
+
+export function listSessions(): Promise<SessionRecord[]> {
+  return runRequest<SessionRecord[]>('readonly', store => store.getAll())
+    .then(sessions => sessions.sort((a, b) => b.startedAt - a.startedAt));
+}
+
+export function deleteSession(id: string): Promise<void> {
+  return runRequest('readwrite', store => store.delete(id)).then(() => undefined);
+}
+
+
+export function eventsOfType<T extends SessionEvent['type']>(
+  record: SessionRecord,
+  type: T
+): Extract<SessionEvent, { type: T }>[] {
+  return record.events.filter((e): e is Extract<SessionEvent, { type: T }> => e.type === type);
+}
+
+export function sessionDurationMinutes(record: SessionRecord): number {
+  return Math.max(0, Math.round(((record.endedAt ?? record.startedAt) - record.startedAt) / 60000));
+}
+
+export function sessionToJson(record: SessionRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+/** A plain report a mosque committee can read without the app. */
+export function sessionToSummary(record: SessionRecord, language: Language): string {
+  const t = uiStrings(language);
+  const { locale } = languageInfo(language);
+  const formatTime = (ts: number) => new Date(ts).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+  const formatDate = (ts: number) => new Date(ts).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' });
+  const instructions = eventsOfType(record, 'instruction');
+  const errors = eventsOfType(record, 'error');
+  const transcripts = eventsOfType(record, 'transcript');
+  const verifications = eventsOfType(record, 'verification');
+  const outcomes = eventsOfType(record, 'step_outcome');
+
+  const lines: string[] = [
+    t.history.summaryTitle,
+    t.history.date(formatDate(record.startedAt)),
+    t.history.timeFrom(formatTime(record.startedAt)) +
+      (record.endedAt ? t.history.timeTo(formatTime(record.endedAt), sessionDurationMinutes(record)) : ''),
+    ''
+  ];
+
+  lines.push(t.history.requested(instructions.length));
+  if (instructions.length === 0) lines.push(`- ${t.history.none}`);
+  instructions.forEach((e, i) => {
+    const by = e.source === 'ai' ? t.history.byEngineer : t.history.byAnalysis;
+    lines.push(`${i + 1}. [${formatTime(e.at)}] ${e.message} (${by})`);
+  });
+
+  if (outcomes.length > 0) {
+    lines.push('', t.history.stepAnswers);
+    outcomes.forEach(e => lines.push(`- [${formatTime(e.at)}] ${e.action}: ${t.analysis.outcomes[e.outcome]}`));
+  }
+
+  if (verifications.length > 0) {
+    lines.push('', t.history.verifications);
+    verifications.forEach(e => lines.push(`- [${formatTime(e.at)}] ${e.action}: ${t.analysis.verdicts[e.verdict]}`));
+  }
+
+  if (errors.length > 0) {
+    lines.push('', t.history.connectionProblems);
+    errors.forEach(e => lines.push(`- [${formatTime(e.at)}] ${e.message}`));
+  }
+
+  if (transcripts.length > 0) {
+    lines.push('', t.history.transcript);
+    transcripts.forEach(e => lines.push(`${e.speaker === 'user' ? t.history.user : t.history.engineer}: ${e.text.trim()}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Recap of the latest conversation for the model after a reconnect that
+ * could not resume the previous session.
+ */
+export function recentContextSummary(record: SessionRecord, maxEvents: number): string {
+  const recent = record.events.filter(e => e.type !== 'error').slice(-maxEvents);
+  const lastInstruction = eventsOfType(record, 'instruction').pop();
+
+  const lines = recent.map(e => {
+    if (e.type === 'instruction') return `- Card shown: ${e.action} "${e.message}"`;
+    if (e.type === 'transcript') return `- ${e.speaker === 'user' ? 'User' : 'You'}: ${e.text.trim()}`;
+    if (e.type === 'verification') return `- Before/after check of ${e.action}: ${e.verdict}`;
+    if (e.type === 'step_outcome') return `- User answered the ${e.action} card: ${e.outcome}`;
+    return '';
+  });
+  if (lastInstruction) {
+    lines.push(`The adjustment in progress is: ${lastInstruction.action} "${lastInstruction.message}".`);
+  }
+  return lines.filter(Boolean).join('\n');
+}
+
+export function downloadTextFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
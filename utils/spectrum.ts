@@ -0,0 +1,78 @@
+// Helpers for working with AnalyserNode frequency data (dBFS per bin).
+
+export function binToFrequency(bin: number, sampleRate: number, fftSize: number): number {
+  return (bin * sampleRate) / fftSize;
+}
+
+export function frequencyToBin(frequency: number, sampleRate: number, fftSize: number): number {
+  return Math.round((frequency * fftSize) / sampleRate);
+}
+
+/**
+ * AnalyserNode FFT size giving about the same Hz per bin at `sampleRate` as
+ * `sizeAt16k` does at 16 kHz, within the browser's 32768 limit.
+ */
+export function fftSizeForRate(sampleRate: number, sizeAt16k: number): number {
+  const size = 2 ** Math.round(Math.log2((sizeAt16k * sampleRate) / 16000));
+  return Math.min(32768, Math.max(32, size));
+}
+
+/**
+ * Refines a peak position using parabolic interpolation over the
+ * neighbouring bins. Returns the fractional bin offset (-0.5 to 0.5).
+ */
+export function interpolatePeak(spectrum: Float32Array, bin: number): number {
+  if (bin <= 0 || bin >= spectrum.length - 1) return 0;
+  const left = spectrum[bin - 1];
+  const center = spectrum[bin];
+  const right = spectrum[bin + 1];
+  const denominator = left - 2 * center + right;
+  if (denominator === 0) return 0;
+  return Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denominator));
+}
+
+/** Median of spectrum[from..to], skipping the excluded bins around `skip`. */
+export function localMedian(spectrum: Float32Array, from: number, to: number, skip: number, skipWidth: number): number {
+  const values: number[] = [];
+  for (let i = Math.max(0, from); i <= Math.min(spectrum.length - 1, to); i++) {
+    if (Math.abs(i - skip) <= skipWidth) continue;
+    if (Number.isFinite(spectrum[i])) values.push(spectrum[i]);
+  }
+  if (values.length === 0) return -Infinity;
+  values.sort((a, b) => a - b);
+  return values[Math.floor(values.length / 2)];
+}
+
+/** Loudest bin between two frequencies (inclusive). */
+export function peakInRange(
+  spectrum: Float32Array,
+  sampleRate: number,
+  fftSize: number,
+  lowHz: number,
+  highHz: number
+): { bin: number; levelDb: number } {
+  const from = Math.max(1, frequencyToBin(lowHz, sampleRate, fftSize));
+  const to = Math.min(spectrum.length - 1, frequencyToBin(highHz, sampleRate, fftSize));
+  let bin = from;
+  for (let i = from + 1; i <= to; i++) {
+    if (spectrum[i] > spectrum[bin]) bin = i;
+  }
+  return { bin, levelDb: spectrum[bin] };
+}
+
+/** Total power (in dB) summed across a frequency band. */
+export function bandPowerDb(
+  spectrum: Float32Array,
+  sampleRate: number,
+  fftSize: number,
+  lowHz: number,
+  highHz: number
+): number {
+  const from = Math.max(1, frequencyToBin(lowHz, sampleRate, fftSize));
+  const to = Math.min(spectrum.length - 1, frequencyToBin(highHz, sampleRate, fftSize));
+  let power = 0;
+  for (let i = from; i <= to; i++) {
+    if (Number.isFinite(spectrum[i])) power += Math.pow(10, spectrum[i] / 10);
+  }
+  return power > 0 ? 10 * Math.log10(power) : -Infinity;
+}
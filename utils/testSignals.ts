@@ -0,0 +1,43 @@
+// Measurement signals played through the PA for the frequency response test.
+
+/** Exponential (logarithmic) sine sweep with short fades at both ends. */
+export function createLogSweep(
+  durationSeconds: number,
+  sampleRate: number,
+  startHz: number = 50,
+  endHz: number = 10000,
+  amplitude: number = 0.5
+): Float32Array {
+  const length = Math.round(durationSeconds * sampleRate);
+  const samples = new Float32Array(length);
+  const ratio = Math.log(endHz / startHz);
+  const fade = Math.round(sampleRate * 0.02);
+
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const phase = ((2 * Math.PI * startHz * durationSeconds) / ratio) * (Math.exp((t / durationSeconds) * ratio) - 1);
+    const envelope = Math.min(1, i / fade, (length - 1 - i) / fade);
+    samples[i] = amplitude * envelope * Math.sin(phase);
+  }
+  return samples;
+}
+
+/** Pink noise (-3 dB/octave) using Paul Kellet's refined filter. */
+export function createPinkNoise(durationSeconds: number, sampleRate: number, amplitude: number = 0.3): Float32Array {
+  const length = Math.round(durationSeconds * sampleRate);
+  const samples = new Float32Array(length);
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+
+  for (let i = 0; i < length; i++) {
+    const white = Math.random() * 2 - 1;
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.96900 * b2 + white * 0.1538520;
+    b3 = 0.86650 * b3 + white * 0.3104856;
+    b4 = 0.55000 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.0168980;
+    samples[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11 * amplitude;
+    b6 = white * 0.115926;
+  }
+  return samples;
+}
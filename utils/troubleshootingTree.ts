@@ -0,0 +1,252 @@
+export type ProblemId = 'echo' | 'buzz' | 'feedback' | 'muffled' | 'low_volume';
+
+export type MeasurementKind = 'feedback' | 'hum' | 'reverb';
+
+// Outcome keys produced by each measurement
+export type MeasurementOutcome =
+  | 'feedback_high' | 'feedback_low' | 'feedback_none'
+  | 'hum_ground_loop' | 'hum_gain_noise' | 'hum_none'
+  | 'reverb_mixer_effect' | 'reverb_room' | 'reverb_none';
+
+// The wording of each node is in uiStrings(language).offline.nodes
+export type TroubleNodeId =
+  | 'solved' | 'echo_has_knob' | 'echo_reduce' | 'echo_fixed' | 'echo_restore' | 'echo_measure'
+  | 'echo_other_effect' | 'echo_effect_fixed' | 'echo_room' | 'buzz_measure' | 'buzz_cables' | 'buzz_cables_fixed'
+  | 'buzz_power' | 'buzz_gain' | 'buzz_gain_fixed' | 'buzz_touch' | 'buzz_intermittent' | 'feedback_measure'
+  | 'feedback_treble' | 'feedback_gain' | 'feedback_fixed' | 'feedback_position' | 'feedback_position_fixed'
+  | 'feedback_master' | 'muffled_treble' | 'muffled_treble_fixed' | 'muffled_bass' | 'muffled_bass_fixed'
+  | 'muffled_mic' | 'low_signal_light' | 'low_gain' | 'low_master' | 'low_feedback' | 'low_fixed'
+  | 'low_amplifier';
+
+interface QuestionNode {
+  kind: 'question';
+  yes: TroubleNodeId;
+  no: TroubleNodeId;
+}
+
+interface StepNode {
+  kind: 'step';
+  // Its text may contain {frequency} from the last measurement
+  action: string;
+  next: TroubleNodeId;
+}
+
+interface MeasureNode {
+  kind: 'measure';
+  measurement: MeasurementKind;
+  outcomes: Partial<Record<MeasurementOutcome, TroubleNodeId>>;
+}
+
+interface EndNode {
+  kind: 'end';
+  action: string;
+}
+
+export type TroubleNode = QuestionNode | StepNode | MeasureNode | EndNode;
+
+export const PROBLEMS: { id: ProblemId; start: TroubleNodeId }[] = [
+  { id: 'echo', start: 'echo_has_knob' },
+  { id: 'buzz', start: 'buzz_measure' },
+  { id: 'feedback', start: 'feedback_measure' },
+  { id: 'muffled', start: 'muffled_treble' },
+  { id: 'low_volume', start: 'low_signal_light' }
+];
+
+const SOLVED: EndNode = {
+  kind: 'end',
+  action: 'success'
+};
+
+export const TROUBLESHOOTING_TREE: Record<TroubleNodeId, TroubleNode> = {
+  solved: SOLVED,
+
+  // --- Echo ---
+  echo_has_knob: {
+    kind: 'question',
+    yes: 'echo_reduce',
+    no: 'echo_measure'
+  },
+  echo_reduce: {
+    kind: 'step',
+    action: 'reduce_echo',
+    next: 'echo_fixed'
+  },
+  echo_fixed: {
+    kind: 'question',
+    yes: 'echo_restore',
+    no: 'echo_measure'
+  },
+  echo_restore: {
+    kind: 'end',
+    action: 'increase_echo'
+  },
+  echo_measure: {
+    kind: 'measure',
+    measurement: 'reverb',
+    outcomes: {
+      reverb_mixer_effect: 'echo_other_effect',
+      reverb_room: 'echo_room',
+      reverb_none: 'solved'
+    }
+  },
+  echo_other_effect: {
+    kind: 'step',
+    action: 'reduce_echo',
+    next: 'echo_effect_fixed'
+  },
+  echo_effect_fixed: {
+    kind: 'question',
+    yes: 'solved',
+    no: 'echo_room'
+  },
+  echo_room: {
+    kind: 'end',
+    action: 'room_acoustics'
+  },
+
+  // --- Buzz ---
+  buzz_measure: {
+    kind: 'measure',
+    measurement: 'hum',
+    outcomes: {
+      hum_ground_loop: 'buzz_cables',
+      hum_gain_noise: 'buzz_gain',
+      hum_none: 'buzz_touch'
+    }
+  },
+  buzz_cables: {
+    kind: 'step',
+    action: 'check_cables',
+    next: 'buzz_cables_fixed'
+  },
+  buzz_cables_fixed: {
+    kind: 'question',
+    yes: 'solved',
+    no: 'buzz_power'
+  },
+  buzz_power: {
+    kind: 'end',
+    action: 'check_cables'
+  },
+  buzz_gain: {
+    kind: 'step',
+    action: 'reduce_gain',
+    next: 'buzz_gain_fixed'
+  },
+  buzz_gain_fixed: {
+    kind: 'question',
+    yes: 'solved',
+    no: 'buzz_cables'
+  },
+  buzz_touch: {
+    kind: 'question',
+    yes: 'buzz_cables',
+    no: 'buzz_intermittent'
+  },
+  buzz_intermittent: {
+    kind: 'end',
+    action: 'general'
+  },
+
+  // --- Feedback ---
+  feedback_measure: {
+    kind: 'measure',
+    measurement: 'feedback',
+    outcomes: {
+      feedback_high: 'feedback_treble',
+      feedback_low: 'feedback_gain',
+      feedback_none: 'feedback_position'
+    }
+  },
+  feedback_treble: {
+    kind: 'step',
+    action: 'reduce_treble',
+    next: 'feedback_fixed'
+  },
+  feedback_gain: {
+    kind: 'step',
+    action: 'reduce_gain',
+    next: 'feedback_fixed'
+  },
+  feedback_fixed: {
+    kind: 'question',
+    yes: 'solved',
+    no: 'feedback_position'
+  },
+  feedback_position: {
+    kind: 'step',
+    action: 'general',
+    next: 'feedback_position_fixed'
+  },
+  feedback_position_fixed: {
+    kind: 'question',
+    yes: 'solved',
+    no: 'feedback_master'
+  },
+  feedback_master: {
+    kind: 'end',
+    action: 'reduce_gain'
+  },
+
+  // --- Muffled ---
+  muffled_treble: {
+    kind: 'step',
+    action: 'increase_treble',
+    next: 'muffled_treble_fixed'
+  },
+  muffled_treble_fixed: {
+    kind: 'question',
+    yes: 'solved',
+    no: 'muffled_bass'
+  },
+  muffled_bass: {
+    kind: 'step',
+    action: 'reduce_bass',
+    next: 'muffled_bass_fixed'
+  },
+  muffled_bass_fixed: {
+    kind: 'question',
+    yes: 'solved',
+    no: 'muffled_mic'
+  },
+  muffled_mic: {
+    kind: 'end',
+    action: 'check_cables'
+  },
+
+  // --- Low volume ---
+  low_signal_light: {
+    kind: 'question',
+    yes: 'low_master',
+    no: 'low_gain'
+  },
+  low_gain: {
+    kind: 'step',
+    action: 'increase_volume',
+    next: 'low_master'
+  },
+  low_master: {
+    kind: 'step',
+    action: 'increase_volume',
+    next: 'low_feedback'
+  },
+  low_feedback: {
+    kind: 'question',
+    yes: 'feedback_measure',
+    no: 'low_fixed'
+  },
+  low_fixed: {
+    kind: 'question',
+    yes: 'solved',
+    no: 'low_amplifier'
+  },
+  low_amplifier: {
+    kind: 'end',
+    action: 'check_cables'
+  }
+};
+
+/** Fills {placeholders} in a node's text from measurement values. */
+export function fillNodeText(text: string, values: Record<string, string | number>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
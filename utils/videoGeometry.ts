@@ -0,0 +1,53 @@
+import { NormalizedBox } from '../types';
+
+export interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Maps a box given as fractions of the video frame onto the <video>
+ * element, accounting for `object-cover` scaling and cropping.
+ */
+export function mapBoxToElement(
+  box: NormalizedBox,
+  frameWidth: number,
+  frameHeight: number,
+  elementWidth: number,
+  elementHeight: number
+): PixelRect {
+  const scale = Math.max(elementWidth / frameWidth, elementHeight / frameHeight);
+  const offsetX = (elementWidth - frameWidth * scale) / 2;
+  const offsetY = (elementHeight - frameHeight * scale) / 2;
+
+  return {
+    left: offsetX + box.xmin * frameWidth * scale,
+    top: offsetY + box.ymin * frameHeight * scale,
+    width: (box.xmax - box.xmin) * frameWidth * scale,
+    height: (box.ymax - box.ymin) * frameHeight * scale
+  };
+}
+
+/**
+ * Reads a box from the model, which uses [ymin, xmin, ymax, xmax] in the
+ * 0-1000 range. Returns null when the box is missing or degenerate.
+ */
+export function parseModelBox(args: Record<string, unknown>): NormalizedBox | null {
+  const values = ['ymin', 'xmin', 'ymax', 'xmax'].map(key => {
+    const value = typeof args[key] === 'string' ? parseFloat(args[key] as string) : args[key];
+    return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1000, value)) / 1000 : NaN;
+  });
+  if (values.some(Number.isNaN)) return null;
+
+  const [ymin, xmin, ymax, xmax] = values;
+  const box = {
+    xmin: Math.min(xmin, xmax),
+    ymin: Math.min(ymin, ymax),
+    xmax: Math.max(xmin, xmax),
+    ymax: Math.max(ymin, ymax)
+  };
+  if (box.xmax - box.xmin < 0.01 || box.ymax - box.ymin < 0.01) return null;
+  return box;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceGate } from './voiceGate';
+
+const SAMPLE_RATE = 16000;
+// 40 ms, the chunk length the app captures
+const CHUNK = 640;
+
+// A chunk of sine at the given RMS level; continuing phase does not matter here
+const tone = (hz: number, rmsDb: number) => {
+  const amplitude = Math.SQRT2 * Math.pow(10, rmsDb / 20);
+  return Float32Array.from({ length: CHUNK }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+};
+
+const hum = () => tone(50, -60);
+// Speech-like: within the zero-crossing range of voice, 15 dB over the room
+const voice = () => tone(300, -45);
+
+// A gate that has listened to a humming room for a second
+const settledGate = () => {
+  const gate = createVoiceGate({ sampleRate: SAMPLE_RATE });
+  for (let i = 0; i < 25; i++) gate.process(hum());
+  return gate;
+};
+
+describe('createVoiceGate', () => {
+  it('does not stream mains hum, however long it lasts', () => {
+    const gate = settledGate();
+    for (let i = 0; i < 50; i++) expect(gate.process(tone(50, -50))).toEqual([]);
+    expect(gate.isOpen()).toBe(false);
+  });
+
+  it('opens on sustained speech and sends the audio from just before it', () => {
+    const gate = settledGate();
+    expect(gate.process(voice())).toEqual([]);
+    const sent = gate.process(voice());
+    expect(gate.isOpen()).toBe(true);
+    // The pre-roll covers at least 300 ms before the current chunk
+    expect(sent.slice(0, -1).reduce((sum, chunk) => sum + chunk.length, 0)).toBeGreaterThanOrEqual(0.3 * SAMPLE_RATE);
+    expect(gate.process(voice())).toHaveLength(1);
+  });
+
+  it('opens at once on a sudden loud sound such as a clap', () => {
+    const gate = settledGate();
+    expect(gate.process(tone(1000, -10)).length).toBeGreaterThan(1);
+    expect(gate.isOpen()).toBe(true);
+  });
+
+  it('stays open through short pauses and closes after the hangover', () => {
+    const gate = settledGate();
+    gate.process(voice());
+    gate.process(voice());
+    // 700 ms of quiet is 17.5 chunks
+    for (let i = 0; i < 17; i++) expect(gate.process(hum())).toHaveLength(1);
+    expect(gate.process(hum())).toEqual([]);
+    expect(gate.isOpen()).toBe(false);
+  });
+
+  it('stays open while forced, even in silence', () => {
+    const gate = settledGate();
+    expect(gate.process(hum(), true)).not.toEqual([]);
+    for (let i = 0; i < 30; i++) expect(gate.process(hum(), true)).toHaveLength(1);
+    expect(gate.isOpen()).toBe(true);
+  });
+
+  it('closes at once on request', () => {
+    const gate = settledGate();
+    gate.process(hum(), true);
+    gate.close();
+    expect(gate.isOpen()).toBe(false);
+    expect(gate.process(hum())).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+// Local voice-activity gate for the microphone stream. Only speech and loud
+// deliberate sounds (a clap, a test word into the mosque mic) are passed on;
+// hum, fan noise and the quiet room are not streamed to the model.
+
+interface VoiceGateOptions {
+  sampleRate: number;
+  // How far (dB) above the noise floor a chunk must be to count as speech
+  openAboveFloorDb?: number;
+  // A sudden sound this far above the floor opens the gate whatever it sounds like
+  impulseAboveFloorDb?: number;
+  // Rise (dB) from the previous chunk that makes a sound sudden, like a clap
+  impulseRiseDb?: number;
+  // Audio kept from before the gate opened, so the first syllable is not cut
+  preRollMs?: number;
+  // How long the gate stays open after the last speech
+  hangoverMs?: number;
+  // Consecutive speech-like audio needed to open, so single clicks do not open it
+  minSpeechMs?: number;
+}
+
+const SILENCE_DB = -100;
+const INITIAL_FLOOR_DB = -60;
+// The floor follows quiet moments at once and louder ones slowly
+const FLOOR_RISE_DB_PER_SECOND = 1.5;
+// Zero crossings per second of voiced and unvoiced speech; mains hum sits
+// below this range and hiss above it
+const SPEECH_MIN_CROSSINGS = 150;
+const SPEECH_MAX_CROSSINGS = 4500;
+
+const toDb = (value: number) => (value > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(value)) : SILENCE_DB);
+
+function measureChunk(samples: Float32Array, sampleRate: number): { levelDb: number; crossingsPerSecond: number } {
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+  const seconds = Math.max(1, samples.length) / sampleRate;
+  return {
+    levelDb: toDb(Math.sqrt(sumSquares / Math.max(1, samples.length))),
+    crossingsPerSecond: crossings / 2 / seconds
+  };
+}
+
+/**
+ * Creates a gate fed with every microphone chunk. process() returns the chunks
+ * to send now: nothing while closed, the pre-roll and the current chunk when it
+ * opens, and the current chunk while open.
+ */
+export function createVoiceGate(options: VoiceGateOptions) {
+  const {
+    sampleRate,
+    openAboveFloorDb = 12,
+    impulseAboveFloorDb = 30,
+    impulseRiseDb = 20,
+    preRollMs = 300,
+    hangoverMs = 700,
+    minSpeechMs = 80
+  } = options;
+
+  const preRollSamples = (sampleRate * preRollMs) / 1000;
+  let floorDb = INITIAL_FLOOR_DB;
+  let lastLevelDb = SILENCE_DB;
+  let open = false;
+  let speechSamples = 0;
+  let quietSamples = 0;
+  let preRoll: Float32Array[] = [];
+
+  const keepPreRoll = (samples: Float32Array) => {
+    preRoll.push(samples);
+    let kept = preRoll.reduce((sum, chunk) => sum + chunk.length, 0);
+    while (preRoll.length > 1 && kept - preRoll[0].length >= preRollSamples) {
+      kept -= preRoll[0].length;
+      preRoll.shift();
+    }
+  };
+
+  // `force` keeps the gate open, e.g. while push-to-talk is held or a test is running
+  const process = (samples: Float32Array, force = false): Float32Array[] => {
+    const { levelDb, crossingsPerSecond } = measureChunk(samples, sampleRate);
+    const seconds = samples.length / sampleRate;
+    const aboveFloor = levelDb - floorDb;
+    const speechLike = aboveFloor >= openAboveFloorDb &&
+      crossingsPerSecond >= SPEECH_MIN_CROSSINGS && crossingsPerSecond <= SPEECH_MAX_CROSSINGS;
+    const impulse = aboveFloor >= impulseAboveFloorDb && levelDb - lastLevelDb >= impulseRiseDb;
+    lastLevelDb = levelDb;
+
+    // Only learn the floor from audio that is not being sent
+    if (!speechLike && !impulse) {
+      floorDb = levelDb < floorDb ? levelDb : floorDb + FLOOR_RISE_DB_PER_SECOND * seconds;
+    }
+
+    speechSamples = speechLike ? speechSamples + samples.length : 0;
+    quietSamples = speechLike || impulse || force ? 0 : quietSamples + samples.length;
+
+    if (!open) {
+      if (force || impulse || speechSamples >= (sampleRate * minSpeechMs) / 1000) {
+        open = true;
+        const chunks = [...preRoll, samples];
+        preRoll = [];
+        return chunks;
+      }
+      keepPreRoll(samples);
+      return [];
+    }
+
+    if (quietSamples >= (sampleRate * hangoverMs) / 1000) {
+      close();
+      keepPreRoll(samples);
+      return [];
+    }
+    return [samples];
+  };
+
+  // Closes at once, e.g. when the engineer starts talking in half-duplex
+  const close = () => {
+    open = false;
+    speechSamples = 0;
+    quietSamples = 0;
+    preRoll = [];
+  };
+
+  return { process, close, isOpen: () => open };
+}
+
+export type VoiceGate = ReturnType<typeof createVoiceGate>;
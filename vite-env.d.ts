@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'mock' connects to scripts/mock-live-server.mjs instead of Gemini
+  readonly VITE_LIVE_BACKEND?: string;
+  readonly VITE_MOCK_LIVE_URL?: string;
+  // Where to fetch session tokens, and the public key sent with the request
+  readonly VITE_TOKEN_URL?: string;
+  readonly VITE_TOKEN_APP_KEY?: string;
+}